@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Speaker" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "displayName" TEXT,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Speaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Speaker_recordingId_label_key" ON "Speaker"("recordingId", "label");
+
+-- AddForeignKey
+ALTER TABLE "Speaker" ADD CONSTRAINT "Speaker_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "RecordingStatus" ADD VALUE 'FAILED';
+
+-- CreateEnum
+CREATE TYPE "ProcessingErrorCode" AS ENUM ('INVALID_API_KEY', 'QUOTA_EXCEEDED', 'NETWORK', 'TIMEOUT', 'PROVIDER_UNAVAILABLE', 'INVALID_RESPONSE', 'EMPTY_AUDIO', 'NO_SPEECH', 'MISSING_AUDIO', 'UNKNOWN');
+
+-- CreateTable
+CREATE TABLE "RecordingError" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "stage" TEXT NOT NULL,
+    "provider" TEXT,
+    "code" "ProcessingErrorCode" NOT NULL,
+    "message" TEXT NOT NULL,
+    "retriable" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecordingError_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecordingError_recordingId_createdAt_idx" ON "RecordingError"("recordingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RecordingError" ADD CONSTRAINT "RecordingError_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
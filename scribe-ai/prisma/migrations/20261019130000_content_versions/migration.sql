@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "TranscriptVersion" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "segments" JSONB,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SummaryVersion" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptVersion_recordingId_createdAt_idx" ON "TranscriptVersion"("recordingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SummaryVersion_recordingId_createdAt_idx" ON "SummaryVersion"("recordingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptVersion" ADD CONSTRAINT "TranscriptVersion_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryVersion" ADD CONSTRAINT "SummaryVersion_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
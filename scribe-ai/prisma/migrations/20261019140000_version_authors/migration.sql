@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "TranscriptVersion" ADD COLUMN     "authorId" TEXT,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "provider" TEXT;
+
+-- AlterTable
+ALTER TABLE "SummaryVersion" ADD COLUMN     "authorId" TEXT,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "provider" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "TranscriptVersion" ADD CONSTRAINT "TranscriptVersion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryVersion" ADD CONSTRAINT "SummaryVersion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing text becomes the first version, so every later write only appends
+INSERT INTO "TranscriptVersion" ("id", "recordingId", "text", "segments", "reason")
+SELECT gen_random_uuid()::text, r."id", r."transcript",
+       (SELECT jsonb_agg(jsonb_build_object(
+                 'index', s."index", 'startMs', s."startMs", 'endMs', s."endMs",
+                 'speaker', s."speaker", 'text', s."text", 'confidence', s."confidence"
+               ) ORDER BY s."index")
+          FROM "TranscriptSegment" s WHERE s."recordingId" = r."id"),
+       'original'
+FROM "Recording" r
+WHERE coalesce(trim(r."transcript"), '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM "TranscriptVersion" v WHERE v."recordingId" = r."id" AND v."text" = r."transcript");
+
+INSERT INTO "SummaryVersion" ("id", "recordingId", "text", "reason")
+SELECT gen_random_uuid()::text, r."id", r."summary", 'original'
+FROM "Recording" r
+WHERE coalesce(trim(r."summary"), '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM "SummaryVersion" v WHERE v."recordingId" = r."id" AND v."text" = r."summary");
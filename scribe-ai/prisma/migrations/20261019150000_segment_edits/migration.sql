@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ProcessingErrorCode" ADD VALUE 'TRANSCRIPT_EDITED';
+
+-- AlterTable
+ALTER TABLE "TranscriptSegment" ADD COLUMN     "edited" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "GlossaryTerm" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "variants" TEXT[],
+    "phonetic" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlossaryTerm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlossaryTerm_userId_term_key" ON "GlossaryTerm"("userId", "term");
+
+-- AddForeignKey
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "detectedLanguage" TEXT,
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "summaryLanguage" TEXT;
+
+-- AlterTable
+ALTER TABLE "TranscriptSegment" ADD COLUMN     "language" TEXT;
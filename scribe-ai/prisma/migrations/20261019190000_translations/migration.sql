@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "Translation" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+    "transcript" TEXT NOT NULL,
+    "summary" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Translation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Translation_recordingId_language_key" ON "Translation"("recordingId", "language");
+
+-- AddForeignKey
+ALTER TABLE "Translation" ADD CONSTRAINT "Translation_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN     "summaryData" JSONB,
+ADD COLUMN     "summaryTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SummaryTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "prompt" TEXT NOT NULL,
+    "sections" JSONB NOT NULL,
+    "schema" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryTemplate_userId_name_key" ON "SummaryTemplate"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
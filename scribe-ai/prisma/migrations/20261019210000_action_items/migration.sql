@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ActionItemStatus" AS ENUM ('OPEN', 'DONE');
+
+-- CreateTable
+CREATE TABLE "ActionItem" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "owner" TEXT,
+    "speakerId" TEXT,
+    "dueDate" DATE,
+    "segmentIndex" INTEGER,
+    "startMs" INTEGER,
+    "status" "ActionItemStatus" NOT NULL DEFAULT 'OPEN',
+    "edited" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ActionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActionItem_recordingId_idx" ON "ActionItem"("recordingId");
+
+-- CreateIndex
+CREATE INDEX "ActionItem_status_dueDate_idx" ON "ActionItem"("status", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "Speaker"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE 'INDEX';
+
+-- CreateTable
+CREATE TABLE "TranscriptChunk" (
+    "id" TEXT NOT NULL,
+    "recordingId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "startMs" INTEGER,
+    "endMs" INTEGER,
+    "text" TEXT NOT NULL,
+    "embedding" vector(768),
+    "search" tsvector GENERATED ALWAYS AS (to_tsvector('simple', "text")) STORED,
+    "provider" TEXT,
+    "model" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptChunk_recordingId_idx" ON "TranscriptChunk"("recordingId");
+
+-- CreateIndex
+CREATE INDEX "TranscriptChunk_embedding_idx" ON "TranscriptChunk" USING hnsw ("embedding" vector_cosine_ops);
+
+-- CreateIndex
+CREATE INDEX "TranscriptChunk_search_idx" ON "TranscriptChunk" USING GIN ("search");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptChunk" ADD CONSTRAINT "TranscriptChunk_recordingId_fkey" FOREIGN KEY ("recordingId") REFERENCES "Recording"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN "search" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("summary", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce("transcript", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Recording_search_idx" ON "Recording" USING GIN ("search");
+
+-- CreateIndex
+CREATE INDEX "Recording_userId_createdAt_idx" ON "Recording"("userId", "createdAt");
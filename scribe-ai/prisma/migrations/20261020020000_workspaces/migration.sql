@@ -0,0 +1,128 @@
+-- CreateEnum
+CREATE TYPE "WorkspaceRole" AS ENUM ('OWNER', 'ADMIN', 'EDITOR', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Membership" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Membership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceInvitation" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL,
+    "token" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing user gets a personal workspace holding what they own today
+INSERT INTO "Workspace" ("id", "name", "updatedAt")
+SELECT 'ws_' || "id", 'Personal', CURRENT_TIMESTAMP FROM "User";
+
+INSERT INTO "Membership" ("id", "workspaceId", "userId", "role", "updatedAt")
+SELECT 'mb_' || "id", 'ws_' || "id", "id", 'OWNER', CURRENT_TIMESTAMP FROM "User";
+
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN "workspaceId" TEXT;
+UPDATE "Recording" SET "workspaceId" = 'ws_' || "userId";
+ALTER TABLE "Recording" ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- Recordings outlive their creator's account: they belong to the workspace now
+ALTER TABLE "Recording" ALTER COLUMN "userId" DROP NOT NULL;
+ALTER TABLE "Recording" DROP CONSTRAINT "Recording_userId_fkey";
+ALTER TABLE "Recording" ADD CONSTRAINT "Recording_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "workspaceId" TEXT;
+UPDATE "Tag" SET "workspaceId" = 'ws_' || "userId";
+ALTER TABLE "Tag" ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Folder" ADD COLUMN "workspaceId" TEXT;
+UPDATE "Folder" SET "workspaceId" = 'ws_' || "userId";
+ALTER TABLE "Folder" ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "Tag" DROP CONSTRAINT "Tag_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "Folder" DROP CONSTRAINT "Folder_userId_fkey";
+
+-- DropIndex
+DROP INDEX "Tag_userId_name_key";
+
+-- DropIndex
+DROP INDEX "Folder_userId_idx";
+
+-- AlterTable
+ALTER TABLE "Tag" DROP COLUMN "userId";
+
+-- AlterTable
+ALTER TABLE "Folder" DROP COLUMN "userId";
+
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN "activeWorkspaceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Membership_userId_idx" ON "Membership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_workspaceId_userId_key" ON "Membership"("workspaceId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceInvitation_token_key" ON "WorkspaceInvitation"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceInvitation_workspaceId_email_key" ON "WorkspaceInvitation"("workspaceId", "email");
+
+-- CreateIndex
+CREATE INDEX "Recording_workspaceId_createdAt_idx" ON "Recording"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_workspaceId_name_key" ON "Tag"("workspaceId", "name");
+
+-- CreateIndex
+CREATE INDEX "Folder_workspaceId_idx" ON "Folder"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "Recording" ADD CONSTRAINT "Recording_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Folder" ADD CONSTRAINT "Folder_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceInvitation" ADD CONSTRAINT "WorkspaceInvitation_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceInvitation" ADD CONSTRAINT "WorkspaceInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "GlossaryTerm" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "workspaceId" TEXT;
+
+-- A term is either personal or shared with a workspace
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_owner_check" CHECK (("userId" IS NULL) <> ("workspaceId" IS NULL));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlossaryTerm_workspaceId_term_key" ON "GlossaryTerm"("workspaceId", "term");
+
+-- AddForeignKey
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
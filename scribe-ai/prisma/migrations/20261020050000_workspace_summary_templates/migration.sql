@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "SummaryTemplate" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "workspaceId" TEXT;
+
+-- A template is either personal or shared with a workspace
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_owner_check" CHECK (("userId" IS NULL) <> ("workspaceId" IS NULL));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryTemplate_workspaceId_name_key" ON "SummaryTemplate"("workspaceId", "name");
+
+-- AddForeignKey
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
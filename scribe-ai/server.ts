@@ -3,13 +3,53 @@ import { parse } from 'url';
 import next from 'next';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import  prisma  from './src/lib/prisma';
-import { transcribeAudio, generateSummary } from './src/lib/gemini';
+import { getRequestSession } from './src/lib/auth';
+import {
+  recordingRoom,
+  userRoom,
+  type AudioChunkData,
+  type RecordingData,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type SocketData
+} from './src/app/types/socket';
+import { getTranscriptionProvider } from './src/lib/providers';
+import {
+  getAudioStorage,
+  audioKeyFor,
+  type AudioUpload
+} from './src/lib/storage';
+import { LiveTranscriber, type CommittedSegment } from './src/lib/live-transcriber';
+import { formatTranscript } from './src/lib/transcript';
+import { ensureSpeakers, getSpeakerNames } from './src/lib/speakers';
+import { saveTranscriptVersion } from './src/lib/versions';
+import { applyGlossary, getGlossary, MAX_PROMPT_TERMS } from './src/lib/glossary';
+import { DEFAULT_PREFERENCES, getPreferences, spokenLanguage } from './src/lib/preferences';
+import { dominantLanguage, providerLanguage } from './src/lib/language';
+import { enqueueJob, JobWorker, startJobEventRelay, type JobEvent } from './src/lib/jobs';
+import { authorizeRecording as authorizeRecordingAccess, hasRole, requiresRole } from './src/lib/access';
+import type { WorkspaceRole } from './src/generated/prisma/client';
 
 // Environment configuration
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOST || 'localhost';
 const port = parseInt(process.env.PORT || '5000', 10);
 
+// Live transcription cadence; chunk length must match the client's MediaRecorder timeslice
+const liveTranscription = {
+  chunkMs: parseInt(process.env.LIVE_TRANSCRIPTION_CHUNK_MS || '1000', 10),
+  windowMs: parseInt(process.env.LIVE_TRANSCRIPTION_WINDOW_MS || '15000', 10),
+  overlapMs: parseInt(process.env.LIVE_TRANSCRIPTION_OVERLAP_MS || '2000', 10),
+  partialMs: parseInt(process.env.LIVE_TRANSCRIPTION_PARTIAL_MS || '5000', 10)
+};
+
+// How long a socket's role on a recording is trusted before it is checked
+// again, so removed or demoted workspace members lose access
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+// Run queued post-processing in this process, or leave it to `npm run worker`
+const runJobWorker = process.env.RUN_JOB_WORKER !== 'false';
+
 // Logging utility
 const log = {
   info: (message: string, ...args: unknown[]) => {
@@ -29,185 +69,341 @@ const log = {
 };
 
 // Socket.IO types
-interface AudioChunkData {
-  recordingId: string;
-  chunk: ArrayBuffer;
-  isFinal: boolean;
-  timestamp?: string;
-}
-
-interface RecordingData {
-  recordingId: string;
-}
-
-interface ClientToServerEvents {
-  'audio-chunk': (data: AudioChunkData) => void;
-  'complete-recording': (data: RecordingData) => void;
-  'pause-recording': (data: RecordingData) => void;
-  'resume-recording': (data: RecordingData) => void;
-}
-
-interface ServerToClientEvents {
-  'transcription-update': (data: {
-    recordingId: string;
-    text: string;
-    timestamp: string;
-    isFinal: boolean;
-  }) => void;
-
-  'recording-completed': (data: {
-    recordingId: string;
-    summary: string;
-    transcript: string;
-    duration: number;
-  }) => void;
-
-  'recording-error': (data: {
-    recordingId: string;
-    error: string;
-  }) => void;
-
-  'recording-status': (data: {
-    recordingId: string;
-    status: string;
-  }) => void;
-
-  'audio-chunk-received': (data: {
-    recordingId: string;
-    success: boolean;
-  }) => void;
-}
+type AppServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
 
-// Active recording sessions with audio chunks
+// Active recording sessions, with audio streamed to storage as it arrives
 const activeRecordings = new Map<
   string,
   {
     socketId: string;
+    userId: string;
     startTime: number;
-    chunks: Blob[];
+    upload: AudioUpload;
+    transcriber: LiveTranscriber;
+    chunkCount: number;
+    mimeType: string;
     isPaused: boolean;
   }
 >();
 
-// Process recording with Gemini
-async function processRecordingWithGemini(
+// Recording events go to the sockets in its room only. Each joined through an
+// access check the role sweep repeats; the creator's other sockets are left
+// out, since the creator may have lost access to the workspace since.
+function recordingAudience(io: AppServer, recordingId: string) {
+  return io.to(recordingRoom(recordingId));
+}
+
+function toSegmentRow(recordingId: string, segment: CommittedSegment) {
+  return {
+    recordingId,
+    index: segment.index,
+    startMs: segment.startMs,
+    endMs: segment.endMs,
+    speaker: segment.speaker,
+    text: segment.text,
+    confidence: segment.confidence,
+    language: segment.language ?? null
+  };
+}
+
+// Processing falls back to the defaults rather than failing on a lookup error
+function loadPreferences(userId: string) {
+  return getPreferences(userId).catch((error) => {
+    log.warn(`Failed to load preferences for ${userId}:`, error);
+    return DEFAULT_PREFERENCES;
+  });
+}
+
+// Transcribe the recording window by window while it is still being captured
+function createLiveTranscriber(io: AppServer, recordingId: string, userId: string, mimeType: string) {
+  const audience = () => recordingAudience(io, recordingId);
+  const recording = prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: { language: true, workspaceId: true }
+  });
+  // Loaded once per recording; terms added mid-recording apply from the next one
+  const glossary = recording
+    .then((found) => (found ? getGlossary({ userId, workspaceId: found.workspaceId }) : []))
+    .catch((error) => {
+      log.warn(`Failed to load glossary for ${recordingId}:`, error);
+      return [];
+    });
+  const language = recording
+    .then((found) => spokenLanguage({ userId, language: found?.language ?? null }))
+    .then(providerLanguage)
+    .catch((error) => {
+      log.warn(`Failed to load the language of ${recordingId}:`, error);
+      return providerLanguage(DEFAULT_PREFERENCES.transcriptionLanguage);
+    });
+
+  const transcriber: LiveTranscriber = new LiveTranscriber({
+    ...liveTranscription,
+    mimeType,
+    transcribe: async (audio, context) => {
+      const [terms, hint] = await Promise.all([glossary, language]);
+      const segments = await getTranscriptionProvider().transcribe(audio, {
+        ...context,
+        language: hint,
+        glossary: terms.slice(0, MAX_PROMPT_TERMS)
+      });
+      return applyGlossary(segments, terms)
+        .map((segment) => ({ ...segment, language: segment.language ?? hint ?? null }));
+    },
+    onPartial: (text) => {
+      audience().emit('transcription-update', {
+        recordingId,
+        text,
+        timestamp: new Date().toISOString(),
+        isFinal: false
+      });
+    },
+    onCommit: (segments) => {
+      const first = segments[0];
+      const last = segments[segments.length - 1];
+      log.debug(`Committed segments ${first.index}-${last.index} for ${recordingId} (${first.startMs}-${last.endMs}ms)`);
+
+      audience().emit('transcription-update', {
+        recordingId,
+        text: formatTranscript(segments),
+        timestamp: new Date().toISOString(),
+        isFinal: true
+      });
+
+      // Persist progress so committed text survives a dropped connection
+      Promise.all([
+        ensureSpeakers(recordingId, segments.map((segment) => segment.speaker)),
+        prisma.transcriptSegment.createMany({
+          data: segments.map((segment) => toSegmentRow(recordingId, segment)),
+          skipDuplicates: true
+        }),
+        prisma.recording.update({
+          where: { id: recordingId },
+          data: { transcript: transcriber.transcript() }
+        })
+      ]).catch((error) => log.error(`Failed to save live transcript for ${recordingId}:`, error));
+    },
+    onError: (error) => {
+      log.error(`Live transcription window failed for ${recordingId}:`, error);
+    }
+  });
+
+  return transcriber;
+}
+
+// Commit the last live window and hand the rest over to the job queue. If the
+// live transcript is incomplete the stored audio is transcribed from scratch.
+async function finishRecording(
   recordingId: string,
-  io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>
+  io: AppServer
 ) {
-  try {
-    log.info(`Processing recording ${recordingId} with Gemini...`);
+  const recordingData = activeRecordings.get(recordingId);
+  if (!recordingData) return;
 
-    const recordingData = activeRecordings.get(recordingId);
-    if (!recordingData || recordingData.chunks.length === 0) {
-      throw new Error('No audio chunks available for processing');
+  const duration = Math.floor(
+    (Date.now() - recordingData.startTime) / 1000
+  );
+
+  try {
+    log.info(' Flushing live transcription...');
+    const segments = await recordingData.transcriber.flush();
+    await ensureSpeakers(recordingId, segments.map((segment) => segment.speaker));
+    // Speakers may have been renamed while the recording was still running
+    const transcript = formatTranscript(segments, await getSpeakerNames(recordingId));
+    log.info(` Live transcription completed: ${segments.length} segments, ${transcript.length} chars`);
+
+    if (!transcript.trim()) {
+      throw new Error('No speech was transcribed live');
     }
 
-    log.info(`Total chunks to process: ${recordingData.chunks.length}`);
+    // Segments are rewritten in full in case a live save failed
+    await prisma.$transaction([
+      prisma.transcriptSegment.deleteMany({ where: { recordingId } }),
+      prisma.transcriptSegment.createMany({
+        data: segments.map((segment) => toSegmentRow(recordingId, segment))
+      }),
+      prisma.recording.update({
+        where: { id: recordingId },
+        data: { transcript, duration, detectedLanguage: dominantLanguage(segments) }
+      })
+    ]);
+    const provider = getTranscriptionProvider();
+    await saveTranscriptVersion(recordingId, transcript, 'live', { provider: provider.name, model: provider.model });
+
+    const { autoSummarize } = await loadPreferences(recordingData.userId);
+    if (autoSummarize) {
+      await enqueueJob({ type: 'SUMMARIZE', recordingId });
+      log.info(`Queued summary for ${recordingId}`);
+    } else {
+      const completed = await prisma.recording.update({
+        where: { id: recordingId },
+        data: { status: 'COMPLETED' },
+        select: { transcript: true, duration: true }
+      });
+      recordingAudience(io, recordingId).emit('recording-completed', {
+        recordingId,
+        summary: '',
+        transcript: completed.transcript ?? '',
+        duration: completed.duration ?? 0
+      });
+      log.info(`Skipped summary for ${recordingId}: auto-summarize is off`);
+    }
+  } catch (error) {
+    log.warn(`Live transcript for ${recordingId} unusable, queueing full transcription:`, error);
 
-    // Combine all chunks into one blob
-    const combinedBlob = new Blob(recordingData.chunks, { type: 'audio/webm' });
-    log.info(`Combined blob size: ${combinedBlob.size} bytes`);
+    try {
+      await prisma.recording.update({
+        where: { id: recordingId },
+        data: { duration }
+      });
+      const { autoSummarize } = await loadPreferences(recordingData.userId);
+      await enqueueJob({ type: 'TRANSCRIBE', recordingId, payload: { summarize: autoSummarize } });
+    } catch (queueError) {
+      // The worker's stalled-recording sweep picks this up later
+      log.error(`Failed to queue processing for ${recordingId}:`, queueError);
+      recordingAudience(io, recordingId).emit('recording-error', {
+        recordingId,
+        error: 'Failed to queue processing'
+      });
+    }
+  } finally {
+    activeRecordings.delete(recordingId);
+  }
+}
 
-    // Update status to processing
-    io.emit('recording-status', {
-      recordingId,
-      status: 'PROCESSING'
-    });
+// Relay job state to the recording's room; finished or failed jobs also get
+// the recording-level events clients already listen for
+async function emitJobEvent(io: AppServer, event: JobEvent) {
+  // Search indexing runs behind the scenes
+  if (event.type === 'INDEX') return;
 
-    // Get recording from database for start time
-    const recording = await prisma.recording.findUnique({
-      where: { id: recordingId }
-    });
+  const recording = await prisma.recording.findUnique({
+    where: { id: event.recordingId },
+    select: { status: true, summary: true, transcript: true, duration: true }
+  });
+  if (!recording) return;
 
-    if (!recording) {
-      throw new Error('Recording not found in database');
-    }
+  const audience = recordingAudience(io, event.recordingId);
 
-    const duration = Math.floor(
-      (Date.now() - recordingData.startTime) / 1000
-    );
+  audience.emit('job-progress', {
+    ...event,
+    retryAt: event.retryAt?.toISOString() ?? null
+  });
 
-    // Transcribe with Gemini
-    log.info(' Starting Gemini transcription...');
-    const transcript = await transcribeAudio(combinedBlob);
-    log.info(` Transcription completed, length: ${transcript.length} chars`);
+  // A translation leaves the recording itself as it was
+  if (event.type === 'TRANSLATE') return;
 
-    // Send transcription update
-    io.emit('transcription-update', {
-      recordingId,
-      text: transcript,
-      timestamp: new Date().toISOString(),
-      isFinal: true
+  if (event.status === 'COMPLETED' && recording.status === 'COMPLETED') {
+    audience.emit('recording-completed', {
+      recordingId: event.recordingId,
+      summary: recording.summary ?? '',
+      transcript: recording.transcript ?? '',
+      duration: recording.duration ?? 0
     });
-
-    // Generate summary
-    log.info(' Generating summary with Gemini...');
-    const summary = await generateSummary(transcript);
-    log.info(` Summary generated, length: ${summary.length} chars`);
-
-    // Update database
-    await prisma.recording.update({
-      where: { id: recordingId },
-      data: {
-        transcript,
-        summary,
-        duration,
-        status: 'COMPLETED'
-      }
+  } else if (event.status === 'FAILED') {
+    audience.emit('recording-status', {
+      recordingId: event.recordingId,
+      status: recording.status
     });
+    audience.emit('recording-error', {
+      recordingId: event.recordingId,
+      error: event.error ?? 'Processing failed'
+    });
+  }
+}
 
-    log.info(' Database updated successfully');
-
-    // Send completion event
-    io.emit('recording-completed', {
+// Look the socket's role on the recording up again. Without access it leaves
+// the recording's room, so it stops receiving the recording's events.
+async function refreshRecordingRole(socket: AppSocket, recordingId: string): Promise<WorkspaceRole | null> {
+  const access = await authorizeRecordingAccess(socket.data.userId, recordingId, 'VIEWER');
+  if ('error' in access) {
+    log.warn(`Socket ${socket.id} (user ${socket.data.userId}) denied access to recording ${recordingId}`);
+    socket.data.recordingRoles.delete(recordingId);
+    await socket.leave(recordingRoom(recordingId));
+    socket.emit('recording-error', {
       recordingId,
-      summary,
-      transcript,
-      duration
+      error: access.error
     });
+    return null;
+  }
 
-    log.info(`Recording processing complete: ${recordingId}`);
+  socket.data.recordingRoles.set(recordingId, { role: access.role, checkedAt: Date.now() });
+  await socket.join(recordingRoom(recordingId));
+  return access.role;
+}
 
-    // Clean up
-    activeRecordings.delete(recordingId);
+// Payloads come straight from the client, so a listener reads nothing from one
+// until this holds: a throw there escapes to uncaughtException and shuts down
+function hasRecordingId(data: RecordingData | null | undefined): data is RecordingData {
+  return typeof data?.recordingId === 'string' && data.recordingId.length > 0;
+}
 
-  } catch (error) {
-    log.error(`❌ Error processing recording ${recordingId}:`, error);
+// A recording's socket events are handled one at a time in arrival order.
+// Each awaits an access check, so handling them side by side could store
+// audio chunks out of order or complete a recording before its last chunk.
+// Events without a recording id are dropped.
+const recordingQueues = new Map<string, Promise<void>>();
 
-    // Update database with error status
-    try {
-      await prisma.recording.update({
-        where: { id: recordingId },
-        data: {
-          status: 'COMPLETED',
-          transcript: 'Error: Failed to transcribe audio. Please check server logs.',
-          summary: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      });
-    } catch (dbError) {
-      log.error('Failed to update database with error status:', dbError);
-    }
+function inRecordingOrder(data: RecordingData | null | undefined, task: () => Promise<void>): Promise<void> {
+  if (!hasRecordingId(data)) {
+    log.warn('Dropped a recording event without a recordingId');
+    return Promise.resolve();
+  }
 
-    // Send error to client
-    io.emit('recording-error', {
+  const { recordingId } = data;
+  const previous = recordingQueues.get(recordingId) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  recordingQueues.set(recordingId, next);
+
+  const cleanUp = () => {
+    if (recordingQueues.get(recordingId) === next) recordingQueues.delete(recordingId);
+  };
+  next.then(cleanUp, cleanUp);
+  return next;
+}
+
+// Check that the socket's user has at least `minimum` on the recording: viewers
+// may watch it, editors record to it. Roles are cached per socket for
+// ROLE_CACHE_TTL_MS so the per-second audio-chunk events don't each hit the database.
+async function authorizeRecording(
+  socket: AppSocket,
+  recordingId: string,
+  minimum: WorkspaceRole
+): Promise<boolean> {
+  if (!recordingId) return false;
+
+  const cached = socket.data.recordingRoles.get(recordingId);
+  const role = cached && Date.now() - cached.checkedAt < ROLE_CACHE_TTL_MS
+    ? cached.role
+    : await refreshRecordingRole(socket, recordingId);
+  if (!role) return false;
+
+  if (!hasRole(role, minimum)) {
+    log.warn(`Socket ${socket.id} (user ${socket.data.userId}) is only ${role} on recording ${recordingId}`);
+    socket.emit('recording-error', {
       recordingId,
-      error: error instanceof Error ? error.message : 'Processing failed'
+      error: requiresRole(minimum).error
     });
-
-    // Clean up
-    activeRecordings.delete(recordingId);
+    return false;
   }
+
+  return true;
 }
 
 // Graceful shutdown handler
 let isShuttingDown = false;
 
-const gracefulShutdown = (server: HttpServer, io: SocketIOServer) => {
+const gracefulShutdown = (server: HttpServer, io: SocketIOServer, worker: JobWorker | null) => {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
   log.info('Received shutdown signal, closing gracefully...');
 
+  // Let the job in hand finish; an interrupted one is retried after its lock expires
+  const workerStopped = worker
+    ? worker.stop().catch((error) => log.error('Failed to stop job worker:', error))
+    : Promise.resolve();
+
   // Stop accepting new connections
   server.close(() => {
     log.info('HTTP server closed');
@@ -216,7 +412,7 @@ const gracefulShutdown = (server: HttpServer, io: SocketIOServer) => {
   // Close all socket connections
   io.close(() => {
     log.info('Socket.IO server closed');
-    process.exit(0);
+    workerStopped.then(() => process.exit(0));
   });
 
   // Force close after 30 seconds
@@ -253,7 +449,7 @@ app.prepare().then(async () => {
     }
   });
 
-  const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
+  const io: AppServer = new SocketIOServer(
     httpServer,
     {
       path: '/api/socket/io',
@@ -278,11 +474,26 @@ app.prepare().then(async () => {
 
   io.use(async (socket, next) => {
     try {
-      const _token =
+      const token: string | undefined =
         socket.handshake.auth.token ||
-        socket.handshake.headers.authorization;
+        socket.handshake.headers.authorization?.replace(/^Bearer /, '');
 
-      // TODO: validate token later
+      // Validate the better-auth session from the cookie or the handshake token
+      const request = new Request(`http://${hostname}:${port}/api/socket/io`, {
+        headers: {
+          ...(socket.handshake.headers.cookie && { cookie: socket.handshake.headers.cookie }),
+          ...(token && { authorization: `Bearer ${token}` })
+        }
+      });
+      const session = await getRequestSession(request);
+
+      if (!session?.user) {
+        log.warn(`Rejected unauthenticated socket from ${socket.handshake.address}`);
+        return next(new Error('Unauthorized'));
+      }
+
+      socket.data.userId = session.user.id;
+      socket.data.recordingRoles = new Map();
       next();
     } catch (error) {
       log.error('Socket authentication error:', error);
@@ -292,8 +503,8 @@ app.prepare().then(async () => {
 
   io.on(
     'connection',
-    (socket: Socket<ClientToServerEvents, ServerToClientEvents>) => {
-      log.info(`Client connected: ${socket.id}`);
+    (socket: AppSocket) => {
+      log.info(`Client connected: ${socket.id} (user ${socket.data.userId})`);
 
       const connectionTime = Date.now();
       const clientIp = socket.handshake.address;
@@ -301,7 +512,9 @@ app.prepare().then(async () => {
 
       log.debug(`Connection details - IP: ${clientIp}, UA: ${userAgent}`);
 
-      socket.on('audio-chunk', async (data: AudioChunkData) => {
+      socket.join(userRoom(socket.data.userId));
+
+      socket.on('audio-chunk', (data: AudioChunkData) => inRecordingOrder(data, async () => {
         try {
           log.debug(
             `Received audio chunk for recording: ${data.recordingId}, size: ${data.chunk.byteLength}, isFinal: ${data.isFinal}`
@@ -311,24 +524,36 @@ app.prepare().then(async () => {
             throw new Error('Invalid audio chunk data');
           }
 
-          // Convert ArrayBuffer to Blob
-          const blob = new Blob([data.chunk], { type: 'audio/webm' });
+          if (!(await authorizeRecording(socket, data.recordingId, 'EDITOR'))) return;
 
           // Initialize recording tracking if needed
           if (!activeRecordings.has(data.recordingId)) {
+            const mimeType = data.mimeType || 'audio/webm';
             activeRecordings.set(data.recordingId, {
               socketId: socket.id,
+              userId: socket.data.userId,
               startTime: Date.now(),
-              chunks: [],
+              upload: getAudioStorage().createUpload(
+                audioKeyFor(data.recordingId, mimeType),
+                mimeType.split(';')[0]
+              ),
+              transcriber: createLiveTranscriber(io, data.recordingId, socket.data.userId, mimeType),
+              chunkCount: 0,
+              mimeType,
               isPaused: false
             });
             log.info(`Started tracking recording: ${data.recordingId}`);
           }
 
           const recording = activeRecordings.get(data.recordingId)!;
-          recording.chunks.push(blob);
+          recording.chunkCount++;
+          const chunk = Buffer.from(data.chunk);
+          recording.transcriber.push(chunk);
+          await recording.upload.append(chunk);
 
-          log.debug(`Total chunks for ${data.recordingId}: ${recording.chunks.length}`);
+          log.debug(
+            `Total chunks for ${data.recordingId}: ${recording.chunkCount} (${recording.upload.bytesWritten} bytes)`
+          );
 
           socket.emit('audio-chunk-received', {
             recordingId: data.recordingId,
@@ -338,9 +563,9 @@ app.prepare().then(async () => {
           // Process if final chunk
           if (data.isFinal) {
             log.info(
-              `Final chunk received for recording: ${data.recordingId}, processing with Gemini...`
+              `Final chunk received for recording: ${data.recordingId}, processing...`
             );
-            socket.emit('recording-status', {
+            recordingAudience(io, data.recordingId).emit('recording-status', {
               recordingId: data.recordingId,
               status: 'PROCESSING'
             });
@@ -356,12 +581,14 @@ app.prepare().then(async () => {
               error instanceof Error ? error.message : 'Unknown error'
           });
         }
-      });
+      }));
 
-      socket.on('complete-recording', async (data: RecordingData) => {
+      socket.on('complete-recording', (data: RecordingData) => inRecordingOrder(data, async () => {
         try {
           log.info(`Complete recording signal: ${data.recordingId}`);
 
+          if (!(await authorizeRecording(socket, data.recordingId, 'EDITOR'))) return;
+
           const recording = activeRecordings.get(data.recordingId);
 
           if (!recording) {
@@ -373,26 +600,35 @@ app.prepare().then(async () => {
             return;
           }
 
-          if (recording.chunks.length === 0) {
+          if (recording.upload.bytesWritten === 0) {
             log.warn(`No chunks received for recording ${data.recordingId}`);
             socket.emit('recording-error', {
               recordingId: data.recordingId,
               error: 'No audio data received for processing'
             });
+            await recording.upload.abort();
             activeRecordings.delete(data.recordingId);
             return;
           }
 
-          log.info(`Processing ${recording.chunks.length} chunks for recording ${data.recordingId}`);
+          log.info(`Processing ${recording.chunkCount} chunks for recording ${data.recordingId}`);
+
+          // Finalize the audio file and record where it lives
+          const stored = await recording.upload.finalize();
+          await prisma.recording.update({
+            where: { id: data.recordingId },
+            data: { audioUrl: stored.url, status: 'PROCESSING' }
+          });
+          log.info(`Stored audio for ${data.recordingId} at ${stored.url} (${stored.size} bytes)`);
 
           // Update status
-          socket.emit('recording-status', {
+          recordingAudience(io, data.recordingId).emit('recording-status', {
             recordingId: data.recordingId,
             status: 'PROCESSING'
           });
 
-          // Process with Gemini (don't await - let it run in background)
-          processRecordingWithGemini(data.recordingId, io);
+          // Finish in the background (don't await)
+          finishRecording(data.recordingId, io);
 
         } catch (error) {
           log.error(
@@ -407,12 +643,14 @@ app.prepare().then(async () => {
                 : 'Failed to complete recording'
           });
         }
-      });
+      }));
 
-      socket.on('pause-recording', async (data: RecordingData) => {
+      socket.on('pause-recording', (data: RecordingData) => inRecordingOrder(data, async () => {
         try {
           log.info(`Pausing recording: ${data.recordingId}`);
 
+          if (!(await authorizeRecording(socket, data.recordingId, 'EDITOR'))) return;
+
           const recording = activeRecordings.get(data.recordingId);
           if (recording) recording.isPaused = true;
 
@@ -422,7 +660,7 @@ app.prepare().then(async () => {
             data: { status: 'PAUSED' }
           });
 
-          socket.emit('recording-status', {
+          recordingAudience(io, data.recordingId).emit('recording-status', {
             recordingId: data.recordingId,
             status: 'PAUSED'
           });
@@ -432,12 +670,14 @@ app.prepare().then(async () => {
             error
           );
         }
-      });
+      }));
 
-      socket.on('resume-recording', async (data: RecordingData) => {
+      socket.on('resume-recording', (data: RecordingData) => inRecordingOrder(data, async () => {
         try {
           log.info(`Resuming recording: ${data.recordingId}`);
 
+          if (!(await authorizeRecording(socket, data.recordingId, 'EDITOR'))) return;
+
           const recording = activeRecordings.get(data.recordingId);
           if (recording) recording.isPaused = false;
 
@@ -447,7 +687,7 @@ app.prepare().then(async () => {
             data: { status: 'RECORDING' }
           });
 
-          socket.emit('recording-status', {
+          recordingAudience(io, data.recordingId).emit('recording-status', {
             recordingId: data.recordingId,
             status: 'RECORDING'
           });
@@ -457,6 +697,32 @@ app.prepare().then(async () => {
             error
           );
         }
+      }));
+
+      socket.on('subscribe-recording', async (data: RecordingData) => {
+        if (!hasRecordingId(data)) return;
+
+        try {
+          // Access check also joins the recording room
+          if (!(await authorizeRecording(socket, data.recordingId, 'VIEWER'))) return;
+          log.debug(`Socket ${socket.id} subscribed to recording ${data.recordingId}`);
+        } catch (error) {
+          log.error(
+            `Error subscribing to recording ${data.recordingId}:`,
+            error
+          );
+        }
+      });
+
+      socket.on('unsubscribe-recording', async (data: RecordingData) => {
+        if (!hasRecordingId(data)) return;
+
+        // Keep the room while this socket is still streaming audio for the recording
+        if (activeRecordings.get(data.recordingId)?.socketId === socket.id) return;
+
+        await socket.leave(recordingRoom(data.recordingId));
+        socket.data.recordingRoles.delete(data.recordingId);
+        log.debug(`Socket ${socket.id} unsubscribed from recording ${data.recordingId}`);
       });
 
       socket.on('disconnect', (reason) => {
@@ -470,6 +736,9 @@ app.prepare().then(async () => {
             log.warn(
               `Cleaning up abandoned recording: ${recordingId}`
             );
+            recording.upload.abort().catch((error) =>
+              log.error(`Failed to discard audio for ${recordingId}:`, error)
+            );
             activeRecordings.delete(recordingId);
           }
         }
@@ -496,11 +765,30 @@ app.prepare().then(async () => {
     for (const [recordingId, recording] of activeRecordings.entries()) {
       if (recording.startTime < oneHourAgo) {
         log.warn(`Cleaning up stale recording: ${recordingId}`);
+        recording.upload.abort().catch((error) =>
+          log.error(`Failed to discard audio for ${recordingId}:`, error)
+        );
         activeRecordings.delete(recordingId);
       }
     }
   }, 60000);
 
+  // Sockets that only watch a recording never ask for it again; re-check their
+  // cached roles so membership changes take effect without a reconnect
+  setInterval(async () => {
+    const staleBefore = Date.now() - ROLE_CACHE_TTL_MS;
+    for (const socket of io.of('/').sockets.values()) {
+      for (const [recordingId, cached] of socket.data.recordingRoles) {
+        if (cached.checkedAt >= staleBefore) continue;
+        try {
+          await refreshRecordingRole(socket, recordingId);
+        } catch (error) {
+          log.error(`Failed to re-check socket ${socket.id} on recording ${recordingId}:`, error);
+        }
+      }
+    }
+  }, ROLE_CACHE_TTL_MS);
+
   httpServer
     .once('error', (err: NodeJS.ErrnoException) => {
       if (err.code === 'EADDRINUSE') {
@@ -515,21 +803,39 @@ app.prepare().then(async () => {
       log.info(`Socket.IO running on /api/socket/io`);
       log.info(`Environment: ${dev ? 'Development' : 'Production'}`);
       
-      // Check Gemini API configuration
-      if (!process.env.GEMINI_API_KEY) {
-        log.error(' GEMINI_API_KEY not set! Transcription will fail.');
+      // Check provider configuration
+      const transcription = process.env.TRANSCRIPTION_PROVIDER || 'gemini';
+      const summarization = process.env.SUMMARIZATION_PROVIDER || 'gemini';
+      log.info(`Providers: transcription=${transcription}, summarization=${summarization}`);
+
+      if ((transcription === 'gemini' || summarization === 'gemini') && !process.env.GEMINI_API_KEY) {
+        log.error(' GEMINI_API_KEY not set! Gemini requests will fail.');
         log.error('Please add GEMINI_API_KEY to your .env file');
-      } else {
+      } else if (process.env.GEMINI_API_KEY) {
         log.info(' Gemini API key detected');
       }
     });
 
-  process.on('SIGTERM', () => gracefulShutdown(httpServer, io));
-  process.on('SIGINT', () => gracefulShutdown(httpServer, io));
+  // Post-processing jobs, run here or in a separate worker process
+  let worker: JobWorker | null = null;
+  const relayJobEvent = (event: JobEvent) => {
+    emitJobEvent(io, event).catch((error) => log.error('Failed to relay job event:', error));
+  };
+
+  if (runJobWorker) {
+    worker = new JobWorker({ onEvent: relayJobEvent });
+    worker.start();
+  } else {
+    startJobEventRelay(relayJobEvent);
+    log.info('Job worker disabled (RUN_JOB_WORKER=false); relaying progress from the Job table');
+  }
+
+  process.on('SIGTERM', () => gracefulShutdown(httpServer, io, worker));
+  process.on('SIGINT', () => gracefulShutdown(httpServer, io, worker));
 
   process.on('uncaughtException', (error) => {
     log.error('Uncaught exception:', error);
-    gracefulShutdown(httpServer, io);
+    gracefulShutdown(httpServer, io, worker);
   });
 
   process.on('unhandledRejection', (reason, promise) => {
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { ACTION_ITEM_SELECT, parseActionItemUpdate } from '../../../../lib/action-items';
+import { authorizeRecording } from '../../../../lib/access';
+import { headers } from 'next/headers';
+
+const findActionItem = (id: string) =>
+  prisma.actionItem.findUnique({
+    where: { id },
+    select: { recordingId: true }
+  });
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { itemId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseActionItemUpdate(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findActionItem(itemId);
+    const access = existing
+      ? await authorizeRecording(session.user.id, existing.recordingId, 'EDITOR')
+      : null;
+
+    if (!access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { status, speakerId, ...fields } = parsed.data;
+
+    if (speakerId) {
+      const speaker = await prisma.speaker.findUnique({
+        where: { id: speakerId },
+        select: { recordingId: true }
+      });
+
+      if (speaker?.recordingId !== access.recording.id) {
+        return NextResponse.json(
+          { error: 'Speaker not found in this recording' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const actionItem = await prisma.actionItem.update({
+      where: { id: itemId },
+      data: {
+        ...fields,
+        ...(status && { status, completedAt: status === 'DONE' ? new Date() : null }),
+        // A speaker chosen by hand replaces the extracted owner
+        ...(speakerId !== undefined && { speakerId, owner: null }),
+        ...((Object.keys(fields).length > 0 || speakerId !== undefined) && { edited: true })
+      },
+      select: ACTION_ITEM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      actionItem
+    });
+  } catch (error) {
+    console.error('Update action item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update action item' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { itemId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await findActionItem(itemId);
+    const access = existing
+      ? await authorizeRecording(session.user.id, existing.recordingId, 'EDITOR')
+      : null;
+
+    if (!access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await prisma.actionItem.delete({
+      where: { id: itemId }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete action item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete action item' },
+      { status: 500 }
+    );
+  }
+}
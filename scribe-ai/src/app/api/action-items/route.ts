@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../lib/prisma';
+import { auth } from '../../../lib/auth';
+import { ACTION_ITEM_SELECT, ACTION_ITEM_STATUSES } from '../../../lib/action-items';
+import { authorizeActiveWorkspace } from '../../../lib/access';
+import { headers } from 'next/headers';
+import type { ActionItemStatus } from '../../../generated/prisma/client';
+
+// Action items across the active workspace's recordings, soonest due first
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const status = searchParams.get('status') || 'OPEN';
+
+    if (status !== 'ALL' && !ACTION_ITEM_STATUSES.includes(status as ActionItemStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${[...ACTION_ITEM_STATUSES, 'ALL'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const actionItems = await prisma.actionItem.findMany({
+      where: {
+        recording: { workspaceId: access.workspaceId },
+        ...(status !== 'ALL' && { status: status as ActionItemStatus })
+      },
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+      take: limit,
+      select: {
+        ...ACTION_ITEM_SELECT,
+        recording: { select: { id: true, title: true, createdAt: true } }
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      actionItems
+    });
+  } catch (error) {
+    console.error('Fetch action items error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch action items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { checkFolderParent, deleteFolder, FOLDER_SELECT, parseFolderInput } from '../../../../lib/folders';
+import { authorizeWorkspace } from '../../../../lib/access';
+import { headers } from 'next/headers';
+
+// Rename a folder or move it under another one (parentId null for top-level)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const { folderId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseFolderInput(await req.json(), true);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.folder.findUnique({
+      where: { id: folderId },
+      select: { workspaceId: true }
+    });
+    const access = existing && await authorizeWorkspace(session.user.id, existing.workspaceId, 'EDITOR');
+
+    if (!existing || !access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (parsed.data.parentId) {
+      const problem = await checkFolderParent(existing.workspaceId, folderId, parsed.data.parentId);
+
+      if (problem) {
+        return NextResponse.json(
+          { error: problem },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { _count, ...folder } = await prisma.folder.update({
+      where: { id: folderId },
+      data: parsed.data,
+      select: { ...FOLDER_SELECT, _count: { select: { recordings: true } } }
+    });
+
+    return NextResponse.json({
+      success: true,
+      folder: { ...folder, recordingCount: _count.recordings }
+    });
+  } catch (error) {
+    console.error('Update folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update folder' },
+      { status: 500 }
+    );
+  }
+}
+
+// Its recordings and subfolders move up into its parent
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const { folderId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await prisma.folder.findUnique({
+      where: { id: folderId },
+      select: { workspaceId: true }
+    });
+    const access = existing && await authorizeWorkspace(session.user.id, existing.workspaceId, 'EDITOR');
+
+    if (!existing || !access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await deleteFolder(folderId);
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../lib/prisma';
+import { auth } from '../../../lib/auth';
+import { checkFolderParent, FOLDER_SELECT, parseFolderInput } from '../../../lib/folders';
+import { authorizeActiveWorkspace } from '../../../lib/access';
+import { headers } from 'next/headers';
+
+// Every folder of the active workspace as a flat list; nest them by parentId
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const [rows, unfiledCount] = await Promise.all([
+      prisma.folder.findMany({
+        where: { workspaceId: access.workspaceId },
+        orderBy: { name: 'asc' },
+        select: { ...FOLDER_SELECT, _count: { select: { recordings: true } } }
+      }),
+      prisma.recording.count({
+        where: { workspaceId: access.workspaceId, folderId: null }
+      })
+    ]);
+
+    const folders = rows.map(({ _count, ...folder }) => ({ ...folder, recordingCount: _count.recordings }));
+
+    return NextResponse.json({
+      success: true,
+      folders,
+      unfiledCount
+    });
+  } catch (error) {
+    console.error('Fetch folders error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseFolderInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { name, parentId } = parsed.data;
+
+    if (parentId) {
+      const problem = await checkFolderParent(access.workspaceId, null, parentId);
+
+      if (problem) {
+        return NextResponse.json(
+          { error: problem },
+          { status: 400 }
+        );
+      }
+    }
+
+    const folder = await prisma.folder.create({
+      data: {
+        workspaceId: access.workspaceId,
+        name: name!,
+        parentId: parentId ?? null
+      },
+      select: FOLDER_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      folder: { ...folder, recordingCount: 0 }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    );
+  }
+}
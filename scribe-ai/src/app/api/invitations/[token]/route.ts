@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { acceptInvitation } from '../../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+// What the invitation is for, shown before accepting it
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const invitation = await prisma.workspaceInvitation.findUnique({
+      where: { token },
+      select: {
+        email: true,
+        role: true,
+        expiresAt: true,
+        workspace: { select: { id: true, name: true } },
+        invitedBy: { select: { name: true, email: true } }
+      }
+    });
+
+    if (!invitation || invitation.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invitation
+    });
+  } catch (error) {
+    console.error('Fetch invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Accept the invitation as the signed-in user
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const accepted = await acceptInvitation(token, session.user);
+
+    if ('error' in accepted) {
+      return NextResponse.json(
+        { error: accepted.error },
+        { status: accepted.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspaceId: accepted.data.workspaceId
+    });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Decline an invitation sent to the signed-in user's address
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { count } = await prisma.workspaceInvitation.deleteMany({
+      where: { token, email: session.user.email.toLowerCase() }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Decline invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to decline invitation' },
+      { status: 500 }
+    );
+  }
+}
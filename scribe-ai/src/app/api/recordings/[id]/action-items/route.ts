@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { ACTION_ITEM_SELECT } from '../../../../../lib/action-items';
+import { headers } from 'next/headers';
+
+// In the order they came up in the meeting
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const actionItems = await prisma.actionItem.findMany({
+      where: { recordingId: id },
+      orderBy: [{ startMs: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      select: ACTION_ITEM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      actionItems
+    });
+  } catch (error) {
+    console.error('Fetch action items error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch action items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { getRequestSession } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { audioFileResponse } from '../../../../../lib/audio-response';
+
+// Shared by GET and HEAD: resolves the caller and checks their access before
+// serving the full file or the requested byte range
+async function serveAudio(req: NextRequest, id: string, includeBody: boolean) {
+  // Cookie for the in-app player, bearer token for external tools
+  const session = await getRequestSession(req);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+  if ('error' in access) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
+  const recording = await prisma.recording.findUniqueOrThrow({
+    where: { id },
+    select: { audioUrl: true }
+  });
+
+  if (!recording.audioUrl) {
+    return NextResponse.json(
+      { error: 'No audio stored for this recording' },
+      { status: 404 }
+    );
+  }
+
+  return audioFileResponse(req, recording.audioUrl, includeBody);
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    return await serveAudio(req, id, true);
+  } catch (error) {
+    console.error('Stream audio error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream audio' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    return await serveAudio(req, id, false);
+  } catch (error) {
+    console.error('Audio metadata error:', error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
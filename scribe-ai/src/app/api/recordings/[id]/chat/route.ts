@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTextStreamResponse } from 'ai';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { askRecording, CHAT_MESSAGE_SELECT, parseChatInput } from '../../../../../lib/chat';
+import { CHAT_PROVIDERS, ProviderError } from '../../../../../lib/providers';
+import { headers } from 'next/headers';
+
+// The caller's chat history, oldest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const messages = await prisma.chatMessage.findMany({
+      where: { recordingId: id, userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+      select: CHAT_MESSAGE_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      messages
+    });
+  } catch (error) {
+    console.error('Fetch chat error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask a question; the answer is streamed back as plain text
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseChatInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    if (body.provider !== undefined && !(CHAT_PROVIDERS as readonly string[]).includes(body.provider)) {
+      return NextResponse.json(
+        { error: `Unknown chat provider: ${body.provider}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { transcript: true }
+    });
+
+    if (!recording.transcript?.trim()) {
+      return NextResponse.json(
+        { error: 'There is no transcript to ask about' },
+        { status: 422 }
+      );
+    }
+
+    const textStream = await askRecording(id, session.user.id, parsed.data.message, body.provider);
+
+    return createTextStreamResponse({ textStream });
+  } catch (error) {
+    console.error('Recording chat error:', error);
+
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to answer question' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear the caller's chat history; other members keep theirs
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await prisma.chatMessage.deleteMany({ where: { recordingId: id, userId: session.user.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Clear chat error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear chat' },
+      { status: 500 }
+    );
+  }
+}
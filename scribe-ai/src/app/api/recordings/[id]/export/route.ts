@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { getSpeakerNames } from '../../../../../lib/speakers';
+import { formatSrt, formatTranscript } from '../../../../../lib/transcript';
+import { headers } from 'next/headers';
+
+const FORMATS = {
+  txt: 'text/plain; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8'
+} as const;
+
+type ExportFormat = keyof typeof FORMATS;
+
+// Download the transcript with speakers under their current names
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = (req.nextUrl.searchParams.get('format') || 'txt') as ExportFormat;
+
+    if (!(format in FORMATS)) {
+      return NextResponse.json(
+        { error: `Unsupported format. Use one of: ${Object.keys(FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { title: true, transcript: true }
+    });
+
+    const [segments, names] = await Promise.all([
+      prisma.transcriptSegment.findMany({
+        where: { recordingId: id },
+        orderBy: { index: 'asc' },
+        select: { startMs: true, endMs: true, speaker: true, text: true }
+      }),
+      getSpeakerNames(id)
+    ]);
+
+    if (segments.length === 0 && (format === 'srt' || !recording.transcript)) {
+      return NextResponse.json(
+        { error: 'No transcript available to export' },
+        { status: 404 }
+      );
+    }
+
+    const body = format === 'srt'
+      ? formatSrt(segments, names)
+      : segments.length > 0 ? formatTranscript(segments, names) : recording.transcript!;
+
+    const filename = `${recording.title.replace(/[^\w\- ]+/g, '').trim() || 'transcript'}.${format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': FORMATS[format],
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Export transcript error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export transcript' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { enqueueJob, type ProcessingStage, type ReprocessJobPayload } from '../../../../../lib/jobs';
+import { SUMMARIZATION_PROVIDERS, TRANSCRIPTION_PROVIDERS } from '../../../../../lib/providers';
+import { AUTO_LANGUAGE, isLanguageTag } from '../../../../../lib/language';
+import { getTemplate } from '../../../../../lib/summary-templates';
+import { headers } from 'next/headers';
+
+const STAGES: ProcessingStage[] = ['transcribe', 'summarize'];
+
+// Run transcription and/or summarization again, keeping the current transcript
+// and summary as versions
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { stages, provider, language, summaryLanguage, promptTemplateId, overwriteEdits } = await req.json();
+
+    if (
+      !Array.isArray(stages) ||
+      stages.length === 0 ||
+      stages.some((stage) => !STAGES.includes(stage))
+    ) {
+      return NextResponse.json(
+        { error: 'stages must list "transcribe" and/or "summarize"' },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== undefined && typeof provider !== 'string') {
+      return NextResponse.json(
+        { error: 'provider must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (language !== undefined && language !== AUTO_LANGUAGE && !isLanguageTag(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code such as "en" or "auto"' },
+        { status: 400 }
+      );
+    }
+
+    if (summaryLanguage !== undefined && !isLanguageTag(summaryLanguage)) {
+      return NextResponse.json(
+        { error: 'summaryLanguage must be a language code such as "en"' },
+        { status: 400 }
+      );
+    }
+
+    // A provider only applies to the stages it supports
+    const transcriptionProvider = provider && (TRANSCRIPTION_PROVIDERS as readonly string[]).includes(provider)
+      ? provider
+      : undefined;
+    const summarizationProvider = provider && (SUMMARIZATION_PROVIDERS as readonly string[]).includes(provider)
+      ? provider
+      : undefined;
+
+    if (provider && !stages.some((stage: ProcessingStage) =>
+      stage === 'transcribe' ? transcriptionProvider : summarizationProvider
+    )) {
+      return NextResponse.json(
+        { error: `Unknown provider for the requested stages: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    // The workspace's templates or the caller's own
+    if (
+      promptTemplateId !== undefined &&
+      (typeof promptTemplateId !== 'string' ||
+        !await getTemplate(promptTemplateId, { userId: session.user.id, workspaceId: access.recording.workspaceId }))
+    ) {
+      return NextResponse.json(
+        { error: 'Unknown prompt template' },
+        { status: 400 }
+      );
+    }
+
+    if (promptTemplateId !== undefined && !stages.includes('summarize')) {
+      return NextResponse.json(
+        { error: 'promptTemplateId only applies to the summarize stage' },
+        { status: 400 }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: {
+        audioUrl: true,
+        transcript: true
+      }
+    });
+
+    // Search indexing and translations run alongside processing rather than as part of it
+    const activeJob = await prisma.job.findFirst({
+      where: {
+        recordingId: id,
+        status: { in: ['PENDING', 'RUNNING'] },
+        type: { notIn: ['INDEX', 'TRANSLATE'] }
+      },
+      select: { id: true }
+    });
+
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'This recording is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    if (stages.includes('transcribe') && overwriteEdits !== true) {
+      const edited = await prisma.transcriptSegment.count({ where: { recordingId: id, edited: true } });
+
+      if (edited > 0) {
+        return NextResponse.json(
+          {
+            error: 'The transcript has manual corrections. Pass overwriteEdits: true to replace them.',
+            code: 'TRANSCRIPT_EDITED'
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (stages.includes('transcribe') && !recording.audioUrl) {
+      return NextResponse.json(
+        { error: 'No audio stored for this recording' },
+        { status: 422 }
+      );
+    }
+
+    if (!stages.includes('transcribe') && !recording.transcript?.trim()) {
+      return NextResponse.json(
+        { error: 'Transcript is empty - nothing to summarize' },
+        { status: 422 }
+      );
+    }
+
+    // Run in pipeline order whatever order they were given in
+    const payload = {
+      stages: STAGES.filter((stage) => stages.includes(stage)),
+      transcribe: {
+        provider: transcriptionProvider,
+        language,
+        overwriteEdits: overwriteEdits === true
+      },
+      summarize: {
+        provider: summarizationProvider,
+        language: summaryLanguage,
+        templateId: promptTemplateId,
+        requestedBy: session.user.id
+      }
+    } satisfies ReprocessJobPayload;
+
+    await prisma.recording.update({
+      where: { id },
+      data: { status: 'PROCESSING' }
+    });
+    const job = await enqueueJob({
+      type: 'REPROCESS',
+      recordingId: id,
+      payload
+    });
+
+    return NextResponse.json({
+      success: true,
+      job: { id: job.id, type: job.type, status: job.status }
+    });
+  } catch (error) {
+    console.error('Reprocess recording error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reprocess recording' },
+      { status: 500 }
+    );
+  }
+}
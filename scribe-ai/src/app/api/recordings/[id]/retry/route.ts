@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { enqueueJob } from '../../../../../lib/jobs';
+import { getPreferences } from '../../../../../lib/preferences';
+import { headers } from 'next/headers';
+
+// Queue a failed recording for processing again, resuming from the stage that failed
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: {
+        status: true,
+        audioUrl: true,
+        transcript: true,
+        errors: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { stage: true }
+        }
+      }
+    });
+
+    if (recording.status !== 'FAILED') {
+      return NextResponse.json(
+        { error: 'Only failed recordings can be retried' },
+        { status: 409 }
+      );
+    }
+
+    const hasTranscript = !!recording.transcript?.trim();
+    const failedStage = recording.errors[0]?.stage;
+
+    // Keep a good transcript when only the summary failed
+    const type = hasTranscript && (failedStage === 'summarize' || !recording.audioUrl)
+      ? 'SUMMARIZE'
+      : recording.audioUrl
+        ? 'TRANSCRIBE'
+        : null;
+
+    if (!type) {
+      return NextResponse.json(
+        { error: 'Nothing to retry: no audio was saved for this recording' },
+        { status: 422 }
+      );
+    }
+
+    await prisma.recording.update({
+      where: { id },
+      data: { status: 'PROCESSING' }
+    });
+    const { autoSummarize } = await getPreferences(session.user.id);
+    const job = await enqueueJob({
+      type,
+      recordingId: id,
+      ...(type === 'TRANSCRIBE' && { payload: { summarize: autoSummarize } })
+    });
+
+    return NextResponse.json({
+      success: true,
+      job: { id: job.id, type: job.type, status: job.status }
+    });
+  } catch (error) {
+    console.error('Retry recording error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry processing' },
+      { status: 500 }
+    );
+  }
+}
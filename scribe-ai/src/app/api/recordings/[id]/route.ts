@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '../../../../lib/prisma';
 import { auth } from '../../../../lib/auth';
+import { getStorageForUrl } from '../../../../lib/storage';
+import { saveSummaryVersion, saveTranscriptVersion } from '../../../../lib/versions';
+import { RECORDING_TAGS_SELECT } from '../../../../lib/tags';
+import { authorizeRecording, canDeleteRecording } from '../../../../lib/access';
+import { Prisma } from '../../../../generated/prisma/client';
 import { headers } from 'next/headers';
 
 export async function GET(
@@ -21,22 +26,33 @@ export async function GET(
       );
     }
 
-    const recording = await prisma.recording.findUnique({
-      where: {
-        id: id // ✅ Now using the resolved id
-      }
-    });
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
 
-    if (!recording || recording.userId !== session.user.id) {
+    if ('error' in access) {
       return NextResponse.json(
-        { error: 'Recording not found' },
-        { status: 404 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: {
+        id: id // ✅ Now using the resolved id
+      },
+      include: {
+        tags: RECORDING_TAGS_SELECT,
+        errors: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+          select: { id: true, stage: true, provider: true, code: true, message: true, retriable: true, createdAt: true }
+        }
+      }
+    });
+
     return NextResponse.json({
       success: true,
-      recording
+      recording: { ...recording, tags: recording.tags.map(({ tag }) => tag) },
+      role: access.role
     });
   } catch (error) {
     console.error('Fetch recording error:', error);
@@ -67,21 +83,34 @@ export async function PUT(
 
     const data = await req.json();
 
-    // Verify ownership
-    const existingRecording = await prisma.recording.findFirst({
-      where: {
-        id: id, // ✅ Use resolved id
-        userId: session.user.id
-      }
-    });
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
 
-    if (!existingRecording) {
+    if ('error' in access) {
       return NextResponse.json(
-        { error: 'Recording not found' },
-        { status: 404 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
+    const existingRecording = await prisma.recording.findUniqueOrThrow({
+      where: { id: id } // ✅ Use resolved id
+    });
+
+    // The plain transcript is rendered from the segments; replacing it here
+    // would be overwritten by the next segment edit or reprocess
+    if (typeof data.transcript === 'string' && data.transcript !== existingRecording.transcript) {
+      const segmentCount = await prisma.transcriptSegment.count({
+        where: { recordingId: id }
+      });
+
+      if (segmentCount > 0) {
+        return NextResponse.json(
+          { error: `This transcript has timed segments; edit them through PATCH /api/recordings/${id}/segments` },
+          { status: 409 }
+        );
+      }
+    }
+
     // Update recording
     const recording = await prisma.recording.update({
       where: { id: id }, // ✅ Use resolved id
@@ -90,14 +119,26 @@ export async function PUT(
         ...(data.status && { status: data.status }),
         ...(data.duration !== undefined && { duration: data.duration }),
         ...(data.transcript !== undefined && { transcript: data.transcript }),
-        ...(data.summary !== undefined && { summary: data.summary }),
-        ...(data.audioUrl !== undefined && { audioUrl: data.audioUrl })
-      }
+        // Structured data would no longer match an edited summary
+        ...(data.summary !== undefined && { summary: data.summary, summaryData: Prisma.DbNull })
+        // audioUrl is a storage key only the server sets: a client-chosen one
+        // could point at, stream or delete another recording's audio
+      },
+      include: { tags: RECORDING_TAGS_SELECT }
     });
 
+    // Manual edits go into the history like any other rewrite
+    const author = { userId: session.user.id };
+    if (typeof data.transcript === 'string' && data.transcript !== existingRecording.transcript) {
+      await saveTranscriptVersion(id, data.transcript, 'edit', author, null);
+    }
+    if (typeof data.summary === 'string' && data.summary !== existingRecording.summary) {
+      await saveSummaryVersion(id, data.summary, 'edit', author);
+    }
+
     return NextResponse.json({
       success: true,
-      recording
+      recording: { ...recording, tags: recording.tags.map(({ tag }) => tag) }
     });
   } catch (error) {
     console.error('Update recording error:', error);
@@ -126,26 +167,40 @@ export async function DELETE(
       );
     }
 
-    // Verify ownership
-    const existingRecording = await prisma.recording.findFirst({
-      where: {
-        id: id, // ✅ Use resolved id
-        userId: session.user.id
-      }
-    });
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
 
-    if (!existingRecording) {
+    if ('error' in access) {
       return NextResponse.json(
-        { error: 'Recording not found' },
-        { status: 404 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
+    if (!canDeleteRecording(access, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Only admins can delete recordings made by others' },
+        { status: 403 }
+      );
+    }
+
+    const existingRecording = await prisma.recording.findUniqueOrThrow({
+      where: { id: id } // ✅ Use resolved id
+    });
+
     // Delete recording
     await prisma.recording.delete({
       where: { id: id } // ✅ Use resolved id
     });
 
+    // Remove stored audio; a leftover file shouldn't fail the request
+    if (existingRecording.audioUrl) {
+      try {
+        await getStorageForUrl(existingRecording.audioUrl).delete(existingRecording.audioUrl);
+      } catch (storageError) {
+        console.error('Delete recording audio error:', storageError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Recording deleted successfully'
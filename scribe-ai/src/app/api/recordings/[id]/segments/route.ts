@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { ensureSpeakers, renderTranscript } from '../../../../../lib/speakers';
+import { saveTranscriptEdit } from '../../../../../lib/versions';
+import { headers } from 'next/headers';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const segments = await prisma.transcriptSegment.findMany({
+      where: { recordingId: id },
+      orderBy: { index: 'asc' },
+      select: {
+        id: true,
+        index: true,
+        startMs: true,
+        endMs: true,
+        speaker: true,
+        text: true,
+        confidence: true,
+        language: true,
+        edited: true,
+        updatedAt: true
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      segments
+    });
+  } catch (error) {
+    console.error('Fetch segments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcript segments' },
+      { status: 500 }
+    );
+  }
+}
+
+interface SegmentChange {
+  id: string;
+  // The segment's updatedAt as last seen by the client
+  updatedAt: string;
+  text?: string;
+  speaker?: string | null;
+}
+
+// Thrown inside the transaction to roll back every change when one is stale
+class EditConflict extends Error {}
+
+const isSegmentChange = (value: unknown): value is SegmentChange => {
+  const change = value as SegmentChange;
+  return (
+    typeof change?.id === 'string' &&
+    typeof change.updatedAt === 'string' &&
+    !isNaN(Date.parse(change.updatedAt)) &&
+    (change.text === undefined || (typeof change.text === 'string' && change.text.length <= 10000)) &&
+    (change.speaker === undefined || change.speaker === null ||
+      (typeof change.speaker === 'string' && change.speaker.trim().length > 0 && change.speaker.length <= 100))
+  );
+};
+
+// Save corrected segments. Every change carries the updatedAt it was based on;
+// if any segment changed since, nothing is saved and the current rows are
+// returned with a 409 so the editor can reload them.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { segments: changes } = await req.json();
+
+    if (!Array.isArray(changes) || changes.length === 0 || changes.length > 500 || !changes.every(isSegmentChange)) {
+      return NextResponse.json(
+        { error: 'segments must list changes as { id, updatedAt, text?, speaker? }' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (recording.status === 'RECORDING' || recording.status === 'PAUSED' || recording.status === 'PROCESSING') {
+      return NextResponse.json(
+        { error: 'The transcript can be edited once processing has finished' },
+        { status: 409 }
+      );
+    }
+
+    const select = {
+      id: true,
+      index: true,
+      startMs: true,
+      endMs: true,
+      speaker: true,
+      text: true,
+      confidence: true,
+      language: true,
+      edited: true,
+      updatedAt: true
+    } as const;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const change of changes as SegmentChange[]) {
+          const { count } = await tx.transcriptSegment.updateMany({
+            where: { id: change.id, recordingId: id, updatedAt: new Date(change.updatedAt) },
+            data: {
+              ...(change.text !== undefined && { text: change.text.trim() }),
+              ...(change.speaker !== undefined && { speaker: change.speaker?.trim() ?? null }),
+              edited: true
+            }
+          });
+
+          if (count === 0) throw new EditConflict();
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof EditConflict)) throw error;
+
+      const current = await prisma.transcriptSegment.findMany({
+        where: { id: { in: changes.map((change: SegmentChange) => change.id) }, recordingId: id },
+        orderBy: { index: 'asc' },
+        select
+      });
+
+      return NextResponse.json(
+        { error: 'The transcript was changed elsewhere', segments: current },
+        { status: 409 }
+      );
+    }
+
+    // Relabelled segments may introduce a new speaker
+    await ensureSpeakers(id, changes.map((change: SegmentChange) => change.speaker?.trim() ?? null));
+    const transcript = await renderTranscript(id) ?? '';
+
+    await prisma.recording.update({
+      where: { id },
+      data: { transcript }
+    });
+    await saveTranscriptEdit(id, transcript, session.user.id);
+
+    const segments = await prisma.transcriptSegment.findMany({
+      where: { id: { in: changes.map((change: SegmentChange) => change.id) } },
+      orderBy: { index: 'asc' },
+      select
+    });
+
+    return NextResponse.json({
+      success: true,
+      segments,
+      transcript
+    });
+  } catch (error) {
+    console.error('Update segments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update transcript segments' },
+      { status: 500 }
+    );
+  }
+}
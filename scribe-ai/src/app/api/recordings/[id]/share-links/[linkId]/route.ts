@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../lib/access';
+import { headers } from 'next/headers';
+
+// Revoke a link; it stops working immediately
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id, linkId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { count } = await prisma.shareLink.deleteMany({
+      where: { id: linkId, recordingId: id }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Share link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Revoke share link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import {
+  createShareLink,
+  parseShareLinkInput,
+  SHARE_LINK_SELECT,
+  toShareLinkResponse
+} from '../../../../../lib/share-links';
+import { headers } from 'next/headers';
+
+// Public links to the recording, newest first, including expired ones
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const shareLinks = await prisma.shareLink.findMany({
+      where: { recordingId: id },
+      orderBy: { createdAt: 'desc' },
+      select: SHARE_LINK_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      shareLinks: shareLinks.map(toShareLinkResponse)
+    });
+  } catch (error) {
+    console.error('Fetch share links error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a link anyone can open at /share/<token>, showing `scope`
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseShareLinkInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const shareLink = await createShareLink(id, session.user.id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      shareLink: toShareLinkResponse(shareLink)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create share link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
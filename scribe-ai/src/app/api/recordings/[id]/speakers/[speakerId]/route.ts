@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../lib/access';
+import { renderTranscript } from '../../../../../../lib/speakers';
+import { queueSearchIndex } from '../../../../../../lib/search';
+import { headers } from 'next/headers';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rename a speaker (or change its color). The new name is written into the
+// derived transcript and the existing summary; summaries generated later are
+// built from that transcript and pick it up too.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; speakerId: string }> }
+) {
+  try {
+    const { id, speakerId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const speaker = await prisma.speaker.findUnique({
+      where: { id: speakerId },
+      include: { recording: { select: { summary: true } } }
+    });
+
+    if (!speaker || speaker.recordingId !== id) {
+      return NextResponse.json(
+        { error: 'Speaker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const { displayName, color } = body as { displayName?: string | null; color?: string };
+
+    if (displayName !== undefined && displayName !== null && typeof displayName !== 'string') {
+      return NextResponse.json(
+        { error: 'Display name must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Empty name resets the speaker to its label
+    const name = typeof displayName === 'string' ? displayName.trim() || null : displayName;
+
+    if (name && name.length > 50) {
+      return NextResponse.json(
+        { error: 'Display name must be at most 50 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #2563eb' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.speaker.update({
+      where: { id: speakerId },
+      data: {
+        ...(name !== undefined && { displayName: name }),
+        ...(color !== undefined && { color })
+      },
+      select: { id: true, label: true, displayName: true, color: true }
+    });
+
+    const previousName = speaker.displayName ?? speaker.label;
+    const currentName = updated.displayName ?? updated.label;
+
+    if (previousName !== currentName) {
+      const transcript = await renderTranscript(id);
+      const summary = speaker.recording.summary?.replace(
+        new RegExp(`(?<!\\w)${escapeRegExp(previousName)}(?!\\w)`, 'g'),
+        currentName
+      );
+
+      await prisma.recording.update({
+        where: { id },
+        data: {
+          ...(transcript !== null && { transcript }),
+          ...(summary !== undefined && { summary })
+        }
+      });
+      // Indexed passages carry speaker names
+      await queueSearchIndex(id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      speaker: updated
+    });
+  } catch (error) {
+    console.error('Update speaker error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update speaker' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { getTalkTime } from '../../../../../lib/speakers';
+import { headers } from 'next/headers';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const [speakers, talkTime] = await Promise.all([
+      prisma.speaker.findMany({
+        where: { recordingId: id },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, label: true, displayName: true, color: true }
+      }),
+      getTalkTime(id)
+    ]);
+
+    const totalTalkTimeMs = [...talkTime.values()].reduce((sum, stat) => sum + stat.talkTimeMs, 0);
+
+    return NextResponse.json({
+      success: true,
+      speakers: speakers.map((speaker) => {
+        const stats = talkTime.get(speaker.label) ?? { talkTimeMs: 0, segmentCount: 0 };
+        return {
+          ...speaker,
+          ...stats,
+          talkTimeShare: totalTalkTimeMs > 0 ? stats.talkTimeMs / totalTalkTimeMs : 0
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Fetch speakers error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch speakers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { parseTagNames, RECORDING_TAGS_SELECT, setRecordingTags } from '../../../../../lib/tags';
+import { headers } from 'next/headers';
+
+// Replace the recording's tags by name, creating tags that don't exist yet.
+// `suggestedTags` replaces the suggestions, e.g. to dismiss one.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const tags = body.tags !== undefined ? parseTagNames(body.tags) : null;
+    const suggestedTags = body.suggestedTags !== undefined ? parseTagNames(body.suggestedTags, 'suggestedTags') : null;
+
+    if (tags && 'error' in tags) {
+      return NextResponse.json(
+        { error: tags.error },
+        { status: 400 }
+      );
+    }
+
+    if (suggestedTags && 'error' in suggestedTags) {
+      return NextResponse.json(
+        { error: suggestedTags.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (suggestedTags && 'data' in suggestedTags) {
+      await prisma.recording.update({
+        where: { id },
+        data: { suggestedTags: suggestedTags.data }
+      });
+    }
+    if (tags && 'data' in tags) {
+      await setRecordingTags(id, access.recording.workspaceId, tags.data);
+    }
+
+    const updated = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { suggestedTags: true, tags: RECORDING_TAGS_SELECT }
+    });
+
+    return NextResponse.json({
+      success: true,
+      tags: updated.tags.map(({ tag }) => tag),
+      suggestedTags: updated.suggestedTags
+    });
+  } catch (error) {
+    console.error('Update recording tags error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tags' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../lib/access';
+import type { WorkspaceRole } from '../../../../../../generated/prisma/client';
+import { headers } from 'next/headers';
+
+type Params = { params: Promise<{ id: string; language: string }> };
+
+// Shared by GET and DELETE: the translation if the caller has `minimum` access
+// to the recording
+async function findTranslation(id: string, language: string, minimum: WorkspaceRole) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    };
+  }
+
+  const access = await authorizeRecording(session.user.id, id, minimum);
+
+  if ('error' in access) {
+    return {
+      response: NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    };
+  }
+
+  const translation = await prisma.translation.findUnique({
+    where: { recordingId_language: { recordingId: id, language } }
+  });
+
+  if (!translation) {
+    return {
+      response: NextResponse.json(
+        { error: 'Translation not found' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { translation };
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { id, language } = await params;
+    const found = await findTranslation(id, language, 'VIEWER');
+    if (!found.translation) return found.response;
+
+    return NextResponse.json({
+      success: true,
+      translation: found.translation
+    });
+  } catch (error) {
+    console.error('Fetch translation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch translation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const { id, language } = await params;
+    const found = await findTranslation(id, language, 'EDITOR');
+    if (!found.translation) return found.response;
+
+    await prisma.translation.delete({ where: { id: found.translation.id } });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Translation deleted'
+    });
+  } catch (error) {
+    console.error('Delete translation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete translation' },
+      { status: 500 }
+    );
+  }
+}
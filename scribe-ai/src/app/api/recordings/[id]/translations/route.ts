@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../lib/access';
+import { isLanguageTag, providerLanguage } from '../../../../../lib/language';
+import { TRANSLATION_PROVIDERS } from '../../../../../lib/providers';
+import { listTranslations } from '../../../../../lib/translations';
+import { enqueueJob, type TranslateJobPayload } from '../../../../../lib/jobs';
+import { headers } from 'next/headers';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      translations: await listTranslations(id)
+    });
+  } catch (error) {
+    console.error('List translations error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch translations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a translation of the transcript and summary into `language`, replacing
+// an earlier translation into it. Progress is relayed over the recording's socket room.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { language, provider } = await req.json();
+
+    if (!isLanguageTag(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code such as "es" or "hi-IN"' },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== undefined && !(TRANSLATION_PROVIDERS as readonly string[]).includes(provider)) {
+      return NextResponse.json(
+        { error: `Unknown translation provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { status: true, transcript: true, detectedLanguage: true }
+    });
+
+    if (recording.status === 'PROCESSING') {
+      return NextResponse.json(
+        { error: 'Recording is still being processed' },
+        { status: 409 }
+      );
+    }
+
+    if (!recording.transcript?.trim()) {
+      return NextResponse.json(
+        { error: 'There is no transcript to translate' },
+        { status: 422 }
+      );
+    }
+
+    if (recording.detectedLanguage && providerLanguage(language) === recording.detectedLanguage) {
+      return NextResponse.json(
+        { error: 'The recording is already in this language' },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob({
+      type: 'TRANSLATE',
+      recordingId: id,
+      payload: { language, provider } satisfies TranslateJobPayload
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        job: { id: job.id, type: job.type, status: job.status }
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Translate recording error:', error);
+    return NextResponse.json(
+      { error: 'Failed to translate recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../../../lib/prisma';
+import { auth } from '../../../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../../../lib/access';
+import { isVersionKind, restoreVersion } from '../../../../../../../../lib/versions';
+import { headers } from 'next/headers';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; kind: string; versionId: string }> }
+) {
+  try {
+    const { id, kind, versionId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { status: true }
+    });
+
+    // Processing would overwrite the restored text as soon as it finishes
+    if (recording.status === 'PROCESSING') {
+      return NextResponse.json(
+        { error: 'Wait for processing to finish before restoring a version' },
+        { status: 409 }
+      );
+    }
+
+    const text = isVersionKind(kind)
+      ? await restoreVersion(kind, id, versionId, session.user.id)
+      : null;
+
+    if (text === null) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      [kind]: text
+    });
+  } catch (error) {
+    console.error('Restore version error:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore version' },
+      { status: 500 }
+    );
+  }
+}
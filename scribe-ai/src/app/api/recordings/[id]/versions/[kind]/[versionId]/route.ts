@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../../lib/access';
+import { getVersion, isVersionKind } from '../../../../../../../lib/versions';
+import { headers } from 'next/headers';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; kind: string; versionId: string }> }
+) {
+  try {
+    const { id, kind, versionId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const version = isVersionKind(kind) ? await getVersion(kind, id, versionId) : null;
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version
+    });
+  } catch (error) {
+    console.error('Fetch version error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../../lib/prisma';
+import { auth } from '../../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../../lib/access';
+import { diffLines } from '../../../../../../../lib/diff';
+import { getVersion, isVersionKind } from '../../../../../../../lib/versions';
+import { headers } from 'next/headers';
+
+// Line diff between two versions: ?from=<versionId>&to=<versionId|current>
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const { id, kind } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!isVersionKind(kind)) {
+      return NextResponse.json(
+        { error: 'Unknown version type' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') || 'current';
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'from is required' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { transcript: true, summary: true }
+    });
+
+    const current = (kind === 'transcript' ? recording.transcript : recording.summary) ?? '';
+    const resolve = async (versionId: string) =>
+      versionId === 'current'
+        ? current
+        : (await getVersion(kind, id, versionId))?.text ?? null;
+
+    const [before, after] = await Promise.all([resolve(from), resolve(to)]);
+
+    if (before === null || after === null) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      rows: diffLines(before, after)
+    });
+  } catch (error) {
+    console.error('Diff versions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeRecording } from '../../../../../../lib/access';
+import { isVersionKind, listVersions } from '../../../../../../lib/versions';
+import { headers } from 'next/headers';
+
+// History of a recording's transcript or summary, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const { id, kind } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!isVersionKind(kind)) {
+      return NextResponse.json(
+        { error: 'Unknown version type' },
+        { status: 404 }
+      );
+    }
+
+    const access = await authorizeRecording(session.user.id, id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recording = await prisma.recording.findUniqueOrThrow({
+      where: { id },
+      select: { transcript: true, summary: true }
+    });
+
+    const current = kind === 'transcript' ? recording.transcript : recording.summary;
+    const versions = await listVersions(kind, id);
+    // Only the newest matching version is marked, restored copies aside
+    const currentId = versions.find((version) => version.text === current)?.id;
+
+    return NextResponse.json({
+      success: true,
+      versions: versions.map(({ text, ...version }) => ({
+        ...version,
+        preview: text.slice(0, 160),
+        length: text.length,
+        isCurrent: version.id === currentId
+      }))
+    });
+  } catch (error) {
+    console.error('List versions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch versions' },
+      { status: 500 }
+    );
+  }
+}
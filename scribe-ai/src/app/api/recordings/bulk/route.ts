@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../lib/auth';
+import { authorizeActiveWorkspace } from '../../../../lib/access';
+import { applyBulkUpdate, inWorkspace, parseBulkUpdate } from '../../../../lib/recording-bulk';
+import { headers } from 'next/headers';
+
+// Move several recordings of the active workspace to a folder and add or
+// remove tags on them at once
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseBulkUpdate(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (!await inWorkspace(access.workspaceId, parsed.data)) {
+      return NextResponse.json(
+        { error: 'Recording, folder or tag not found' },
+        { status: 404 }
+      );
+    }
+
+    await applyBulkUpdate(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      updated: parsed.data.recordingIds.length
+    });
+  } catch (error) {
+    console.error('Bulk update recordings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update recordings' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '../../../lib/prisma';
 import { auth } from '../../../lib/auth';
 import { headers } from 'next/headers';
-import { RecordingStatus, Prisma } from '../../../generated/prisma/client';
+import { AUTO_LANGUAGE, isLanguageTag } from '../../../lib/language';
+import { getTemplate } from '../../../lib/summary-templates';
+import { findRecordingIds, parseRecordingQuery } from '../../../lib/recording-query';
+import { RECORDING_TAGS_SELECT } from '../../../lib/tags';
+import { authorizeActiveWorkspace } from '../../../lib/access';
 
+// Recordings of the active workspace, filtered, sorted and paginated by cursor; see
+// parseRecordingQuery for the parameters
 export async function GET(req: NextRequest) {
   try {
     const session = await auth.api.getSession({
@@ -17,51 +23,60 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Get query parameters
     const { searchParams } = new URL(req.url);
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const offset = parseInt(searchParams.get('offset') || '0');
-    const status = searchParams.get('status'); 
+    const parsed = parseRecordingQuery(searchParams);
 
-    // Build where clause
-    const where: Prisma.RecordingWhereInput = {
-      userId: session.user.id,
-    };
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
 
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
 
-    if (status && Object.values(RecordingStatus).includes(status as RecordingStatus)) {
-      where.status = status as RecordingStatus;
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
     }
 
-    // Fetch recordings
-    const [recordings, total] = await Promise.all([
-      prisma.recording.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset,
-        select: {
-          id: true,
-          title: true,
-          status: true,
-          duration: true,
-          transcript: true,
-          summary: true,
-          createdAt: true,
-          updatedAt: true
+    const { ids, total, nextCursor } = await findRecordingIds(access.workspaceId, parsed.data);
+
+    const rows = await prisma.recording.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        duration: true,
+        transcript: true,
+        summary: true,
+        folderId: true,
+        createdAt: true,
+        updatedAt: true,
+        // Who recorded it, for workspaces with several members
+        user: { select: { id: true, name: true, email: true } },
+        tags: RECORDING_TAGS_SELECT,
+        errors: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { stage: true, code: true, message: true }
         }
-      }),
-      prisma.recording.count({ where })
-    ]);
+      }
+    });
+    const byId = new Map(rows.map(({ tags, ...row }) => [row.id, { ...row, tags: tags.map(({ tag }) => tag) }]));
+    const recordings = ids.flatMap((id) => byId.get(id) ?? []);
 
     return NextResponse.json({
       success: true,
       recordings,
       pagination: {
         total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
+        limit: parsed.data.limit,
+        nextCursor,
+        hasMore: nextCursor !== null
       }
     });
   } catch (error) {
@@ -86,7 +101,16 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { title } = await req.json();
+    const access = await authorizeActiveWorkspace(session.user.id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { title, language, summaryLanguage, summaryTemplateId } = await req.json();
 
     if (!title) {
       return NextResponse.json(
@@ -95,18 +119,51 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Both are optional: unset means the user's preference and the spoken language
+    if (language != null && language !== AUTO_LANGUAGE && !isLanguageTag(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code such as "en-US" or "auto"' },
+        { status: 400 }
+      );
+    }
+
+    if (summaryLanguage != null && !isLanguageTag(summaryLanguage)) {
+      return NextResponse.json(
+        { error: 'summaryLanguage must be a language code such as "en-US"' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      summaryTemplateId != null &&
+      (typeof summaryTemplateId !== 'string' ||
+        !await getTemplate(summaryTemplateId, { userId: session.user.id, workspaceId: access.workspaceId }))
+    ) {
+      return NextResponse.json(
+        { error: 'Unknown summary template' },
+        { status: 400 }
+      );
+    }
+
     // Create new recording
     const recording = await prisma.recording.create({
       data: {
         title,
         userId: session.user.id,
-        status: 'RECORDING'
+        workspaceId: access.workspaceId,
+        status: 'RECORDING',
+        language: language ?? null,
+        summaryLanguage: summaryLanguage ?? null,
+        summaryTemplateId: summaryTemplateId ?? null
       },
       select: {
         id: true,
         title: true,
         status: true,
         duration: true,
+        language: true,
+        summaryLanguage: true,
+        summaryTemplateId: true,
         createdAt: true,
         updatedAt: true
       }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../lib/auth';
+import { parseChatInput } from '../../../../lib/chat';
+import { askAcrossRecordings } from '../../../../lib/search';
+import { authorizeActiveWorkspace } from '../../../../lib/access';
+import { ProviderError } from '../../../../lib/providers';
+import { headers } from 'next/headers';
+
+// Answer a question from passages across the active workspace's recordings
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseChatInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { answer, citations } = await askAcrossRecordings(access.workspaceId, parsed.data.message);
+
+    return NextResponse.json({
+      success: true,
+      answer,
+      citations
+    });
+  } catch (error) {
+    console.error('Ask across recordings error:', error);
+
+    if (error instanceof ProviderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to answer question' },
+      { status: 500 }
+    );
+  }
+}
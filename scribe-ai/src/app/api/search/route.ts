@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../lib/auth';
+import { searchRecordings } from '../../../lib/search';
+import { authorizeActiveWorkspace } from '../../../lib/access';
+import { headers } from 'next/headers';
+
+// Passages across the active workspace's recordings matching `q` by keyword or meaning
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = searchParams.get('q')?.trim() ?? '';
+    // Anything but a positive whole number gets the default
+    const requested = parseInt(searchParams.get('limit') || '20');
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, 50) : 20;
+
+    if (!query || query.length > 500) {
+      return NextResponse.json(
+        { error: 'q must be 1-500 characters' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const results = await searchRecordings(access.workspaceId, query, limit);
+
+    return NextResponse.json({
+      success: true,
+      results
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search recordings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { audioFileResponse } from '../../../../../lib/audio-response';
+import { findShareLink, includesScope, isShareUnlocked, SHARE_COOKIE } from '../../../../../lib/share-links';
+
+// Shared by GET and HEAD. Plays don't count as views; opening the page does.
+async function serveSharedAudio(req: NextRequest, token: string, includeBody: boolean) {
+  const link = await findShareLink(token);
+
+  if (!link || !includesScope(link.scope, 'AUDIO')) {
+    return NextResponse.json(
+      { error: 'This link is invalid or has expired' },
+      { status: 404 }
+    );
+  }
+
+  if (!isShareUnlocked(link.passwordHash, req.cookies.get(SHARE_COOKIE)?.value)) {
+    return NextResponse.json(
+      { error: 'This link needs a password' },
+      { status: 401 }
+    );
+  }
+
+  const recording = await prisma.recording.findUniqueOrThrow({
+    where: { id: link.recordingId },
+    select: { audioUrl: true }
+  });
+
+  if (!recording.audioUrl) {
+    return NextResponse.json(
+      { error: 'No audio stored for this recording' },
+      { status: 404 }
+    );
+  }
+
+  return audioFileResponse(req, recording.audioUrl, includeBody);
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    return await serveSharedAudio(req, token, true);
+  } catch (error) {
+    console.error('Stream shared audio error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream audio' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function HEAD(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    return await serveSharedAudio(req, token, false);
+  } catch (error) {
+    console.error('Shared audio metadata error:', error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import {
+  findShareLink,
+  getSharedRecording,
+  isShareUnlocked,
+  SHARE_COOKIE,
+  shareUnlockKey,
+  verifySharePassword
+} from '../../../../lib/share-links';
+
+// Public, no session: the link's token is the credential
+
+const notFound = () => NextResponse.json(
+  { error: 'This link is invalid or has expired' },
+  { status: 404 }
+);
+
+// Counts the view and returns what the link shows
+async function sharedResponse(link: NonNullable<Awaited<ReturnType<typeof findShareLink>>>) {
+  const [recording] = await Promise.all([
+    getSharedRecording(link.recordingId, link.scope),
+    prisma.shareLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 } }
+    })
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    scope: link.scope,
+    expiresAt: link.expiresAt,
+    recording
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const link = await findShareLink(token);
+
+    if (!link) return notFound();
+
+    if (!isShareUnlocked(link.passwordHash, req.cookies.get(SHARE_COOKIE)?.value)) {
+      return NextResponse.json(
+        { error: 'This link needs a password', passwordRequired: true },
+        { status: 401 }
+      );
+    }
+
+    return await sharedResponse(link);
+  } catch (error) {
+    console.error('Fetch shared recording error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared recording' },
+      { status: 500 }
+    );
+  }
+}
+
+// Unlock a password-protected link. The cookie set here also lets the
+// player stream the audio.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { password } = await req.json();
+
+    const link = await findShareLink(token);
+
+    if (!link) return notFound();
+
+    if (!link.passwordHash) return await sharedResponse(link);
+
+    if (typeof password !== 'string' || !(await verifySharePassword(link.passwordHash, password))) {
+      return NextResponse.json(
+        { error: 'Incorrect password', passwordRequired: true },
+        { status: 401 }
+      );
+    }
+
+    const response = await sharedResponse(link);
+    response.cookies.set(SHARE_COOKIE, shareUnlockKey(link.passwordHash), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: `/api/share/${token}`,
+      expires: link.expiresAt ?? undefined
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Unlock shared recording error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock shared recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { parseTagInput, TAG_SELECT } from '../../../../lib/tags';
+import { authorizeWorkspace } from '../../../../lib/access';
+import { headers } from 'next/headers';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ tagId: string }> }
+) {
+  try {
+    const { tagId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseTagInput(await req.json(), true);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.tag.findUnique({
+      where: { id: tagId },
+      select: { workspaceId: true }
+    });
+    const access = existing && await authorizeWorkspace(session.user.id, existing.workspaceId, 'EDITOR');
+
+    if (!existing || !access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (parsed.data.name) {
+      const duplicate = await prisma.tag.findFirst({
+        where: {
+          workspaceId: existing.workspaceId,
+          id: { not: tagId },
+          name: { equals: parsed.data.name, mode: 'insensitive' }
+        },
+        select: { id: true }
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'There is already a tag with this name' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { _count, ...tag } = await prisma.tag.update({
+      where: { id: tagId },
+      data: parsed.data,
+      select: { ...TAG_SELECT, _count: { select: { recordings: true } } }
+    });
+
+    return NextResponse.json({
+      success: true,
+      tag: { ...tag, recordingCount: _count.recordings }
+    });
+  } catch (error) {
+    console.error('Update tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tag' },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes the tag from every recording carrying it
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ tagId: string }> }
+) {
+  try {
+    const { tagId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await prisma.tag.findUnique({
+      where: { id: tagId },
+      select: { workspaceId: true }
+    });
+    const access = existing && await authorizeWorkspace(session.user.id, existing.workspaceId, 'EDITOR');
+
+    if (!existing || !access || ('error' in access && access.status === 404)) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await prisma.tag.delete({
+      where: { id: tagId }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../lib/prisma';
+import { auth } from '../../../lib/auth';
+import { parseTagInput, TAG_COLORS, TAG_SELECT } from '../../../lib/tags';
+import { authorizeActiveWorkspace } from '../../../lib/access';
+import { headers } from 'next/headers';
+
+// The active workspace's tags with how many recordings carry each
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const rows = await prisma.tag.findMany({
+      where: { workspaceId: access.workspaceId },
+      orderBy: { name: 'asc' },
+      select: { ...TAG_SELECT, _count: { select: { recordings: true } } }
+    });
+
+    const tags = rows.map(({ _count, ...tag }) => ({ ...tag, recordingCount: _count.recordings }));
+
+    return NextResponse.json({
+      success: true,
+      tags
+    });
+  } catch (error) {
+    console.error('Fetch tags error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseTagInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'EDITOR');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const existing = await prisma.tag.findMany({
+      where: { workspaceId: access.workspaceId },
+      select: { name: true }
+    });
+
+    if (existing.some((tag) => tag.name.toLowerCase() === parsed.data.name!.toLowerCase())) {
+      return NextResponse.json(
+        { error: 'There is already a tag with this name' },
+        { status: 409 }
+      );
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        workspaceId: access.workspaceId,
+        name: parsed.data.name!,
+        color: parsed.data.color ?? TAG_COLORS[existing.length % TAG_COLORS.length]
+      },
+      select: TAG_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      tag: { ...tag, recordingCount: 0 }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import  prisma  from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { deleteSoleWorkspaces, soleOwnedSharedWorkspaces } from '../../../../lib/workspaces';
 import { headers } from 'next/headers';
 
 export async function DELETE(req: NextRequest) {
@@ -16,6 +17,19 @@ export async function DELETE(req: NextRequest) {
       );
     }
 
+    const ownerless = await soleOwnedSharedWorkspaces(session.user.id);
+
+    if (ownerless.length > 0) {
+      return NextResponse.json(
+        { error: `Make another member an owner of ${ownerless.map(({ name }) => `"${name}"`).join(', ')} before deleting your account` },
+        { status: 409 }
+      );
+    }
+
+    // Shared workspaces stay with their other members, along with the
+    // recordings made in them
+    await deleteSoleWorkspaces(session.user.id);
+
     // Delete user (cascade will handle related data)
     await prisma.user.delete({
       where: { id: session.user.id }
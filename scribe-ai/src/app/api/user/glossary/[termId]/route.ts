@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { GLOSSARY_TERM_SELECT, parseGlossaryInput } from '../../../../../lib/glossary';
+import { headers } from 'next/headers';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ termId: string }> }
+) {
+  try {
+    const { termId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseGlossaryInput(await req.json(), true);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({
+      where: { id: termId },
+      select: { userId: true, term: true }
+    });
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Glossary term not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.term && parsed.data.term !== existing.term) {
+      const duplicate = await prisma.glossaryTerm.findUnique({
+        where: { userId_term: { userId: session.user.id, term: parsed.data.term } },
+        select: { id: true }
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'This term is already in your glossary' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const term = await prisma.glossaryTerm.update({
+      where: { id: termId },
+      data: parsed.data,
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      term
+    });
+  } catch (error) {
+    console.error('Update glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update glossary term' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ termId: string }> }
+) {
+  try {
+    const { termId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({
+      where: { id: termId },
+      select: { userId: true }
+    });
+
+    if (!existing || existing.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Glossary term not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.glossaryTerm.delete({
+      where: { id: termId }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete glossary term' },
+      { status: 500 }
+    );
+  }
+}
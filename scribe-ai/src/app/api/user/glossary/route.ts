@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { GLOSSARY_TERM_SELECT, parseGlossaryInput } from '../../../../lib/glossary';
+import { headers } from 'next/headers';
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const terms = await prisma.glossaryTerm.findMany({
+      where: { userId: session.user.id },
+      orderBy: { term: 'asc' },
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      terms
+    });
+  } catch (error) {
+    console.error('Fetch glossary error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseGlossaryInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({
+      where: { userId_term: { userId: session.user.id, term: parsed.data.term! } },
+      select: { id: true }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This term is already in your glossary' },
+        { status: 409 }
+      );
+    }
+
+    const term = await prisma.glossaryTerm.create({
+      data: {
+        userId: session.user.id,
+        term: parsed.data.term!,
+        variants: parsed.data.variants ?? [],
+        phonetic: parsed.data.phonetic ?? null
+      },
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      term
+    });
+  } catch (error) {
+    console.error('Create glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add glossary term' },
+      { status: 500 }
+    );
+  }
+}
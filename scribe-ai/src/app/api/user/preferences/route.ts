@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { getPreferences, parsePreferences } from '../../../../lib/preferences';
+import { headers } from 'next/headers';
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      preferences: await getPreferences(session.user.id)
+    });
+  } catch (error) {
+    console.error('Fetch preferences error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parsePreferences(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    await prisma.userPreferences.upsert({
+      where: { userId: session.user.id },
+      create: { userId: session.user.id, ...parsed.data },
+      update: parsed.data
+    });
+
+    return NextResponse.json({
+      success: true,
+      preferences: await getPreferences(session.user.id)
+    });
+  } catch (error) {
+    console.error('Preferences update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
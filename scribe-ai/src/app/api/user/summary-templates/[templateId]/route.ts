@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeWorkspace, type AccessDenied } from '../../../../../lib/access';
+import { BUILTIN_TEMPLATES, getTemplate, parseTemplateInput } from '../../../../../lib/summary-templates';
+import { Prisma } from '../../../../../generated/prisma/client';
+import { headers } from 'next/headers';
+
+const isBuiltIn = (id: string) => BUILTIN_TEMPLATES.some((template) => template.id === id);
+
+// Personal templates are changed by their owner, shared ones by the workspace's admins
+async function authorizeTemplate(
+  userId: string,
+  templateId: string
+): Promise<{ template: { userId: string | null; workspaceId: string | null; name: string } } | AccessDenied> {
+  const notFound: AccessDenied = { error: 'Summary template not found', status: 404 };
+  const template = await prisma.summaryTemplate.findUnique({
+    where: { id: templateId },
+    select: { userId: true, workspaceId: true, name: true }
+  });
+
+  if (!template) return notFound;
+
+  if (template.workspaceId) {
+    const access = await authorizeWorkspace(userId, template.workspaceId, 'ADMIN');
+    if ('error' in access) return access.status === 404 ? notFound : access;
+  } else if (template.userId !== userId) {
+    return notFound;
+  }
+
+  return { template };
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (isBuiltIn(templateId)) {
+      return NextResponse.json(
+        { error: "Built-in templates can't be changed; create your own instead" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseTemplateInput(await req.json(), true);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeTemplate(session.user.id, templateId);
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const existing = access.template;
+
+    if (parsed.data.name && parsed.data.name !== existing.name) {
+      const duplicate = await prisma.summaryTemplate.findFirst({
+        where: existing.workspaceId
+          ? { workspaceId: existing.workspaceId, name: parsed.data.name }
+          : { userId: session.user.id, name: parsed.data.name },
+        select: { id: true }
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: existing.workspaceId ? 'The workspace already has a template with this name' : 'You already have a template with this name' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { sections, schema, ...fields } = parsed.data;
+
+    await prisma.summaryTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...fields,
+        ...(sections && { sections }),
+        ...(schema !== undefined && { schema: schema === null ? Prisma.DbNull : (schema as Prisma.InputJsonValue) })
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      template: await getTemplate(templateId, { userId: session.user.id, workspaceId: existing.workspaceId })
+    });
+  } catch (error) {
+    console.error('Update summary template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update summary template' },
+      { status: 500 }
+    );
+  }
+}
+
+// Recordings summarized with the template fall back to the default next time
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (isBuiltIn(templateId)) {
+      return NextResponse.json(
+        { error: "Built-in templates can't be deleted" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeTemplate(session.user.id, templateId);
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await prisma.summaryTemplate.delete({
+      where: { id: templateId }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete summary template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete summary template' },
+      { status: 500 }
+    );
+  }
+}
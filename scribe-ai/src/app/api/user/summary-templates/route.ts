@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { authorizeActiveWorkspace } from '../../../../lib/access';
+import { getTemplate, listTemplates, parseTemplateInput } from '../../../../lib/summary-templates';
+import type { Prisma } from '../../../../generated/prisma/client';
+import { headers } from 'next/headers';
+
+// Built-in templates are listed first and flagged `builtIn`, then the active
+// workspace's, flagged `shared`, then the user's own
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      templates: await listTemplates({ userId: session.user.id, workspaceId: access.workspaceId })
+    });
+  } catch (error) {
+    console.error('Fetch summary templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch summary templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// `shared: true` adds it to the active workspace, which takes an admin
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseTemplateInput(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeActiveWorkspace(session.user.id, body.shared === true ? 'ADMIN' : 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const owner = body.shared === true
+      ? { workspaceId: access.workspaceId }
+      : { userId: session.user.id };
+
+    const existing = await prisma.summaryTemplate.findFirst({
+      where: { ...owner, name: parsed.data.name! },
+      select: { id: true }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: body.shared === true ? 'The workspace already has a template with this name' : 'You already have a template with this name' },
+        { status: 409 }
+      );
+    }
+
+    const { id } = await prisma.summaryTemplate.create({
+      data: {
+        ...owner,
+        name: parsed.data.name!,
+        description: parsed.data.description ?? null,
+        prompt: parsed.data.prompt!,
+        sections: parsed.data.sections!,
+        schema: (parsed.data.schema ?? undefined) as Prisma.InputJsonValue | undefined
+      },
+      select: { id: true }
+    });
+
+    return NextResponse.json({
+      success: true,
+      template: await getTemplate(id, { userId: session.user.id, workspaceId: access.workspaceId })
+    });
+  } catch (error) {
+    console.error('Create summary template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create summary template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeWorkspace } from '../../../../../../lib/access';
+import { GLOSSARY_TERM_SELECT, parseGlossaryInput } from '../../../../../../lib/glossary';
+import { headers } from 'next/headers';
+
+type Params = { params: Promise<{ workspaceId: string; termId: string }> };
+
+const findTerm = (workspaceId: string, termId: string) =>
+  prisma.glossaryTerm.findFirst({
+    where: { id: termId, workspaceId },
+    select: { id: true, term: true }
+  });
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { workspaceId, termId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseGlossaryInput(await req.json(), true);
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const existing = await findTerm(workspaceId, termId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Glossary term not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.term && parsed.data.term !== existing.term) {
+      const duplicate = await prisma.glossaryTerm.findUnique({
+        where: { workspaceId_term: { workspaceId, term: parsed.data.term } },
+        select: { id: true }
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "This term is already in the workspace's glossary" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const term = await prisma.glossaryTerm.update({
+      where: { id: existing.id },
+      data: parsed.data,
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      term
+    });
+  } catch (error) {
+    console.error('Update workspace glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update glossary term' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const { workspaceId, termId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const existing = await findTerm(workspaceId, termId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Glossary term not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.glossaryTerm.delete({
+      where: { id: existing.id }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete workspace glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete glossary term' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeWorkspace } from '../../../../../lib/access';
+import { GLOSSARY_TERM_SELECT, parseGlossaryInput } from '../../../../../lib/glossary';
+import { headers } from 'next/headers';
+
+// Terms applied to every recording in the workspace, alongside each creator's own
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const terms = await prisma.glossaryTerm.findMany({
+      where: { workspaceId },
+      orderBy: { term: 'asc' },
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      terms
+    });
+  } catch (error) {
+    console.error('Fetch workspace glossary error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseGlossaryInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({
+      where: { workspaceId_term: { workspaceId, term: parsed.data.term! } },
+      select: { id: true }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "This term is already in the workspace's glossary" },
+        { status: 409 }
+      );
+    }
+
+    const term = await prisma.glossaryTerm.create({
+      data: {
+        workspaceId,
+        term: parsed.data.term!,
+        variants: parsed.data.variants ?? [],
+        phonetic: parsed.data.phonetic ?? null
+      },
+      select: GLOSSARY_TERM_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      term
+    });
+  } catch (error) {
+    console.error('Create workspace glossary term error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add glossary term' },
+      { status: 500 }
+    );
+  }
+}
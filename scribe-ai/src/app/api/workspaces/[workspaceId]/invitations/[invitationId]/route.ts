@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeWorkspace } from '../../../../../../lib/access';
+import { headers } from 'next/headers';
+
+// Revoke an invitation; its link stops working
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; invitationId: string }> }
+) {
+  try {
+    const { workspaceId, invitationId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { count } = await prisma.workspaceInvitation.deleteMany({
+      where: { id: invitationId, workspaceId }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { auth } from '../../../../../lib/auth';
+import { authorizeWorkspace, canManageRole } from '../../../../../lib/access';
+import { createInvitation, parseInvitationInput } from '../../../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+// Invite an email address. Its owner sees the invitation once signed in with
+// that address, or can follow the link at /invite/<token>.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseInvitationInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (!canManageRole(access.role, parsed.data.role)) {
+      return NextResponse.json(
+        { error: 'Only owners can invite owners' },
+        { status: 403 }
+      );
+    }
+
+    const member = await prisma.membership.findFirst({
+      where: { workspaceId, user: { email: { equals: parsed.data.email, mode: 'insensitive' } } },
+      select: { id: true }
+    });
+
+    if (member) {
+      return NextResponse.json(
+        { error: 'This person is already a member' },
+        { status: 409 }
+      );
+    }
+
+    const invitation = await createInvitation(workspaceId, parsed.data.email, parsed.data.role, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      invitation
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../../lib/prisma';
+import { auth } from '../../../../../../lib/auth';
+import { authorizeWorkspace, canManageRole } from '../../../../../../lib/access';
+import { isLastOwner, isWorkspaceRole, MEMBER_SELECT, WORKSPACE_ROLES } from '../../../../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+type Params = { params: Promise<{ workspaceId: string; memberId: string }> };
+
+const findMember = (workspaceId: string, memberId: string) =>
+  prisma.membership.findFirst({
+    where: { id: memberId, workspaceId },
+    select: { id: true, userId: true, role: true }
+  });
+
+// Change a member's role
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { workspaceId, memberId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { role } = await req.json();
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'ADMIN');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const member = await findMember(workspaceId, memberId);
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(access.role, member.role) || !canManageRole(access.role, role)) {
+      return NextResponse.json(
+        { error: 'Only owners can change owners or make new ones' },
+        { status: 403 }
+      );
+    }
+
+    if (role !== 'OWNER' && await isLastOwner(workspaceId, member.id)) {
+      return NextResponse.json(
+        { error: 'A workspace needs at least one owner' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.membership.update({
+      where: { id: member.id },
+      data: { role },
+      select: MEMBER_SELECT
+    });
+
+    return NextResponse.json({
+      success: true,
+      member: updated
+    });
+  } catch (error) {
+    console.error('Update member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a member; anyone may remove themselves to leave the workspace
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const { workspaceId, memberId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const member = await findMember(workspaceId, memberId);
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    if (member.userId !== session.user.id && !canManageRole(access.role, member.role)) {
+      return NextResponse.json(
+        { error: "You can't remove this member" },
+        { status: 403 }
+      );
+    }
+
+    if (await isLastOwner(workspaceId, member.id)) {
+      return NextResponse.json(
+        { error: 'A workspace needs at least one owner' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.membership.delete({
+      where: { id: member.id }
+    });
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { auth } from '../../../../lib/auth';
+import { authorizeWorkspace, hasRole } from '../../../../lib/access';
+import { getStorageForUrl } from '../../../../lib/storage';
+import { INVITATION_SELECT, MEMBER_SELECT, parseWorkspaceInput } from '../../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+// The workspace with its members; admins also get the pending invitations
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const [workspace, members, invitations] = await Promise.all([
+      prisma.workspace.findUniqueOrThrow({
+        where: { id: workspaceId },
+        select: { id: true, name: true, createdAt: true }
+      }),
+      prisma.membership.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: 'asc' },
+        select: MEMBER_SELECT
+      }),
+      hasRole(access.role, 'ADMIN')
+        ? prisma.workspaceInvitation.findMany({
+          where: { workspaceId },
+          orderBy: { createdAt: 'desc' },
+          select: INVITATION_SELECT
+        })
+        : []
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      workspace: { ...workspace, role: access.role },
+      members,
+      invitations
+    });
+  } catch (error) {
+    console.error('Fetch workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseWorkspaceInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'OWNER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: parsed.data,
+      select: { id: true, name: true, createdAt: true }
+    });
+
+    return NextResponse.json({
+      success: true,
+      workspace: { ...workspace, role: access.role }
+    });
+  } catch (error) {
+    console.error('Update workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete the workspace with all of its recordings
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'OWNER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const recordings = await prisma.recording.findMany({
+      where: { workspaceId, audioUrl: { not: null } },
+      select: { audioUrl: true }
+    });
+
+    await prisma.workspace.delete({
+      where: { id: workspaceId }
+    });
+
+    // Remove stored audio; leftover files shouldn't fail the request
+    for (const { audioUrl } of recordings) {
+      try {
+        await getStorageForUrl(audioUrl!).delete(audioUrl!);
+      } catch (storageError) {
+        console.error('Delete workspace audio error:', storageError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Delete workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../lib/auth';
+import { authorizeWorkspace } from '../../../../lib/access';
+import { setActiveWorkspace } from '../../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+// Switch the workspace the recordings list, search and new recordings use
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { workspaceId } = await req.json();
+
+    if (typeof workspaceId !== 'string') {
+      return NextResponse.json(
+        { error: 'workspaceId is required' },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeWorkspace(session.user.id, workspaceId, 'VIEWER');
+
+    if ('error' in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await setActiveWorkspace(session.user.id, workspaceId);
+
+    return NextResponse.json({
+      success: true,
+      workspaceId,
+      role: access.role
+    });
+  } catch (error) {
+    console.error('Switch workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../lib/auth';
+import {
+  createWorkspace,
+  listWorkspaces,
+  parseWorkspaceInput,
+  pendingInvitations,
+  setActiveWorkspace
+} from '../../../lib/workspaces';
+import { headers } from 'next/headers';
+
+// The user's workspaces, and invitations to others waiting for them
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const [workspaces, invitations] = await Promise.all([
+      listWorkspaces(session.user.id),
+      pendingInvitations(session.user)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      workspaces,
+      invitations
+    });
+  } catch (error) {
+    console.error('Fetch workspaces error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a workspace owned by the user and switch to it
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseWorkspaceInput(await req.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await createWorkspace(session.user.id, parsed.data.name);
+    await setActiveWorkspace(session.user.id, workspace.id);
+
+    return NextResponse.json({
+      success: true,
+      workspace: { ...workspace, role: 'OWNER', memberCount: 1, active: true }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
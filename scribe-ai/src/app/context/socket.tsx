@@ -1,6 +1,7 @@
 'use client';
 import React, { createContext, useContext, useEffect, ReactNode } from 'react';
 import { useSocket } from '../hooks/useSocket';
+import { useAuth } from '../hooks/useAuth';
 import type {
   ServerToClientEvents,
   ClientToServerEvents
@@ -41,17 +42,21 @@ export const SocketProvider: React.FC<{ children: ReactNode }> = ({
   children
 }) => {
   const socketData = useSocket();
+  const isAuthenticated = useAuth((s) => s.isAuthenticated);
 
   useEffect(() => {
-    console.log('SocketProvider mounting, initiating connection...');
+    // The server rejects unauthenticated handshakes, so wait for a session
+    if (!isAuthenticated) return;
+
+    console.log('SocketProvider authenticated, initiating connection...');
     socketData.connect();
 
-    // Cleanup on unmount
+    // Cleanup on unmount or sign-out
     return () => {
-      console.log('SocketProvider unmounting, disconnecting...');
+      console.log('SocketProvider disconnecting...');
       socketData.disconnect();
     };
-  }, [socketData.connect, socketData.disconnect]);
+  }, [isAuthenticated, socketData.connect, socketData.disconnect]);
 
   return (
     <SocketContext.Provider value={socketData}>
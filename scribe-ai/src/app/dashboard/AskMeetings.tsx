@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearch, SearchAnswer, SearchResult } from '../hooks/useSearch';
+import { formatTimestamp } from '../../lib/transcript';
+
+const recordingHref = (recordingId: string, startMs: number | null) =>
+  `/recordings/${recordingId}${startMs !== null ? `?t=${startMs}` : ''}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Snippet with the matched query words marked
+const Highlighted = ({ result }: { result: SearchResult }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  result.highlights.forEach(([start, end], i) => {
+    parts.push(result.snippet.slice(last, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(result.snippet.slice(last));
+  return <>{parts}</>;
+};
+
+// "[2]" and "[2, 5]" become links to the cited recordings
+const AnswerText = ({ answer }: { answer: SearchAnswer }) => (
+  <>
+    {answer.answer.split(/(\[\d+(?:\s*,\s*\d+)*\])/g).map((part, i) => {
+      const refs = part.match(/^\[(\d+(?:\s*,\s*\d+)*)\]$/);
+      if (!refs) return <span key={i}>{part}</span>;
+
+      return refs[1].split(',').map((value) => {
+        const citation = answer.citations.find((item) => item.line === Number(value.trim()));
+        if (!citation) return null;
+        return (
+          <Link
+            key={`${i}-${citation.line}`}
+            href={recordingHref(citation.recordingId, citation.startMs)}
+            title={citation.title}
+            className="mx-0.5 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 text-xs hover:underline"
+          >
+            {citation.title}{citation.startMs !== null && ` · ${formatTimestamp(citation.startMs)}`}
+          </Link>
+        );
+      });
+    })}
+  </>
+);
+
+export default function AskMeetings() {
+  const { results, answer, isLoading, error, search, ask, reset } = useSearch();
+  const [query, setQuery] = useState('');
+
+  const handleSubmit = (mode: 'ask' | 'search') => {
+    const text = query.trim();
+    if (!text || isLoading) return;
+    if (mode === 'ask') ask(text);
+    else search(text);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Ask across all my meetings
+        </h2>
+      </div>
+
+      <div className="p-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit('ask');
+          }}
+          className="flex flex-col sm:flex-row gap-2"
+        >
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="e.g. What did we decide about the launch date?"
+            maxLength={500}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!query.trim() || isLoading}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Ask
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSubmit('search')}
+            disabled={!query.trim() || isLoading}
+            className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-gray-300 px-4 py-2 rounded text-sm font-medium transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {answer && !isLoading && (
+          <div className="mt-4 p-4 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+            <AnswerText answer={answer} />
+          </div>
+        )}
+
+        {results && !isLoading && (
+          results.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">No recordings mention that.</p>
+          ) : (
+            <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700">
+              {results.map(result => (
+                <li key={result.chunkId} className="py-3">
+                  <Link
+                    href={recordingHref(result.recordingId, result.startMs)}
+                    className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {result.title}
+                  </Link>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(result.recordedAt)}
+                    {result.startMs !== null && ` · ${formatTimestamp(result.startMs)}`}
+                  </span>
+                  <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                    <Highlighted result={result} />
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        {(answer || results) && !isLoading && (
+          <button
+            onClick={() => {
+              reset();
+              setQuery('');
+            }}
+            className="mt-3 text-sm text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
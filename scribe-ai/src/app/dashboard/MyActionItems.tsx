@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useActionItems } from '../hooks/useActionItems';
+
+const formatDueDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Open action items across all recordings; ticked ones stay crossed out until reload
+export default function MyActionItems() {
+  const { actionItems, isLoading, error, updateActionItem } = useActionItems();
+  const [today] = useState(() => new Date().toISOString().slice(0, 10));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          My Action Items
+        </h2>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+        )}
+
+        {isLoading && actionItems.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : actionItems.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Nothing open. Action items agreed in your meetings show up here once they are summarized.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {actionItems.map(item => {
+              const done = item.status === 'DONE';
+              const overdue = !done && !!item.dueDate && item.dueDate.slice(0, 10) < today;
+
+              return (
+                <li key={item.id} className="py-3 flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={done}
+                    onChange={(e) => updateActionItem(item.id, { status: e.target.checked ? 'DONE' : 'OPEN' })}
+                    aria-label={`Mark "${item.text}" as done`}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={done ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-white'}>
+                      {item.text}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 flex flex-wrap gap-x-3">
+                      {(item.speaker || item.owner) && (
+                        <span>👤 {item.speaker?.displayName ?? item.speaker?.label ?? item.owner}</span>
+                      )}
+                      {item.dueDate && (
+                        <span className={overdue ? 'text-red-600 dark:text-red-400 font-medium' : undefined}>
+                          📅 {overdue ? 'Overdue: ' : 'Due '}{formatDueDate(item.dueDate)}
+                        </span>
+                      )}
+                      {item.recording && (
+                        <Link
+                          href={`/recordings/${item.recording.id}`}
+                          className="text-blue-600 dark:text-blue-400 hover:underline truncate"
+                        >
+                          {item.recording.title}
+                        </Link>
+                      )}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useWorkspaces } from '../hooks/useWorkspaces';
+
+const NEW_WORKSPACE = '__new__';
+
+// Header picker for the active workspace. Everything on the page belongs to
+// the active workspace, so switching reloads it rather than refetching piecemeal.
+export default function WorkspaceSwitcher() {
+  const {
+    workspaces,
+    activeWorkspace,
+    invitations,
+    error,
+    createWorkspace,
+    switchWorkspace
+  } = useWorkspaces();
+
+  const handleChange = async (value: string) => {
+    if (value === NEW_WORKSPACE) {
+      const name = prompt('Workspace name')?.trim();
+      if (name && await createWorkspace(name)) window.location.reload();
+      return;
+    }
+
+    if (await switchWorkspace(value)) window.location.reload();
+  };
+
+  if (!activeWorkspace) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeWorkspace.id}
+        onChange={(e) => handleChange(e.target.value)}
+        title={error || 'Workspace'}
+        className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      >
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}{workspace.memberCount > 1 ? ` (${workspace.memberCount})` : ''}
+          </option>
+        ))}
+        <option value={NEW_WORKSPACE}>New workspace…</option>
+      </select>
+
+      {invitations.map(invitation => (
+        <span
+          key={invitation.id}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+        >
+          Invited to {invitation.workspace?.name}: open the link you were sent to join
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth, useAuthInit, useAuthActions } from '../hooks/useAuth';
 import { useRecordings, Recording } from '../hooks/useRecording';
+import MyActionItems from './MyActionItems';
+import AskMeetings from './AskMeetings';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
 
 interface RecordingsResponse {
   success: boolean;
@@ -12,7 +15,7 @@ interface RecordingsResponse {
   pagination: {
     total: number;
     limit: number;
-    offset: number;
+    nextCursor: string | null;
     hasMore: boolean;
   };
 }
@@ -51,7 +54,7 @@ export default function Dashboard() {
         setIsLoadingRecordings(true);
         setError('');
         try {
-          const response = await fetch('/api/recordings?limit=10&offset=0', {
+          const response = await fetch('/api/recordings?limit=10', {
             method: 'GET',
             credentials: 'include',
             headers: {
@@ -115,6 +118,8 @@ export default function Dashboard() {
         return 'bg-blue-500';
       case 'COMPLETED':
         return 'bg-green-500';
+      case 'FAILED':
+        return 'bg-red-700';
       default:
         return 'bg-gray-500';
     }
@@ -130,6 +135,8 @@ export default function Dashboard() {
         return 'Processing';
       case 'COMPLETED':
         return 'Completed';
+      case 'FAILED':
+        return 'Failed';
       default:
         return 'Unknown';
     }
@@ -203,6 +210,7 @@ export default function Dashboard() {
             </div>
 
             <div className="flex items-center space-x-4">
+              <WorkspaceSwitcher />
               <span className="text-sm text-gray-700 dark:text-gray-300">
                 Welcome, {user?.name}
               </span>
@@ -339,6 +347,10 @@ export default function Dashboard() {
           </Link>
         </div>
 
+        <AskMeetings />
+
+        <MyActionItems />
+
         {/* Recent Recordings Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
@@ -0,0 +1,128 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export type ActionItemStatus = 'OPEN' | 'DONE';
+
+export interface ActionItem {
+  id: string;
+  recordingId: string;
+  text: string;
+  // Owner as extracted, when it isn't one of the recording's speakers
+  owner: string | null;
+  speaker: { id: string; label: string; displayName: string | null; color: string } | null;
+  dueDate: string | null;
+  segmentIndex: number | null;
+  startMs: number | null;
+  status: ActionItemStatus;
+  edited: boolean;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Only in the cross-recording list
+  recording?: { id: string; title: string; createdAt: string };
+}
+
+export interface ActionItemUpdate {
+  status?: ActionItemStatus;
+  text?: string;
+  dueDate?: string | null;
+  speakerId?: string | null;
+}
+
+// Items of one recording, or open items across all recordings without one
+export const useActionItems = (recordingId?: string, autoFetch = true) => {
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActionItems = useCallback(async (): Promise<ActionItem[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const url = recordingId
+        ? `/api/recordings/${recordingId}/action-items`
+        : '/api/action-items?status=OPEN';
+      const response = await fetch(url, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch action items: ${response.status}`);
+
+      const data = await response.json();
+      setActionItems(data.actionItems);
+      return data.actionItems;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch action items';
+      setError(errorMessage);
+      console.error('Fetch action items error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordingId]);
+
+  const updateActionItem = useCallback(async (
+    id: string,
+    updates: ActionItemUpdate
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/action-items/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update action item: ${response.status}`);
+
+      // The cross-recording list keeps its recording details
+      setActionItems(prev => prev.map(item => item.id === id ? { ...item, ...data.actionItem } : item));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update action item';
+      setError(errorMessage);
+      console.error('Update action item error:', err);
+      return false;
+    }
+  }, []);
+
+  const deleteActionItem = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/action-items/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to delete action item: ${response.status}`);
+
+      setActionItems(prev => prev.filter(item => item.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete action item';
+      setError(errorMessage);
+      console.error('Delete action item error:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchActionItems();
+    }
+  }, [autoFetch, fetchActionItems]);
+
+  return {
+    actionItems,
+    isLoading,
+    error,
+    fetchActionItems,
+    updateActionItem,
+    deleteActionItem,
+  };
+};
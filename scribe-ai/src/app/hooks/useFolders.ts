@@ -0,0 +1,143 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export interface Folder {
+  id: string;
+  name: string;
+  // Top-level when null
+  parentId: string | null;
+  // Recordings directly in this folder, not in its subfolders
+  recordingCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Folders in tree order with their depth, for indenting in a select
+export const flattenFolders = (folders: Folder[], parentId: string | null = null, depth = 0): { folder: Folder; depth: number }[] =>
+  folders
+    .filter(folder => folder.parentId === parentId)
+    .flatMap(folder => [{ folder, depth }, ...flattenFolders(folders, folder.id, depth + 1)]);
+
+export const useFolders = (autoFetch = true) => {
+  const [folders, setFolders] = useState<Folder[]>([]);
+  // Recordings in no folder
+  const [unfiledCount, setUnfiledCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFolders = useCallback(async (): Promise<Folder[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/folders', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch folders: ${response.status}`);
+
+      const data = await response.json();
+      setFolders(data.folders);
+      setUnfiledCount(data.unfiledCount);
+      return data.folders;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch folders';
+      setError(errorMessage);
+      console.error('Fetch folders error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createFolder = useCallback(async (name: string, parentId: string | null = null): Promise<Folder | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/folders', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, parentId }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to create folder: ${response.status}`);
+
+      setFolders(prev => [...prev, data.folder].sort((a, b) => a.name.localeCompare(b.name)));
+      return data.folder;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create folder';
+      setError(errorMessage);
+      console.error('Create folder error:', err);
+      return null;
+    }
+  }, []);
+
+  // Rename, or move under another folder (parentId null for top-level)
+  const updateFolder = useCallback(async (
+    id: string,
+    updates: { name?: string; parentId?: string | null }
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/folders/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update folder: ${response.status}`);
+
+      setFolders(prev => prev.map(folder => folder.id === id ? data.folder : folder));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update folder';
+      setError(errorMessage);
+      console.error('Update folder error:', err);
+      return false;
+    }
+  }, []);
+
+  // Its recordings and subfolders move up into its parent
+  const deleteFolder = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/folders/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to delete folder: ${response.status}`);
+
+      await fetchFolders();
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete folder';
+      setError(errorMessage);
+      console.error('Delete folder error:', err);
+      return false;
+    }
+  }, [fetchFolders]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchFolders();
+    }
+  }, [autoFetch, fetchFolders]);
+
+  return {
+    folders,
+    unfiledCount,
+    isLoading,
+    error,
+    fetchFolders,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+  };
+};
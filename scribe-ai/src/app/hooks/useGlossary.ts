@@ -0,0 +1,137 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export interface GlossaryTerm {
+  id: string;
+  term: string;
+  variants: string[];
+  phonetic: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryTermInput {
+  term: string;
+  variants: string[];
+  phonetic: string | null;
+}
+
+// The user's own terms, or with `workspaceId` the ones shared with that workspace
+export const useGlossary = (autoFetch = true, workspaceId: string | null = null) => {
+  const baseUrl = workspaceId ? `/api/workspaces/${workspaceId}/glossary` : '/api/user/glossary';
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTerms = useCallback(async (): Promise<GlossaryTerm[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch glossary: ${response.status}`);
+
+      const data = await response.json();
+      setTerms(data.terms);
+      return data.terms;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch glossary';
+      setError(errorMessage);
+      console.error('Fetch glossary error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  const addTerm = useCallback(async (input: GlossaryTermInput): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to add term: ${response.status}`);
+
+      setTerms(prev => [...prev, data.term].sort((a, b) => a.term.localeCompare(b.term)));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add term';
+      setError(errorMessage);
+      console.error('Add glossary term error:', err);
+      return false;
+    }
+  }, [baseUrl]);
+
+  const updateTerm = useCallback(async (
+    id: string,
+    updates: Partial<GlossaryTermInput>
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update term: ${response.status}`);
+
+      setTerms(prev => prev.map(term => term.id === id ? data.term : term));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update term';
+      setError(errorMessage);
+      console.error('Update glossary term error:', err);
+      return false;
+    }
+  }, [baseUrl]);
+
+  const deleteTerm = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to delete term: ${response.status}`);
+
+      setTerms(prev => prev.filter(term => term.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete term';
+      setError(errorMessage);
+      console.error('Delete glossary term error:', err);
+      return false;
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchTerms();
+    }
+  }, [autoFetch, fetchTerms]);
+
+  return {
+    terms,
+    isLoading,
+    error,
+    fetchTerms,
+    addTerm,
+    updateTerm,
+    deleteTerm,
+  };
+};
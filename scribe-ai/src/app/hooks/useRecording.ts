@@ -1,15 +1,209 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { WorkspaceRole } from './useWorkspaces';
+
+export interface RecordingError {
+  id?: string;
+  stage: string;
+  provider?: string | null;
+  code: string;
+  message: string;
+  retriable?: boolean;
+  createdAt?: string;
+}
+
+export interface RecordingTag {
+  id: string;
+  name: string;
+  color: string;
+}
 
 export interface Recording {
   id: string;
   title: string;
-  status: 'RECORDING' | 'PAUSED' | 'PROCESSING' | 'COMPLETED';
+  status: 'RECORDING' | 'PAUSED' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
   duration: number | null;
   transcript?: string | null;
   summary?: string | null;
   audioUrl?: string | null;
+  // Chosen spoken language ("auto" to detect), detected one and summary language
+  language?: string | null;
+  detectedLanguage?: string | null;
+  summaryLanguage?: string | null;
+  // Template the summary is written with; the general one when unset
+  summaryTemplateId?: string | null;
+  // Unfiled when unset
+  folderId?: string | null;
+  tags?: RecordingTag[];
+  // Generated with the summary, not yet accepted or dismissed
+  suggestedTags?: string[];
+  // Most recent failed processing attempts, newest first
+  errors?: RecordingError[];
+  // Who made it, in a shared workspace; null once their account is deleted
+  user?: { id: string; name: string | null; email: string } | null;
+  // The signed-in user's role in its workspace, on the detail response
+  role?: WorkspaceRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  index: number;
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+  confidence: number | null;
+  language: string | null;
+  edited: boolean;
+  updatedAt: string;
+}
+
+export interface SegmentChange {
+  id: string;
+  updatedAt: string;
+  text?: string;
+  speaker?: string | null;
+}
+
+// 'conflict' carries the server's current copies of the segments sent
+export interface SegmentSaveResult {
+  status: 'saved' | 'conflict' | 'error';
+  segments: TranscriptSegment[];
+  transcript?: string;
+}
+
+export interface Speaker {
+  id: string;
+  label: string;
+  displayName: string | null;
+  color: string;
+  talkTimeMs: number;
+  segmentCount: number;
+  talkTimeShare: number;
+}
+
+export type VersionKind = 'transcript' | 'summary';
+
+export interface RecordingVersion {
+  id: string;
+  reason: string;
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+  author: { id: string; name: string | null; email: string } | null;
+  preview: string;
+  length: number;
+  isCurrent: boolean;
+}
+
+export interface DiffRow {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  right: string | null;
+  leftLine: number | null;
+  rightLine: number | null;
+}
+
+export interface TranslatedSegment {
+  index: number;
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+}
+
+export interface TranslationInfo {
+  id: string;
+  language: string;
+  provider: string;
+  model: string | null;
   createdAt: string;
   updatedAt: string;
+  // The transcript or summary changed after it was translated
+  stale: boolean;
+}
+
+export interface Translation extends Omit<TranslationInfo, 'stale'> {
+  segments: TranslatedSegment[];
+  transcript: string;
+  summary: string | null;
+}
+
+export interface TranslationResult {
+  // Queued translation job; its progress arrives as job-progress events
+  jobId: string | null;
+  error?: string;
+}
+
+export interface ReprocessOptions {
+  stages: ('transcribe' | 'summarize')[];
+  provider?: string;
+  language?: string;
+  summaryLanguage?: string;
+  // Summary template to regenerate with, kept for later summaries
+  promptTemplateId?: string;
+  overwriteEdits?: boolean;
+}
+
+export type RecordingSort = 'newest' | 'oldest' | 'longest' | 'shortest' | 'title' | 'relevance';
+
+// Recordings list filters, kept in the /recordings URL with the same names
+// GET /api/recordings takes
+export interface RecordingFilters {
+  q?: string;
+  status?: Recording['status'];
+  // Dates such as "2026-10-01"; `to` includes that day
+  from?: string;
+  to?: string;
+  // Seconds
+  minDuration?: number;
+  maxDuration?: number;
+  // Tag ids; recordings carrying all of them
+  tag?: string[];
+  // Folder id, or UNFILED_FOLDER
+  folder?: string;
+  sort?: RecordingSort;
+}
+
+// `folder` filter for recordings that aren't in any folder
+export const UNFILED_FOLDER = 'none';
+
+const FILTER_KEYS = ['q', 'status', 'from', 'to', 'minDuration', 'maxDuration', 'tag', 'folder', 'sort'] as const;
+
+export const filtersFromSearchParams = (params: URLSearchParams): RecordingFilters => {
+  const filters: Record<string, string | number | string[]> = {};
+  for (const key of FILTER_KEYS) {
+    // Repeated as ?tag=a&tag=b
+    if (key === 'tag') {
+      const tags = params.getAll(key).filter(Boolean);
+      if (tags.length > 0) filters[key] = tags;
+      continue;
+    }
+    const value = params.get(key);
+    if (!value) continue;
+    filters[key] = key === 'minDuration' || key === 'maxDuration' ? Number(value) : value;
+  }
+  return filters as RecordingFilters;
+};
+
+export const filtersToSearchParams = (filters: RecordingFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (Array.isArray(value)) value.forEach(item => params.append(key, item));
+    else if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return params;
+};
+
+// Changes applied to every recording listed; see POST /api/recordings/bulk
+export interface BulkRecordingUpdate {
+  recordingIds: string[];
+  // null moves them out of any folder
+  folderId?: string | null;
+  addTagIds?: string[];
+  removeTagIds?: string[];
 }
 
 interface RecordingsResponse {
@@ -18,7 +212,8 @@ interface RecordingsResponse {
   pagination: {
     total: number;
     limit: number;
-    offset: number;
+    // Pass as `cursor` for the next page
+    nextCursor: string | null;
     hasMore: boolean;
   };
 }
@@ -30,34 +225,35 @@ interface RecordingResponse {
 
 interface UseRecordingsOptions {
   limit?: number;
-  offset?: number;
-  status?: string;
+  status?: Recording['status'];
   autoFetch?: boolean;
 }
 
 export const useRecordings = (options: UseRecordingsOptions = {}) => {
-  const { limit = 10, offset = 0, status, autoFetch = false } = options;
+  const { limit = 10, status, autoFetch = false } = options;
 
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [pagination, setPagination] = useState({
+  const [pagination, setPagination] = useState<RecordingsResponse['pagination']>({
     total: 0,
     limit: 10,
-    offset: 0,
+    nextCursor: null,
     hasMore: false,
   });
 
-  const fetchRecordings = useCallback(async (): Promise<Recording[]> => {
+  // One page of recordings; pass pagination.nextCursor for the one after
+  const fetchRecordings = useCallback(async (
+    filters: RecordingFilters = {},
+    cursor?: string
+  ): Promise<Recording[]> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        limit: limit.toString(),
-        offset: offset.toString(),
-        ...(status && { status }),
-      });
+      const params = filtersToSearchParams({ status, ...filters });
+      params.set('limit', limit.toString());
+      if (cursor) params.set('cursor', cursor);
 
       const response = await fetch(`/api/recordings?${params}`, {
         method: 'GET',
@@ -65,7 +261,10 @@ export const useRecordings = (options: UseRecordingsOptions = {}) => {
         headers: { 'Content-Type': 'application/json' },
       });
 
-      if (!response.ok) throw new Error(`Failed to fetch recordings: ${response.status}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to fetch recordings: ${response.status}`);
+      }
 
       const data: RecordingsResponse = await response.json();
 
@@ -81,9 +280,12 @@ export const useRecordings = (options: UseRecordingsOptions = {}) => {
     } finally {
       setIsLoading(false);
     }
-  }, [limit, offset, status]);
+  }, [limit, status]);
 
-  const createRecording = useCallback(async (title: string): Promise<Recording | null> => {
+  const createRecording = useCallback(async (
+    title: string,
+    options: { language?: string; summaryLanguage?: string; summaryTemplateId?: string } = {}
+  ): Promise<Recording | null> => {
     setError(null);
 
     try {
@@ -93,7 +295,7 @@ export const useRecordings = (options: UseRecordingsOptions = {}) => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ title }),
+        body: JSON.stringify({ title, ...options }),
       });
 
       if (!response.ok) {
@@ -211,6 +413,354 @@ export const useRecordings = (options: UseRecordingsOptions = {}) => {
     }
   }, []);
 
+  const retryProcessing = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${id}/retry`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to retry processing: ${response.status}`);
+      }
+
+      setRecordings(prev =>
+        prev.map(rec => rec.id === id ? { ...rec, status: 'PROCESSING' } : rec)
+      );
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to retry processing';
+      setError(errorMessage);
+      console.error('Retry processing error:', err);
+      return false;
+    }
+  }, []);
+
+  const reprocessRecording = useCallback(async (
+    id: string,
+    options: ReprocessOptions
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/reprocess`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to reprocess recording: ${response.status}`);
+      }
+
+      setRecordings(prev =>
+        prev.map(rec => rec.id === id ? { ...rec, status: 'PROCESSING' } : rec)
+      );
+      return true;
+    } catch (err) {
+      // Reported inline by the caller rather than replacing the page with an error
+      console.error('Reprocess recording error:', err);
+      return false;
+    }
+  }, []);
+
+  const getSegments = useCallback(async (id: string): Promise<TranscriptSegment[]> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/segments`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch transcript segments: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.segments : [];
+    } catch (err) {
+      // Segments are an enhancement over the plain transcript; don't surface as a page error
+      console.error('Get segments error:', err);
+      return [];
+    }
+  }, []);
+
+  const getSpeakers = useCallback(async (id: string): Promise<Speaker[]> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/speakers`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch speakers: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.speakers : [];
+    } catch (err) {
+      console.error('Get speakers error:', err);
+      return [];
+    }
+  }, []);
+
+  const updateSpeaker = useCallback(async (
+    id: string,
+    speakerId: string,
+    updates: { displayName?: string | null; color?: string }
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/speakers/${speakerId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to update speaker: ${response.status}`);
+      }
+
+      return true;
+    } catch (err) {
+      // Reported inline by the caller rather than replacing the page with an error
+      console.error('Update speaker error:', err);
+      return false;
+    }
+  }, []);
+
+  const updateSegments = useCallback(async (
+    id: string,
+    changes: SegmentChange[]
+  ): Promise<SegmentSaveResult> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/segments`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ segments: changes }),
+      });
+
+      const data = await response.json().catch(() => null);
+
+      if (response.status === 409 && data?.segments) {
+        return { status: 'conflict', segments: data.segments };
+      }
+
+      if (!response.ok) {
+        throw new Error(data?.error || `Failed to save transcript: ${response.status}`);
+      }
+
+      return { status: 'saved', segments: data.segments, transcript: data.transcript };
+    } catch (err) {
+      // Reported inline by the editor rather than replacing the page with an error
+      console.error('Update segments error:', err);
+      return { status: 'error', segments: [] };
+    }
+  }, []);
+
+  const getVersions = useCallback(async (id: string, kind: VersionKind): Promise<RecordingVersion[]> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/versions/${kind}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch versions: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.versions : [];
+    } catch (err) {
+      console.error('Get versions error:', err);
+      return [];
+    }
+  }, []);
+
+  // `to` defaults to the current text
+  const getVersionDiff = useCallback(async (
+    id: string,
+    kind: VersionKind,
+    from: string,
+    to = 'current'
+  ): Promise<DiffRow[] | null> => {
+    try {
+      const query = new URLSearchParams({ from, to });
+      const response = await fetch(`/api/recordings/${id}/versions/${kind}/diff?${query}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to diff versions: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.rows : null;
+    } catch (err) {
+      console.error('Get version diff error:', err);
+      return null;
+    }
+  }, []);
+
+  const restoreVersion = useCallback(async (
+    id: string,
+    kind: VersionKind,
+    versionId: string
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/versions/${kind}/${versionId}/restore`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to restore version: ${response.status}`);
+      }
+
+      return true;
+    } catch (err) {
+      // Reported inline by the caller rather than replacing the page with an error
+      console.error('Restore version error:', err);
+      return false;
+    }
+  }, []);
+
+  const getTranslations = useCallback(async (id: string): Promise<TranslationInfo[]> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/translations`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch translations: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.translations : [];
+    } catch (err) {
+      console.error('Get translations error:', err);
+      return [];
+    }
+  }, []);
+
+  const getTranslation = useCallback(async (id: string, language: string): Promise<Translation | null> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/translations/${encodeURIComponent(language)}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch translation: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.success ? data.translation : null;
+    } catch (err) {
+      console.error('Get translation error:', err);
+      return null;
+    }
+  }, []);
+
+  // Queues the translation: every segment goes through the translation provider
+  const translateRecording = useCallback(async (id: string, language: string): Promise<TranslationResult> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/translations`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ language }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        return { jobId: null, error: data?.error || `Failed to translate: ${response.status}` };
+      }
+
+      return { jobId: data.job.id };
+    } catch (err) {
+      // Reported inline by the caller rather than replacing the page with an error
+      console.error('Translate recording error:', err);
+      return { jobId: null, error: 'Failed to translate' };
+    }
+  }, []);
+
+  const bulkUpdateRecordings = useCallback(async (update: BulkRecordingUpdate): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/recordings/bulk', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to update recordings: ${response.status}`);
+      }
+
+      if (update.folderId !== undefined) {
+        setRecordings(prev => prev.map(rec =>
+          update.recordingIds.includes(rec.id) ? { ...rec, folderId: update.folderId } : rec
+        ));
+      }
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update recordings';
+      setError(errorMessage);
+      console.error('Bulk update recordings error:', err);
+      return false;
+    }
+  }, []);
+
+  // Tags by name, created as needed; `suggestedTags` replaces the suggestions
+  const setRecordingTags = useCallback(async (
+    id: string,
+    changes: { tags?: string[]; suggestedTags?: string[] }
+  ): Promise<Pick<Recording, 'tags' | 'suggestedTags'> | null> => {
+    try {
+      const response = await fetch(`/api/recordings/${id}/tags`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update tags: ${response.status}`);
+
+      setRecordings(prev => prev.map(rec =>
+        rec.id === id ? { ...rec, tags: data.tags, suggestedTags: data.suggestedTags } : rec
+      ));
+      return { tags: data.tags, suggestedTags: data.suggestedTags };
+    } catch (err) {
+      // Reported inline by the caller rather than replacing the page with an error
+      console.error('Update recording tags error:', err);
+      return null;
+    }
+  }, []);
+
   useEffect(() => {
     if (autoFetch) {
       fetchRecordings();
@@ -227,5 +777,19 @@ export const useRecordings = (options: UseRecordingsOptions = {}) => {
     updateRecording,
     deleteRecording,
     getRecording,
+    retryProcessing,
+    reprocessRecording,
+    getSegments,
+    getSpeakers,
+    updateSpeaker,
+    updateSegments,
+    getVersions,
+    getVersionDiff,
+    restoreVersion,
+    getTranslations,
+    getTranslation,
+    translateRecording,
+    bulkUpdateRecordings,
+    setRecordingTags,
   };
 };
\ No newline at end of file
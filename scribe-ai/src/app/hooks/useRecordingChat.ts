@@ -0,0 +1,139 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export interface ChatCitation {
+  line: number;
+  segmentIndex: number | null;
+  startMs: number | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  // Set once an answer has finished streaming
+  citations: ChatCitation[] | null;
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+}
+
+const STREAMING_ID = 'streaming';
+
+export const useRecordingChat = (recordingId: string, autoFetch = true) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMessages = useCallback(async (): Promise<ChatMessage[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/chat`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch chat: ${response.status}`);
+
+      const data = await response.json();
+      setMessages(data.messages);
+      return data.messages;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch chat';
+      setError(errorMessage);
+      console.error('Fetch chat error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordingId]);
+
+  // Ask a question; the answer appears as it streams in, then the saved
+  // history (with citations) replaces it
+  const ask = useCallback(async (message: string): Promise<boolean> => {
+    setIsAnswering(true);
+    setError(null);
+
+    const now = new Date().toISOString();
+    const placeholder = (role: ChatMessage['role'], id: string, content: string): ChatMessage => ({
+      id, role, content, citations: null, provider: null, model: null, createdAt: now
+    });
+    setMessages(prev => [
+      ...prev,
+      placeholder('USER', `${STREAMING_ID}-question`, message),
+      placeholder('ASSISTANT', STREAMING_ID, '')
+    ]);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/chat`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message }),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to answer question: ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let answer = '';
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        answer += chunk.value;
+        const content = answer;
+        setMessages(prev => prev.map(item => item.id === STREAMING_ID ? { ...item, content } : item));
+      }
+
+      await fetchMessages();
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to answer question';
+      setError(errorMessage);
+      console.error('Recording chat error:', err);
+      setMessages(prev => prev.filter(item => !item.id.startsWith(STREAMING_ID)));
+      return false;
+    } finally {
+      setIsAnswering(false);
+    }
+  }, [recordingId, fetchMessages]);
+
+  const clearMessages = useCallback(async (): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/chat`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to clear chat: ${response.status}`);
+
+      setMessages([]);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to clear chat';
+      setError(errorMessage);
+      console.error('Clear chat error:', err);
+      return false;
+    }
+  }, [recordingId]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchMessages();
+    }
+  }, [autoFetch, fetchMessages]);
+
+  return {
+    messages,
+    isLoading,
+    isAnswering,
+    error,
+    fetchMessages,
+    ask,
+    clearMessages,
+  };
+};
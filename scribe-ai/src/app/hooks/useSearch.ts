@@ -0,0 +1,106 @@
+import { useState, useCallback } from 'react';
+
+export interface SearchResult {
+  chunkId: string;
+  recordingId: string;
+  title: string;
+  recordedAt: string;
+  startMs: number | null;
+  endMs: number | null;
+  snippet: string;
+  // [start, end) offsets of query words in the snippet
+  highlights: [number, number][];
+  matchedBy: ('keyword' | 'semantic')[];
+  score: number;
+}
+
+export interface RecordingCitation {
+  line: number;
+  recordingId: string;
+  title: string;
+  startMs: number | null;
+}
+
+export interface SearchAnswer {
+  answer: string;
+  citations: RecordingCitation[];
+}
+
+// Search and questions across all of the user's recordings
+export const useSearch = () => {
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [answer, setAnswer] = useState<SearchAnswer | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = useCallback(async (query: string): Promise<SearchResult[]> => {
+    setIsLoading(true);
+    setError(null);
+    setAnswer(null);
+
+    try {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to search: ${response.status}`);
+
+      setResults(data.results);
+      return data.results;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to search';
+      setError(errorMessage);
+      console.error('Search error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const ask = useCallback(async (question: string): Promise<SearchAnswer | null> => {
+    setIsLoading(true);
+    setError(null);
+    setResults(null);
+
+    try {
+      const response = await fetch('/api/search/ask', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: question }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to answer question: ${response.status}`);
+
+      const result = { answer: data.answer, citations: data.citations };
+      setAnswer(result);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to answer question';
+      setError(errorMessage);
+      console.error('Ask across recordings error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setResults(null);
+    setAnswer(null);
+    setError(null);
+  }, []);
+
+  return {
+    results,
+    answer,
+    isLoading,
+    error,
+    search,
+    ask,
+    reset,
+  };
+};
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect } from 'react';
+
+// Each scope shows everything the ones before it do
+export type ShareScope = 'SUMMARY' | 'TRANSCRIPT' | 'AUDIO';
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  scope: ShareScope;
+  hasPassword: boolean;
+  // Never expires when null
+  expiresAt: string | null;
+  viewCount: number;
+  createdAt: string;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+export interface ShareLinkInput {
+  scope: ShareScope;
+  // Null for a link that doesn't expire
+  expiresInDays: number | null;
+  password?: string;
+}
+
+export const useShareLinks = (recordingId: string, autoFetch = true) => {
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchShareLinks = useCallback(async (): Promise<ShareLink[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/share-links`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch share links: ${response.status}`);
+
+      const data = await response.json();
+      setShareLinks(data.shareLinks);
+      return data.shareLinks;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch share links';
+      setError(errorMessage);
+      console.error('Fetch share links error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordingId]);
+
+  const createShareLink = useCallback(async (input: ShareLinkInput): Promise<ShareLink | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/share-links`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to create share link: ${response.status}`);
+
+      setShareLinks(prev => [data.shareLink, ...prev]);
+      return data.shareLink;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create share link';
+      setError(errorMessage);
+      console.error('Create share link error:', err);
+      return null;
+    }
+  }, [recordingId]);
+
+  const revokeShareLink = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/share-links/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to revoke share link: ${response.status}`);
+
+      setShareLinks(prev => prev.filter(link => link.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to revoke share link';
+      setError(errorMessage);
+      console.error('Revoke share link error:', err);
+      return false;
+    }
+  }, [recordingId]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchShareLinks();
+    }
+  }, [autoFetch, fetchShareLinks]);
+
+  return {
+    shareLinks,
+    isLoading,
+    error,
+    fetchShareLinks,
+    createShareLink,
+    revokeShareLink,
+  };
+};
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { useAuth } from './useAuth';
 import type {
     ServerToClientEvents,
     ClientToServerEvents
@@ -58,7 +59,10 @@ export const useSocket = () => {
             reconnectionDelayMax: 5000,
             reconnectionAttempts: 10,
             timeout: 20000,
-            autoConnect: true // Explicitly enable auto-connect
+            autoConnect: true, // Explicitly enable auto-connect
+            withCredentials: true, // Send the session cookie on the handshake
+            // Read the token on every (re)connect so a refreshed session is picked up
+            auth: (cb) => cb({ token: useAuth.getState().session?.token })
         });
 
         socketRef.current = socket;
@@ -0,0 +1,158 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export interface SummarySection {
+  title: string;
+  description: string;
+}
+
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  prompt: string;
+  sections: SummarySection[];
+  schema: Record<string, unknown> | null;
+  // Built-ins can be used but not changed
+  builtIn: boolean;
+  // Shared with the active workspace; only its admins change these
+  shared?: boolean;
+}
+
+export interface SummaryTemplateInput {
+  name: string;
+  description: string | null;
+  prompt: string;
+  sections: SummarySection[];
+  schema: Record<string, unknown> | null;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const useSummaryTemplates = (autoFetch = true) => {
+  const [templates, setTemplates] = useState<SummaryTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async (): Promise<SummaryTemplate[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/user/summary-templates', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch summary templates: ${response.status}`);
+
+      const data = await response.json();
+      setTemplates(data.templates);
+      return data.templates;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch summary templates';
+      setError(errorMessage);
+      console.error('Fetch summary templates error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // `shared` adds it to the active workspace instead of the user's own
+  const addTemplate = useCallback(async (input: SummaryTemplateInput, shared = false): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/user/summary-templates', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...input, shared }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to add template: ${response.status}`);
+
+      // Keep built-ins first, then shared and own ones each sorted by name, as the API lists them
+      const byName = (a: SummaryTemplate, b: SummaryTemplate) => a.name.localeCompare(b.name);
+      setTemplates(prev => {
+        const all = [...prev, data.template as SummaryTemplate];
+        return [
+          ...all.filter(template => template.builtIn),
+          ...all.filter(template => !template.builtIn && template.shared).sort(byName),
+          ...all.filter(template => !template.builtIn && !template.shared).sort(byName)
+        ];
+      });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add template';
+      setError(errorMessage);
+      console.error('Add summary template error:', err);
+      return false;
+    }
+  }, []);
+
+  const updateTemplate = useCallback(async (
+    id: string,
+    updates: Partial<SummaryTemplateInput>
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/user/summary-templates/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update template: ${response.status}`);
+
+      setTemplates(prev => prev.map(template => template.id === id ? data.template : template));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update template';
+      setError(errorMessage);
+      console.error('Update summary template error:', err);
+      return false;
+    }
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/user/summary-templates/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to delete template: ${response.status}`);
+
+      setTemplates(prev => prev.filter(template => template.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete template';
+      setError(errorMessage);
+      console.error('Delete summary template error:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchTemplates();
+    }
+  }, [autoFetch, fetchTemplates]);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    fetchTemplates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+  };
+};
@@ -0,0 +1,127 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { RecordingTag } from './useRecording';
+
+export interface Tag extends RecordingTag {
+  recordingCount: number;
+}
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name);
+
+export const useTags = (autoFetch = true) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async (): Promise<Tag[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/tags', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch tags: ${response.status}`);
+
+      const data = await response.json();
+      setTags(data.tags);
+      return data.tags;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch tags';
+      setError(errorMessage);
+      console.error('Fetch tags error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createTag = useCallback(async (name: string, color?: string): Promise<Tag | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/tags', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, color }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to create tag: ${response.status}`);
+
+      setTags(prev => [...prev, data.tag].sort(byName));
+      return data.tag;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create tag';
+      setError(errorMessage);
+      console.error('Create tag error:', err);
+      return null;
+    }
+  }, []);
+
+  const updateTag = useCallback(async (
+    id: string,
+    updates: { name?: string; color?: string }
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tags/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update tag: ${response.status}`);
+
+      setTags(prev => prev.map(tag => tag.id === id ? data.tag : tag).sort(byName));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update tag';
+      setError(errorMessage);
+      console.error('Update tag error:', err);
+      return false;
+    }
+  }, []);
+
+  const deleteTag = useCallback(async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tags/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to delete tag: ${response.status}`);
+
+      setTags(prev => prev.filter(tag => tag.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete tag';
+      setError(errorMessage);
+      console.error('Delete tag error:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchTags();
+    }
+  }, [autoFetch, fetchTags]);
+
+  return {
+    tags,
+    isLoading,
+    error,
+    fetchTags,
+    createTag,
+    updateTag,
+    deleteTag,
+  };
+};
@@ -135,6 +135,22 @@ export const useUserSettings = () => {
     [clearMessages]
   );
 
+  const getPreferences = useCallback(
+    async (): Promise<PreferencesData | null> => {
+      try {
+        const data = await handleApiCall<undefined, ApiResponse>(
+          '/api/user/preferences',
+          'GET'
+        );
+        return data?.preferences ?? null;
+      } catch (err) {
+        console.error('Fetch preferences error:', err);
+        return null;
+      }
+    },
+    []
+  );
+
   const updatePreferences = useCallback(
     async (preferencesData: PreferencesData): Promise<boolean> => {
       clearMessages();
@@ -182,6 +198,7 @@ export const useUserSettings = () => {
     clearMessages,
     updateProfile,
     updatePassword,
+    getPreferences,
     updatePreferences,
     deleteAccount,
   };
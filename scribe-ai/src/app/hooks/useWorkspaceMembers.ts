@@ -0,0 +1,213 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { WorkspaceInvitation, WorkspaceRole } from './useWorkspaces';
+
+export interface WorkspaceDetails {
+  id: string;
+  name: string;
+  createdAt: string;
+  // The signed-in user's role
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  role: WorkspaceRole;
+  createdAt: string;
+  user: { id: string; name: string | null; email: string };
+}
+
+// Members and invitations of one workspace. Invitations are only listed for admins.
+export const useWorkspaceMembers = (workspaceId: string | null) => {
+  const [workspace, setWorkspace] = useState<WorkspaceDetails | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkspace = useCallback(async (): Promise<WorkspaceDetails | null> => {
+    if (!workspaceId) return null;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch workspace: ${response.status}`);
+
+      const data = await response.json();
+      setWorkspace(data.workspace);
+      setMembers(data.members);
+      setInvitations(data.invitations);
+      return data.workspace;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch workspace';
+      setError(errorMessage);
+      console.error('Fetch workspace error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  const renameWorkspace = useCallback(async (name: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to rename workspace: ${response.status}`);
+
+      setWorkspace(data.workspace);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to rename workspace';
+      setError(errorMessage);
+      console.error('Rename workspace error:', err);
+      return false;
+    }
+  }, [workspaceId]);
+
+  // Deletes every recording in it too
+  const deleteWorkspace = useCallback(async (): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to delete workspace: ${response.status}`);
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete workspace';
+      setError(errorMessage);
+      console.error('Delete workspace error:', err);
+      return false;
+    }
+  }, [workspaceId]);
+
+  const inviteMember = useCallback(async (email: string, role: WorkspaceRole): Promise<WorkspaceInvitation | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/invitations`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to invite member: ${response.status}`);
+
+      // Inviting the same address again replaces its invitation
+      setInvitations(prev => [data.invitation, ...prev.filter(invitation => invitation.id !== data.invitation.id)]);
+      return data.invitation;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to invite member';
+      setError(errorMessage);
+      console.error('Invite member error:', err);
+      return null;
+    }
+  }, [workspaceId]);
+
+  const revokeInvitation = useCallback(async (invitationId: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/invitations/${invitationId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to revoke invitation: ${response.status}`);
+
+      setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to revoke invitation';
+      setError(errorMessage);
+      console.error('Revoke invitation error:', err);
+      return false;
+    }
+  }, [workspaceId]);
+
+  const updateMemberRole = useCallback(async (memberId: string, role: WorkspaceRole): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${memberId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to update member: ${response.status}`);
+
+      setMembers(prev => prev.map(member => member.id === memberId ? data.member : member));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update member';
+      setError(errorMessage);
+      console.error('Update member error:', err);
+      return false;
+    }
+  }, [workspaceId]);
+
+  // Removing yourself leaves the workspace
+  const removeMember = useCallback(async (memberId: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${memberId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to remove member: ${response.status}`);
+
+      setMembers(prev => prev.filter(member => member.id !== memberId));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove member';
+      setError(errorMessage);
+      console.error('Remove member error:', err);
+      return false;
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchWorkspace();
+  }, [fetchWorkspace]);
+
+  return {
+    workspace,
+    members,
+    invitations,
+    isLoading,
+    error,
+    fetchWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+  };
+};
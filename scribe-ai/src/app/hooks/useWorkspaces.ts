@@ -0,0 +1,179 @@
+import { useState, useCallback, useEffect } from 'react';
+
+export type WorkspaceRole = 'OWNER' | 'ADMIN' | 'EDITOR' | 'VIEWER';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN', 'EDITOR', 'VIEWER'];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { VIEWER: 0, EDITOR: 1, ADMIN: 2, OWNER: 3 };
+
+// Mirrors lib/access: each role may do everything the roles below it may
+export const hasRole = (role: WorkspaceRole | undefined, minimum: WorkspaceRole) =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  // The one lists, search and new recordings use
+  active: boolean;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  // Only listed to the workspace's admins; invitees join through the link
+  token?: string;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: { name: string | null; email: string } | null;
+  // Set on invitations to the signed-in user
+  workspace?: { id: string; name: string };
+}
+
+export const useWorkspaces = (autoFetch = true) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  // Waiting for the signed-in user to accept
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkspaces = useCallback(async (): Promise<Workspace[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/workspaces', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to fetch workspaces: ${response.status}`);
+
+      const data = await response.json();
+      setWorkspaces(data.workspaces);
+      setInvitations(data.invitations);
+      return data.workspaces;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch workspaces';
+      setError(errorMessage);
+      console.error('Fetch workspaces error:', err);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // The new workspace becomes the active one
+  const createWorkspace = useCallback(async (name: string): Promise<Workspace | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to create workspace: ${response.status}`);
+
+      await fetchWorkspaces();
+      return data.workspace;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create workspace';
+      setError(errorMessage);
+      console.error('Create workspace error:', err);
+      return null;
+    }
+  }, [fetchWorkspaces]);
+
+  const switchWorkspace = useCallback(async (workspaceId: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/workspaces/active', {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId }),
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to switch workspace: ${response.status}`);
+
+      setWorkspaces(prev => prev.map(workspace => ({ ...workspace, active: workspace.id === workspaceId })));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to switch workspace';
+      setError(errorMessage);
+      console.error('Switch workspace error:', err);
+      return false;
+    }
+  }, []);
+
+  // Joins the workspace and makes it the active one
+  const acceptInvitation = useCallback(async (token: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `Failed to accept invitation: ${response.status}`);
+
+      await fetchWorkspaces();
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to accept invitation';
+      setError(errorMessage);
+      console.error('Accept invitation error:', err);
+      return false;
+    }
+  }, [fetchWorkspaces]);
+
+  const declineInvitation = useCallback(async (token: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) throw new Error(`Failed to decline invitation: ${response.status}`);
+
+      setInvitations(prev => prev.filter(invitation => invitation.token !== token));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to decline invitation';
+      setError(errorMessage);
+      console.error('Decline invitation error:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchWorkspaces();
+    }
+  }, [autoFetch, fetchWorkspaces]);
+
+  return {
+    workspaces,
+    activeWorkspace: workspaces.find(workspace => workspace.active) ?? null,
+    invitations,
+    isLoading,
+    error,
+    fetchWorkspaces,
+    createWorkspace,
+    switchWorkspace,
+    acceptInvitation,
+    declineInvitation,
+  };
+};
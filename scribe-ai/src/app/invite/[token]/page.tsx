@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth, useAuthInit } from '../../hooks/useAuth';
+import { useWorkspaces, WorkspaceRole } from '../../hooks/useWorkspaces';
+
+interface InvitationPreview {
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  workspace: { id: string; name: string };
+  invitedBy: { name: string | null; email: string } | null;
+}
+
+// Landing page for invitation links sent by workspace admins
+export default function InvitePage() {
+  const { user, isAuthenticated } = useAuth();
+  const { isLoading: authLoading } = useAuthInit();
+  const { acceptInvitation, declineInvitation, error: acceptError } = useWorkspaces(false);
+  const router = useRouter();
+  const params = useParams();
+  const token = params.token as string;
+
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  // Come back here after signing in
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(`/login?callbackUrl=${encodeURIComponent(`/invite/${token}`)}`);
+    }
+  }, [isAuthenticated, authLoading, router, token]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    fetch(`/api/invitations/${encodeURIComponent(token)}`, { credentials: 'include' })
+      .then(async response => {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(data?.error || `Failed to fetch invitation: ${response.status}`);
+        setInvitation(data.invitation);
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to fetch invitation');
+        console.error('Fetch invitation error:', err);
+      });
+  }, [isAuthenticated, token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    if (await acceptInvitation(token)) {
+      router.push('/recordings');
+      return;
+    }
+    setIsAccepting(false);
+  };
+
+  const handleDecline = async () => {
+    if (await declineInvitation(token)) router.push('/dashboard');
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  const wrongAccount = invitation && user && invitation.email !== user.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 text-center">
+        {error ? (
+          <>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Invitation unavailable</h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+            <Link href="/dashboard" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Go to dashboard
+            </Link>
+          </>
+        ) : !invitation ? (
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              Join {invitation.workspace.name}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {invitation.invitedBy?.name || invitation.invitedBy?.email || 'Someone'} invited {invitation.email} as {invitation.role.toLowerCase()}.
+            </p>
+
+            {wrongAccount && (
+              <p className="text-sm text-amber-700 dark:text-amber-400 mb-4">
+                You are signed in as {user.email}. Sign in with {invitation.email} to accept.
+              </p>
+            )}
+            {acceptError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{acceptError}</p>
+            )}
+
+            <div className="flex justify-center gap-3">
+              <button
+                onClick={handleAccept}
+                disabled={isAccepting || !!wrongAccount}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+              >
+                {isAccepting ? 'Joining...' : 'Accept'}
+              </button>
+              {!wrongAccount && (
+                <button
+                  onClick={handleDecline}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Decline
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { headers } from "next/headers";
 import ClientProviders from "./Client";
+import { auth } from "../lib/auth";
+import { DEFAULT_PREFERENCES, getPreferences, type Theme } from "../lib/preferences";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,14 +21,27 @@ export const metadata: Metadata = {
   description: "Scribe AI",
 };
 
-export default function RootLayout({
+// Signed-out visitors, and any lookup failure, follow the system setting
+async function getTheme(): Promise<Theme> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user) return DEFAULT_PREFERENCES.theme;
+    return (await getPreferences(session.user.id)).theme;
+  } catch (error) {
+    console.error("Failed to load theme preference:", error);
+    return DEFAULT_PREFERENCES.theme;
+  }
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const theme = await getTheme();
 
   return (
-    <html lang="en">
+    <html lang="en" data-theme={theme}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
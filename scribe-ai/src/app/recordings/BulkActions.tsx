@@ -0,0 +1,96 @@
+'use client';
+
+import { Folder, flattenFolders } from '../hooks/useFolders';
+import type { Tag } from '../hooks/useTags';
+
+interface BulkActionsProps {
+  count: number;
+  folders: Folder[];
+  tags: Tag[];
+  onMove: (folderId: string | null) => void;
+  onAddTag: (tagId: string) => void;
+  // Creates the tag, then adds it
+  onAddNewTag: (name: string) => void;
+  onRemoveTag: (tagId: string) => void;
+  onClear: () => void;
+}
+
+const NO_FOLDER = '__none';
+const NEW_TAG = '__new';
+
+const selectClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export default function BulkActions({
+  count,
+  folders,
+  tags,
+  onMove,
+  onAddTag,
+  onAddNewTag,
+  onRemoveTag,
+  onClear
+}: BulkActionsProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 px-4 py-3 rounded-lg bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 text-sm">
+      <span className="font-medium text-blue-900 dark:text-blue-100">
+        {count} selected
+      </span>
+
+      <select
+        value=""
+        onChange={(e) => onMove(e.target.value === NO_FOLDER ? null : e.target.value)}
+        aria-label="Move to folder"
+        className={selectClass}
+      >
+        <option value="" disabled>Move to...</option>
+        <option value={NO_FOLDER}>No folder</option>
+        {flattenFolders(folders).map(({ folder, depth }) => (
+          <option key={folder.id} value={folder.id}>
+            {'\u00a0\u00a0'.repeat(depth)}{folder.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value !== NEW_TAG) {
+            onAddTag(e.target.value);
+            return;
+          }
+          const name = prompt('New tag:')?.trim();
+          if (name) onAddNewTag(name);
+        }}
+        aria-label="Add tag"
+        className={selectClass}
+      >
+        <option value="" disabled>Add tag...</option>
+        {tags.map(tag => (
+          <option key={tag.id} value={tag.id}>{tag.name}</option>
+        ))}
+        <option value={NEW_TAG}>New tag...</option>
+      </select>
+
+      {tags.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => onRemoveTag(e.target.value)}
+          aria-label="Remove tag"
+          className={selectClass}
+        >
+          <option value="" disabled>Remove tag...</option>
+          {tags.map(tag => (
+            <option key={tag.id} value={tag.id}>{tag.name}</option>
+          ))}
+        </select>
+      )}
+
+      <button
+        onClick={onClear}
+        className="ml-auto text-blue-700 dark:text-blue-300 hover:underline"
+      >
+        Clear selection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { RecordingFilters, UNFILED_FOLDER } from '../hooks/useRecording';
+import type { Folder } from '../hooks/useFolders';
+import type { Tag } from '../hooks/useTags';
+
+// Drag payloads: a JSON list of recording ids, or one folder id
+export const RECORDINGS_DRAG_TYPE = 'application/x-scribe-recordings';
+const FOLDER_DRAG_TYPE = 'application/x-scribe-folder';
+
+// Where dropped recordings go: into a folder (null for none) or onto a tag
+export type DropTarget = { folderId: string | null } | { tagId: string };
+
+interface LibrarySidebarProps {
+  folders: Folder[];
+  unfiledCount: number;
+  tags: Tag[];
+  filters: RecordingFilters;
+  onChange: (filters: RecordingFilters) => void;
+  onDropRecordings: (recordingIds: string[], target: DropTarget) => void;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onUpdateFolder: (id: string, updates: { name?: string; parentId?: string | null }) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  onDeleteTag: (tag: Tag) => void;
+}
+
+const itemClass = (active: boolean, dropping: boolean) => `group flex items-center gap-2 px-2 py-1.5 rounded text-sm cursor-pointer ${
+  dropping
+    ? 'bg-blue-100 dark:bg-blue-900 ring-2 ring-blue-400'
+    : active
+      ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 font-medium'
+      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+}`;
+
+const actionClass = 'hidden group-hover:inline text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200';
+
+const draggedRecordings = (e: React.DragEvent): string[] => {
+  try {
+    const ids = JSON.parse(e.dataTransfer.getData(RECORDINGS_DRAG_TYPE) || '[]');
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+};
+
+export default function LibrarySidebar({
+  folders,
+  unfiledCount,
+  tags,
+  filters,
+  onChange,
+  onDropRecordings,
+  onCreateFolder,
+  onUpdateFolder,
+  onDeleteFolder,
+  onDeleteTag
+}: LibrarySidebarProps) {
+  // Key of the item being dragged over, e.g. "folder:<id>" or "tag:<id>"
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  // Accepts recordings, and folders where `folderId` is a folder target
+  const dropHandlers = (key: string, target: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      const types = e.dataTransfer.types;
+      if (!types.includes(RECORDINGS_DRAG_TYPE) && !('folderId' in target && types.includes(FOLDER_DRAG_TYPE))) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropKey !== key) setDropKey(key);
+    },
+    onDragLeave: () => setDropKey(current => (current === key ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropKey(null);
+
+      const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (folderId && 'folderId' in target) {
+        if (folderId !== target.folderId) onUpdateFolder(folderId, { parentId: target.folderId });
+        return;
+      }
+
+      const ids = draggedRecordings(e);
+      if (ids.length > 0) onDropRecordings(ids, target);
+    }
+  });
+
+  const selectFolder = (folder: string | undefined) => onChange({ ...filters, folder });
+
+  const toggleTag = (tagId: string) => {
+    const selected = filters.tag ?? [];
+    const tag = selected.includes(tagId) ? selected.filter(id => id !== tagId) : [...selected, tagId];
+    onChange({ ...filters, tag: tag.length > 0 ? tag : undefined });
+  };
+
+  const toggleCollapsed = (id: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const renderFolders = (parentId: string | null, depth: number): React.ReactNode =>
+    folders.filter(folder => folder.parentId === parentId).map(folder => {
+      const hasChildren = folders.some(child => child.parentId === folder.id);
+      const key = `folder:${folder.id}`;
+
+      return (
+        <li key={folder.id}>
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onClick={() => selectFolder(folder.id)}
+            style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+            className={itemClass(filters.folder === folder.id, dropKey === key)}
+            {...dropHandlers(key, { folderId: folder.id })}
+          >
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleCollapsed(folder.id);
+              }}
+              className={`w-3 text-xs text-gray-400 ${hasChildren ? '' : 'invisible'}`}
+              aria-label={collapsed.has(folder.id) ? 'Expand' : 'Collapse'}
+            >
+              {collapsed.has(folder.id) ? '▸' : '▾'}
+            </button>
+            <span className="flex-1 truncate">{folder.name}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                const name = prompt('Subfolder name:')?.trim();
+                if (name) onCreateFolder(name, folder.id);
+              }}
+              className={actionClass}
+              title="New subfolder"
+            >
+              +
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                const name = prompt('Rename folder:', folder.name)?.trim();
+                if (name && name !== folder.name) onUpdateFolder(folder.id, { name });
+              }}
+              className={actionClass}
+              title="Rename"
+            >
+              ✎
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteFolder(folder);
+              }}
+              className={actionClass}
+              title="Delete folder"
+            >
+              ×
+            </button>
+            <span className="text-xs text-gray-400">{folder.recordingCount || ''}</span>
+          </div>
+          {hasChildren && !collapsed.has(folder.id) && (
+            <ul>{renderFolders(folder.id, depth + 1)}</ul>
+          )}
+        </li>
+      );
+    });
+
+  return (
+    <aside className="w-full lg:w-60 shrink-0 space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2 px-2">
+          <h2 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Folders</h2>
+          <button
+            onClick={() => {
+              const name = prompt('Folder name:')?.trim();
+              if (name) onCreateFolder(name, null);
+            }}
+            className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            + New
+          </button>
+        </div>
+        <ul className="space-y-0.5">
+          <li
+            onClick={() => selectFolder(undefined)}
+            className={itemClass(!filters.folder, false)}
+          >
+            <span className="flex-1">All recordings</span>
+          </li>
+          <li
+            onClick={() => selectFolder(UNFILED_FOLDER)}
+            className={itemClass(filters.folder === UNFILED_FOLDER, dropKey === 'unfiled')}
+            {...dropHandlers('unfiled', { folderId: null })}
+          >
+            <span className="flex-1">Unfiled</span>
+            <span className="text-xs text-gray-400">{unfiledCount || ''}</span>
+          </li>
+          {renderFolders(null, 0)}
+        </ul>
+      </div>
+
+      <div>
+        <h2 className="mb-2 px-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Tags</h2>
+        {tags.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500 dark:text-gray-400">
+            Tags you add to recordings show up here.
+          </p>
+        ) : (
+          <ul className="space-y-0.5">
+            {tags.map(tag => {
+              const key = `tag:${tag.id}`;
+              return (
+                <li
+                  key={tag.id}
+                  onClick={() => toggleTag(tag.id)}
+                  className={itemClass(!!filters.tag?.includes(tag.id), dropKey === key)}
+                  {...dropHandlers(key, { tagId: tag.id })}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: tag.color }}></span>
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteTag(tag);
+                    }}
+                    className={actionClass}
+                    title="Delete tag"
+                  >
+                    ×
+                  </button>
+                  <span className="text-xs text-gray-400">{tag.recordingCount || ''}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="mt-3 px-2 text-xs text-gray-400 dark:text-gray-500">
+          Drag recordings onto a folder or tag to file them.
+        </p>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Recording, RecordingFilters, RecordingSort } from '../hooks/useRecording';
+
+interface RecordingsToolbarProps {
+  filters: RecordingFilters;
+  // Recordings matching the filters, once loaded
+  total: number | null;
+  onChange: (filters: RecordingFilters) => void;
+}
+
+const STATUSES: Recording['status'][] = ['COMPLETED', 'PROCESSING', 'RECORDING', 'PAUSED', 'FAILED'];
+
+const SORTS: { value: RecordingSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'longest', label: 'Longest first' },
+  { value: 'shortest', label: 'Shortest first' },
+  { value: 'title', label: 'Title (A-Z)' }
+];
+
+// Duration presets in seconds
+const DURATIONS = [
+  { value: 'short', label: 'Under 5 min', minDuration: undefined, maxDuration: 299 },
+  { value: 'medium', label: '5-30 min', minDuration: 300, maxDuration: 1799 },
+  { value: 'long', label: '30-60 min', minDuration: 1800, maxDuration: 3599 },
+  { value: 'longer', label: 'Over an hour', minDuration: 3600, maxDuration: undefined }
+];
+
+// Typing settles for this long before the search runs
+const SEARCH_DELAY_MS = 300;
+
+const controlClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export default function RecordingsToolbar({ filters, total, onChange }: RecordingsToolbarProps) {
+  const [query, setQuery] = useState(filters.q ?? '');
+  const [syncedQuery, setSyncedQuery] = useState(filters.q);
+
+  // Follow the URL when it changes from outside, e.g. back navigation
+  if (filters.q !== syncedQuery) {
+    setSyncedQuery(filters.q);
+    setQuery(filters.q ?? '');
+  }
+
+  useEffect(() => {
+    if (query.trim() === (filters.q ?? '')) return;
+
+    const timer = setTimeout(() => {
+      const q = query.trim() || undefined;
+      // Relevance only means something while searching
+      onChange({ ...filters, q, sort: !q && filters.sort === 'relevance' ? undefined : filters.sort });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, filters, onChange]);
+
+  const duration = DURATIONS.find(preset =>
+    preset.minDuration === filters.minDuration && preset.maxDuration === filters.maxDuration
+  );
+  const hasCustomDuration = !duration && (filters.minDuration !== undefined || filters.maxDuration !== undefined);
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, summaries and transcripts..."
+          aria-label="Search recordings"
+          className={`${controlClass} flex-1 min-w-[16rem]`}
+        />
+
+        <select
+          value={filters.status ?? ''}
+          onChange={(e) => onChange({ ...filters, status: (e.target.value || undefined) as Recording['status'] | undefined })}
+          aria-label="Status"
+          className={controlClass}
+        >
+          <option value="">Any status</option>
+          {STATUSES.map(status => (
+            <option key={status} value={status}>{status.charAt(0) + status.slice(1).toLowerCase()}</option>
+          ))}
+        </select>
+
+        <select
+          value={duration?.value ?? (hasCustomDuration ? 'custom' : '')}
+          onChange={(e) => {
+            const preset = DURATIONS.find(item => item.value === e.target.value);
+            onChange({ ...filters, minDuration: preset?.minDuration, maxDuration: preset?.maxDuration });
+          }}
+          aria-label="Duration"
+          className={controlClass}
+        >
+          <option value="">Any length</option>
+          {DURATIONS.map(preset => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+          {hasCustomDuration && <option value="custom" disabled>Custom</option>}
+        </select>
+
+        <select
+          value={filters.sort ?? (filters.q ? 'relevance' : 'newest')}
+          onChange={(e) => onChange({ ...filters, sort: e.target.value as RecordingSort })}
+          aria-label="Sort"
+          className={controlClass}
+        >
+          {SORTS.filter(sort => sort.value !== 'relevance' || filters.q).map(sort => (
+            <option key={sort.value} value={sort.value}>{sort.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-2">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            className={controlClass}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            className={controlClass}
+          />
+        </label>
+
+        <span className="ml-auto">
+          {total !== null && `${total} recording${total === 1 ? '' : 's'}`}
+        </span>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setQuery('');
+              onChange({});
+            }}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useActionItems, ActionItem } from '../../hooks/useActionItems';
+import { Speaker } from '../../hooks/useRecording';
+import { formatTimestamp } from '../../../lib/transcript';
+
+interface ActionItemsProps {
+  recordingId: string;
+  speakers: Speaker[];
+  // Items are extracted with each summary; refetched when it changes
+  summary: string | null;
+  onSeek: (ms: number) => void;
+}
+
+export default function ActionItems({ recordingId, speakers, summary, onSeek }: ActionItemsProps) {
+  const { actionItems, error, fetchActionItems, updateActionItem, deleteActionItem } = useActionItems(recordingId, false);
+
+  useEffect(() => {
+    fetchActionItems();
+  }, [fetchActionItems, summary]);
+
+  const handleDelete = async (item: ActionItem) => {
+    if (!confirm(`Remove "${item.text}"?`)) return;
+    await deleteActionItem(item.id);
+  };
+
+  const open = actionItems.filter(item => item.status === 'OPEN').length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+        <span className="mr-2">✅</span>
+        Action Items
+        {actionItems.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+            {open} of {actionItems.length} open
+          </span>
+        )}
+      </h2>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      {actionItems.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No action items were found in this meeting.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {actionItems.map(item => (
+            <li key={item.id} className="py-3 flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={item.status === 'DONE'}
+                onChange={(e) => updateActionItem(item.id, { status: e.target.checked ? 'DONE' : 'OPEN' })}
+                aria-label={`Mark "${item.text}" as done`}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={item.status === 'DONE'
+                  ? 'text-gray-400 dark:text-gray-500 line-through'
+                  : 'text-gray-900 dark:text-white'
+                }>
+                  {item.text}
+                </p>
+                <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                  <select
+                    value={item.speaker?.id ?? ''}
+                    onChange={(e) => updateActionItem(item.id, { speakerId: e.target.value || null })}
+                    title="Owner"
+                    className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    style={item.speaker ? { color: item.speaker.color } : undefined}
+                  >
+                    <option value="">{item.owner ?? 'No owner'}</option>
+                    {speakers.map(speaker => (
+                      <option key={speaker.id} value={speaker.id}>{speaker.displayName ?? speaker.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={item.dueDate?.slice(0, 10) ?? ''}
+                    onChange={(e) => updateActionItem(item.id, { dueDate: e.target.value || null })}
+                    title="Due date"
+                    className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  />
+                  {item.startMs !== null && (
+                    <button
+                      onClick={() => onSeek(item.startMs!)}
+                      className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                      title="Play where this was agreed"
+                    >
+                      ▶ {formatTimestamp(item.startMs)}
+                    </button>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(item)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline shrink-0"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
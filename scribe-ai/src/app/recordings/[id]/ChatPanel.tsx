@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { useRecordingChat, ChatMessage } from '../../hooks/useRecordingChat';
+import { TranscriptSegment } from '../../hooks/useRecording';
+import { formatTimestamp } from '../../../lib/transcript';
+
+interface ChatPanelProps {
+  recordingId: string;
+  // Answers cite segments by position; used while an answer is still streaming
+  segments: TranscriptSegment[];
+  disabled?: boolean;
+  onSeek: (ms: number) => void;
+}
+
+const SUGGESTIONS = [
+  'What was decided?',
+  'What are the open questions?',
+  'Who is doing what next?'
+];
+
+export default function ChatPanel({ recordingId, segments, disabled, onSeek }: ChatPanelProps) {
+  const { messages, isAnswering, error, ask, clearMessages } = useRecordingChat(recordingId);
+  const [question, setQuestion] = useState('');
+
+  const handleAsk = async (text: string) => {
+    if (!text.trim() || isAnswering) return;
+    setQuestion('');
+    const answered = await ask(text.trim());
+    if (!answered) setQuestion(text);
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear this conversation?')) return;
+    await clearMessages();
+  };
+
+  // "[3]" and "[3, 7]" become links to those points in the recording
+  const renderContent = (message: ChatMessage) => message.content
+    .split(/(\[\d+(?:\s*,\s*\d+)*\])/g)
+    .map((part, i) => {
+      const refs = part.match(/^\[(\d+(?:\s*,\s*\d+)*)\]$/);
+      if (!refs) return <span key={i}>{part}</span>;
+
+      return refs[1].split(',').map((value) => {
+        const line = Number(value.trim());
+        const startMs = message.citations
+          ? message.citations.find((citation) => citation.line === line)?.startMs
+          : segments[line]?.startMs;
+
+        if (startMs === null || startMs === undefined) return null;
+        return (
+          <button
+            key={`${i}-${line}`}
+            onClick={() => onSeek(startMs)}
+            title="Play from here"
+            className="mx-0.5 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 text-xs font-mono hover:underline"
+          >
+            {formatTimestamp(startMs)}
+          </button>
+        );
+      });
+    });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+          <span className="mr-2">💬</span>
+          Ask about this recording
+        </h2>
+        {messages.length > 0 && (
+          <button
+            onClick={handleClear}
+            disabled={isAnswering}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:text-red-600 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => handleAsk(suggestion)}
+              disabled={disabled || isAnswering}
+              className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <ul className="space-y-3 mb-4 max-h-96 overflow-y-auto">
+          {messages.map(message => (
+            <li
+              key={message.id}
+              className={message.role === 'USER'
+                ? 'ml-12 p-3 rounded-lg bg-blue-600 text-white'
+                : 'mr-12 p-3 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+              }
+            >
+              <div className="whitespace-pre-wrap text-sm">
+                {message.role === 'USER'
+                  ? message.content
+                  : message.content ? renderContent(message) : <span className="opacity-60">Thinking...</span>
+                }
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error}</p>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAsk(question);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question about this meeting..."
+          maxLength={2000}
+          disabled={disabled || isAnswering}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || disabled || isAnswering}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+        >
+          {isAnswering ? 'Answering...' : 'Ask'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { Recording, useRecordings } from '../../hooks/useRecording';
+import { flattenFolders, useFolders } from '../../hooks/useFolders';
+import { useTags } from '../../hooks/useTags';
+
+interface RecordingTagsProps {
+  recording: Recording;
+  onChange: (changes: Partial<Recording>) => void;
+}
+
+const NO_FOLDER = '';
+
+// Folder and tags of a recording, with the tags suggested alongside its summary
+export default function RecordingTags({ recording, onChange }: RecordingTagsProps) {
+  const { setRecordingTags, bulkUpdateRecordings } = useRecordings();
+  const { folders } = useFolders();
+  const { tags: allTags, fetchTags } = useTags();
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tags = recording.tags ?? [];
+  const suggestedTags = recording.suggestedTags ?? [];
+  const names = tags.map(tag => tag.name);
+
+  const save = async (changes: { tags?: string[]; suggestedTags?: string[] }) => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await setRecordingTags(recording.id, changes);
+    if (result) {
+      onChange(result);
+      // New names become tags of their own
+      if (changes.tags) fetchTags();
+    } else {
+      setError('Failed to update tags');
+    }
+    setIsSaving(false);
+  };
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || names.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) return;
+    save({ tags: [...names, trimmed] });
+  };
+
+  const handleMove = async (folderId: string | null) => {
+    setError(null);
+    if (await bulkUpdateRecordings({ recordingIds: [recording.id], folderId })) {
+      onChange({ folderId });
+    } else {
+      setError('Failed to move recording');
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+          📁
+          <select
+            value={recording.folderId ?? NO_FOLDER}
+            onChange={(e) => handleMove(e.target.value || null)}
+            aria-label="Folder"
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value={NO_FOLDER}>No folder</option>
+            {flattenFolders(folders).map(({ folder, depth }) => (
+              <option key={folder.id} value={folder.id}>
+                {'\u00a0\u00a0'.repeat(depth)}{folder.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {tags.map(tag => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white"
+            style={{ backgroundColor: tag.color }}
+          >
+            {tag.name}
+            <button
+              onClick={() => save({ tags: names.filter(name => name !== tag.name) })}
+              disabled={isSaving}
+              className="hover:opacity-70"
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addTag(draft);
+            setDraft('');
+          }}
+        >
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            list="recording-tag-options"
+            placeholder="+ Add tag"
+            maxLength={40}
+            disabled={isSaving}
+            className="w-28 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded-full bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <datalist id="recording-tag-options">
+            {allTags.filter(tag => !names.includes(tag.name)).map(tag => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+        </form>
+      </div>
+
+      {suggestedTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Suggested:</span>
+          {suggestedTags.map(name => (
+            <span
+              key={name}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border border-dashed border-gray-400 dark:border-gray-500 text-gray-700 dark:text-gray-300"
+            >
+              <button
+                onClick={() => addTag(name)}
+                disabled={isSaving}
+                className="hover:text-blue-600 dark:hover:text-blue-400"
+                title="Add this tag"
+              >
+                + {name}
+              </button>
+              <button
+                onClick={() => save({ suggestedTags: suggestedTags.filter(other => other !== name) })}
+                disabled={isSaving}
+                className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                aria-label={`Dismiss suggestion ${name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
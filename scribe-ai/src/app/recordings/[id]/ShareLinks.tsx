@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { useShareLinks, ShareLink, ShareScope } from '../../hooks/useShareLinks';
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  SUMMARY: 'Summary only',
+  TRANSCRIPT: 'Summary and transcript',
+  AUDIO: 'Summary, transcript and audio'
+};
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+];
+
+const fieldClass = 'text-sm px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+interface ShareLinksProps {
+  recordingId: string;
+}
+
+// Public read-only links for people without an account
+export default function ShareLinks({ recordingId }: ShareLinksProps) {
+  const { shareLinks, error, createShareLink, revokeShareLink } = useShareLinks(recordingId);
+  const [scope, setScope] = useState<ShareScope>('SUMMARY');
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [password, setPassword] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link));
+    setCopiedId(link.id);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const link = await createShareLink({ scope, expiresInDays, password: password || undefined });
+    if (link) {
+      setPassword('');
+      await copyLink(link);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone who has it loses access.')) return;
+    await revokeShareLink(link.id);
+  };
+
+  const isExpired = (link: ShareLink) => link.expiresAt !== null && new Date(link.expiresAt) < new Date();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+        <span className="mr-2">🔗</span>
+        Share Links
+      </h2>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 mb-4">
+        <select value={scope} onChange={(e) => setScope(e.target.value as ShareScope)} className={fieldClass}>
+          {(Object.keys(SCOPE_LABELS) as ShareScope[]).map(value => (
+            <option key={value} value={value}>{SCOPE_LABELS[value]}</option>
+          ))}
+        </select>
+        <select
+          value={expiresInDays ?? ''}
+          onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+          className={fieldClass}
+          aria-label="Expires after"
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.label} value={option.days ?? ''}>Expires: {option.label}</option>
+          ))}
+        </select>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          minLength={6}
+          autoComplete="new-password"
+          className={fieldClass}
+        />
+        <button
+          type="submit"
+          className="text-sm px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium transition-colors"
+        >
+          Create link
+        </button>
+      </form>
+
+      {shareLinks.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This recording hasn&apos;t been shared.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {shareLinks.map(link => (
+            <li key={link.id} className="py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className={`text-sm ${isExpired(link) ? 'text-gray-400 line-through' : 'text-gray-900 dark:text-white'}`}>
+                  {SCOPE_LABELS[link.scope]}{link.hasPassword && ' · 🔒'}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                  {' · '}
+                  {link.expiresAt
+                    ? `${isExpired(link) ? 'expired' : 'expires'} ${new Date(link.expiresAt).toLocaleDateString()}`
+                    : 'never expires'}
+                  {link.createdBy && ` · by ${link.createdBy.name || link.createdBy.email}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                {!isExpired(link) && (
+                  <button
+                    onClick={() => copyLink(link)}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {copiedId === link.id ? 'Copied' : 'Copy link'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleRevoke(link)}
+                  className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRecordings, SegmentChange, Speaker, TranscriptSegment } from '../../hooks/useRecording';
+import { formatTimestamp } from '../../../lib/transcript';
+
+interface TranscriptEditorProps {
+  recordingId: string;
+  segments: TranscriptSegment[];
+  speakers: Speaker[];
+  // `transcript` is the re-rendered text after a save
+  onSaved: (segments: TranscriptSegment[], transcript?: string) => void;
+  onClose: () => void;
+}
+
+// The editable part of a segment
+interface Draft {
+  id: string;
+  text: string;
+  speaker: string | null;
+}
+
+type SaveState = 'saved' | 'pending' | 'saving' | 'conflict' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Keystrokes in the same field within this gap are undone together
+const UNDO_GROUP_MS = 1000;
+
+const toDraft = (segment: TranscriptSegment): Draft => ({
+  id: segment.id,
+  text: segment.text,
+  speaker: segment.speaker
+});
+
+export default function TranscriptEditor({ recordingId, segments, speakers, onSaved, onClose }: TranscriptEditorProps) {
+  const { updateSegments } = useRecordings();
+  // Last copies confirmed by the server, whose updatedAt each save is based on
+  const [saved, setSaved] = useState(() => new Map(segments.map(segment => [segment.id, segment])));
+  const [history, setHistory] = useState<Draft[][]>(() => [segments.map(toDraft)]);
+  const [position, setPosition] = useState(0);
+  const [saveState, setSaveState] = useState<SaveState>('saved');
+  const [conflicts, setConflicts] = useState<TranscriptSegment[]>([]);
+  const lastEditRef = useRef<{ key: string; at: number } | null>(null);
+  const savingRef = useRef(false);
+
+  const drafts = history[position];
+
+  const pendingChanges = useCallback((): SegmentChange[] => {
+    const changes: SegmentChange[] = [];
+    for (const draft of drafts) {
+      const base = saved.get(draft.id);
+      if (!base || (base.text === draft.text && base.speaker === draft.speaker)) continue;
+
+      changes.push({
+        id: draft.id,
+        updatedAt: base.updatedAt,
+        ...(base.text !== draft.text && { text: draft.text }),
+        ...(base.speaker !== draft.speaker && { speaker: draft.speaker })
+      });
+    }
+    return changes;
+  }, [drafts, saved]);
+
+  // Resolves to whether everything is saved
+  const save = useCallback(async (): Promise<boolean> => {
+    const changes = pendingChanges();
+    if (changes.length === 0) return true;
+    if (savingRef.current) return false;
+
+    savingRef.current = true;
+    setSaveState('saving');
+
+    const result = await updateSegments(recordingId, changes);
+    savingRef.current = false;
+
+    if (result.status === 'saved') {
+      setSaved(prev => new Map([...prev, ...result.segments.map(segment => [segment.id, segment] as const)]));
+      setSaveState('saved');
+      onSaved(result.segments, result.transcript);
+      return true;
+    }
+
+    if (result.status === 'conflict') {
+      setConflicts(result.segments);
+      setSaveState('conflict');
+    } else {
+      setSaveState('error');
+    }
+    return false;
+  }, [pendingChanges, updateSegments, recordingId, onSaved]);
+
+  // Autosave shortly after the last change, including edits made during a save;
+  // paused while a conflict or error is open
+  useEffect(() => {
+    if (saveState === 'saving' || saveState === 'conflict' || saveState === 'error') return;
+    if (pendingChanges().length === 0) return;
+
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [drafts, saveState, pendingChanges, save]);
+
+  // `at` is the input event's timestamp
+  const edit = (id: string, field: 'text' | 'speaker', value: string | null, at: number) => {
+    const key = `${id}:${field}`;
+    const grouped = lastEditRef.current?.key === key && at - lastEditRef.current.at < UNDO_GROUP_MS;
+    lastEditRef.current = { key, at };
+
+    const next = drafts.map(draft => draft.id === id ? { ...draft, [field]: value } : draft);
+    // Editing after an undo drops the redo steps
+    const kept = history.slice(0, grouped ? position : position + 1);
+
+    setHistory([...kept, next]);
+    setPosition(kept.length);
+    setSaveState(state => state === 'error' ? 'pending' : state);
+  };
+
+  const undo = () => {
+    if (position === 0) return;
+    lastEditRef.current = null;
+    setPosition(position - 1);
+    setSaveState(state => state === 'error' ? 'pending' : state);
+  };
+
+  const redo = () => {
+    if (position >= history.length - 1) return;
+    lastEditRef.current = null;
+    setPosition(position + 1);
+    setSaveState(state => state === 'error' ? 'pending' : state);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  // Take the server's copies as the new base; `discard` also drops our edits to them
+  const resolveConflict = (discard: boolean) => {
+    const server = new Map(conflicts.map(segment => [segment.id, segment]));
+    setSaved(prev => new Map([...prev, ...server]));
+
+    if (discard) {
+      const next = drafts.map(draft => server.has(draft.id) ? toDraft(server.get(draft.id)!) : draft);
+      setHistory([...history.slice(0, position + 1), next]);
+      setPosition(position + 1);
+      onSaved(conflicts);
+    }
+
+    setConflicts([]);
+    setSaveState('pending');
+  };
+
+  const handleDone = async () => {
+    if (await save()) onClose();
+  };
+
+  const speakerOptions = speakers.map(speaker => ({
+    label: speaker.label,
+    name: speaker.displayName ?? speaker.label,
+    color: speaker.color
+  }));
+  const speakerColor = new Map(speakerOptions.map(option => [option.label, option.color]));
+
+  // Undoing back to the saved text leaves nothing to save
+  const displayState: SaveState = saveState === 'pending' || saveState === 'saved'
+    ? pendingChanges().length > 0 ? 'pending' : 'saved'
+    : saveState;
+  const statusText: Record<SaveState, string> = {
+    saved: 'All changes saved',
+    pending: 'Unsaved changes',
+    saving: 'Saving...',
+    conflict: 'Not saved: conflicting changes',
+    error: 'Failed to save, retrying on the next change'
+  };
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <div className="flex gap-2">
+          <button
+            onClick={undo}
+            disabled={position === 0}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-1 rounded text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={position >= history.length - 1}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-1 rounded text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 disabled:opacity-50"
+          >
+            Redo
+          </button>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`text-xs ${displayState === 'conflict' || displayState === 'error'
+              ? 'text-red-600 dark:text-red-400'
+              : 'text-gray-500 dark:text-gray-400'
+            }`}>
+            {statusText[displayState]}
+          </span>
+          <button
+            onClick={handleDone}
+            disabled={saveState === 'saving' || saveState === 'conflict'}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-1.5 rounded-lg text-sm font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      {saveState === 'conflict' && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 mb-3 text-sm">
+          <p className="text-yellow-800 dark:text-yellow-200 mb-2">
+            {conflicts.length === 1 ? 'A segment you edited was' : `${conflicts.length} segments you edited were`} changed elsewhere in the meantime.
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => resolveConflict(false)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              Keep my version
+            </button>
+            <button onClick={() => resolveConflict(true)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              Use theirs
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {drafts.map(draft => {
+          const base = saved.get(draft.id);
+          const dirty = base && (base.text !== draft.text || base.speaker !== draft.speaker);
+
+          return (
+            <div key={draft.id} className="flex gap-3 items-start bg-gray-50 dark:bg-gray-900 rounded-lg p-2">
+              <div className="w-28 shrink-0 space-y-1">
+                <div className="font-mono text-xs text-blue-600 dark:text-blue-400">
+                  {base && formatTimestamp(base.startMs)}
+                  {dirty && <span className="ml-1 text-yellow-600" title="Unsaved">●</span>}
+                  {!dirty && base?.edited && <span className="ml-1 text-gray-400">edited</span>}
+                </div>
+                <select
+                  value={draft.speaker ?? ''}
+                  onChange={(e) => edit(draft.id, 'speaker', e.target.value || null, e.timeStamp)}
+                  className="w-full text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-1 py-0.5"
+                  style={{ color: draft.speaker ? speakerColor.get(draft.speaker) : undefined }}
+                >
+                  <option value="">No speaker</option>
+                  {speakerOptions.map(option => (
+                    <option key={option.label} value={option.label}>{option.name}</option>
+                  ))}
+                  {draft.speaker && !speakerColor.has(draft.speaker) && (
+                    <option value={draft.speaker}>{draft.speaker}</option>
+                  )}
+                </select>
+              </div>
+              <textarea
+                value={draft.text}
+                onChange={(e) => edit(draft.id, 'text', e.target.value, e.timeStamp)}
+                rows={Math.max(1, Math.ceil(draft.text.length / 90))}
+                className="flex-1 resize-y rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm text-gray-800 dark:text-gray-200"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRecordings, Translation, TranslationInfo } from '../../hooks/useRecording';
+import { useSocketContext } from '../../context/socket';
+import { LANGUAGE_OPTIONS, languageName, providerLanguage } from '../../../lib/language';
+
+interface TranslationSwitcherProps {
+  recordingId: string;
+  // Language spoken in the recording, if detected
+  sourceLanguage: string | null;
+  // Text currently shown on the page; the list is refetched when it changes
+  transcript: string | null;
+  summary: string | null;
+  disabled?: boolean;
+  selected: Translation | null;
+  // null switches back to the original
+  onSelect: (translation: Translation | null) => void;
+}
+
+export default function TranslationSwitcher({
+  recordingId,
+  sourceLanguage,
+  transcript,
+  summary,
+  disabled,
+  selected,
+  onSelect
+}: TranslationSwitcherProps) {
+  const { getTranslations, getTranslation, translateRecording } = useRecordings();
+  const { on, off } = useSocketContext();
+  const [translations, setTranslations] = useState<TranslationInfo[]>([]);
+  const [target, setTarget] = useState('');
+  // Translation job queued from here, until it completes or fails
+  const [pending, setPending] = useState<{
+    jobId: string;
+    language: string;
+    progress: number;
+    stage: string | null;
+  } | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const isTranslating = pending !== null;
+  const pendingJobId = pending?.jobId;
+  const pendingLanguage = pending?.language;
+
+  useEffect(() => {
+    getTranslations(recordingId).then(setTranslations);
+  }, [recordingId, transcript, summary, getTranslations]);
+
+  // The page subscribes to the recording's room; this follows the queued job
+  useEffect(() => {
+    if (!pendingJobId) return;
+
+    const handleJobProgress = (data: {
+      jobId: string;
+      status: string;
+      progress: number;
+      stage: string | null;
+      error: string | null;
+    }) => {
+      if (data.jobId !== pendingJobId) return;
+
+      if (data.status === 'COMPLETED') {
+        setPending(null);
+        getTranslations(recordingId).then(setTranslations);
+        getTranslation(recordingId, pendingLanguage).then(translation => {
+          if (translation) onSelect(translation);
+        });
+      } else if (data.status === 'FAILED') {
+        setPending(null);
+        setTranslationError(data.error ?? 'Failed to translate');
+      } else {
+        setPending(prev => prev && { ...prev, progress: data.progress, stage: data.stage });
+      }
+    };
+
+    on('job-progress', handleJobProgress);
+    return () => off('job-progress', handleJobProgress);
+  }, [pendingJobId, pendingLanguage, recordingId, on, off, getTranslations, getTranslation, onSelect]);
+
+  const handleShow = async (language: string | null) => {
+    setTranslationError(null);
+    if (!language) {
+      onSelect(null);
+      return;
+    }
+
+    const translation = await getTranslation(recordingId, language);
+    if (translation) {
+      onSelect(translation);
+    } else {
+      setTranslationError(`Failed to load the ${languageName(language)} translation`);
+    }
+  };
+
+  const handleTranslate = async (language: string) => {
+    setTranslationError(null);
+
+    const result = await translateRecording(recordingId, language);
+    if (result.jobId) {
+      setPending({ jobId: result.jobId, language, progress: 0, stage: null });
+      setTarget('');
+    } else {
+      setTranslationError(result.error ?? 'Failed to translate');
+    }
+  };
+
+  const selectedInfo = translations.find(translation => translation.language === selected?.language);
+  const available = LANGUAGE_OPTIONS.filter(option =>
+    providerLanguage(option.value) !== sourceLanguage &&
+    !translations.some(translation => translation.language === option.value)
+  );
+
+  const pillClass = (active: boolean) => `px-3 py-1 rounded-full text-sm font-medium ${active
+      ? 'bg-blue-600 text-white'
+      : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-2 text-gray-900 dark:text-white font-semibold">🌐 Language</span>
+        <button onClick={() => handleShow(null)} className={pillClass(!selected)}>
+          Original{sourceLanguage ? ` (${languageName(sourceLanguage)})` : ''}
+        </button>
+        {translations.map(translation => (
+          <button
+            key={translation.language}
+            onClick={() => handleShow(translation.language)}
+            title={translation.stale ? 'Translated before the latest changes' : undefined}
+            className={pillClass(selected?.language === translation.language)}
+          >
+            {languageName(translation.language)}
+            {translation.stale && <span className="ml-1 opacity-70">*</span>}
+          </button>
+        ))}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (target) handleTranslate(target);
+          }}
+          className="flex gap-2 ml-auto"
+        >
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            disabled={disabled || isTranslating}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">Translate to...</option>
+            {available.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!target || disabled || isTranslating}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+          >
+            {isTranslating ? 'Translating...' : 'Translate'}
+          </button>
+        </form>
+      </div>
+
+      {pending && (
+        <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+          {pending.stage ?? `Waiting to translate into ${languageName(pending.language)}`} ({Math.round(pending.progress)}%)
+        </p>
+      )}
+
+      {selectedInfo?.stale && (
+        <p className="mt-3 text-sm text-yellow-700 dark:text-yellow-300">
+          The transcript or summary changed after this translation was made.{' '}
+          <button
+            onClick={() => handleTranslate(selectedInfo.language)}
+            disabled={disabled || isTranslating}
+            className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            Translate again
+          </button>
+        </p>
+      )}
+
+      {translationError && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{translationError}</p>
+      )}
+    </div>
+  );
+}
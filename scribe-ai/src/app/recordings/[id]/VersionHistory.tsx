@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRecordings, DiffRow, RecordingVersion, VersionKind } from '../../hooks/useRecording';
+
+interface VersionHistoryProps {
+  recordingId: string;
+  // Text currently shown on the page; the history is refetched when it changes
+  transcript: string | null;
+  summary: string | null;
+  disabled?: boolean;
+  onRestored: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  original: 'Original',
+  live: 'Live transcription',
+  transcribe: 'Transcribed',
+  summarize: 'Summarized',
+  reprocess: 'Reprocessed',
+  edit: 'Edited',
+  restore: 'Restored'
+};
+
+const ROW_COLORS: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  added: { left: 'bg-gray-100 dark:bg-gray-800', right: 'bg-green-50 dark:bg-green-900/30' },
+  removed: { left: 'bg-red-50 dark:bg-red-900/30', right: 'bg-gray-100 dark:bg-gray-800' },
+  changed: { left: 'bg-red-50 dark:bg-red-900/30', right: 'bg-green-50 dark:bg-green-900/30' }
+};
+
+const describeAuthor = (version: RecordingVersion) => {
+  if (version.author) return version.author.name || version.author.email;
+  if (version.provider) return version.model ? `${version.provider} · ${version.model}` : version.provider;
+  return 'Unknown';
+};
+
+export default function VersionHistory({ recordingId, transcript, summary, disabled, onRestored }: VersionHistoryProps) {
+  const { getVersions, getVersionDiff, restoreVersion } = useRecordings();
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<VersionKind>('transcript');
+  const [versions, setVersions] = useState<RecordingVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [rows, setRows] = useState<DiffRow[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getVersions(recordingId, kind).then(fetched => {
+      setVersions(fetched);
+      setSelectedId(null);
+      setRows(null);
+    });
+  }, [isOpen, recordingId, kind, transcript, summary, getVersions]);
+
+  const handleCompare = async (versionId: string) => {
+    if (selectedId === versionId) {
+      setSelectedId(null);
+      return;
+    }
+
+    setSelectedId(versionId);
+    setRows(null);
+    setHistoryError(null);
+
+    const diff = await getVersionDiff(recordingId, kind, versionId);
+    if (diff) {
+      setRows(diff);
+    } else {
+      setHistoryError('Failed to load the comparison');
+    }
+  };
+
+  const handleRestore = async (versionId: string) => {
+    if (!confirm(`Restore this ${kind}? The current one stays in the history.`)) return;
+
+    setIsRestoring(true);
+    setHistoryError(null);
+
+    const success = await restoreVersion(recordingId, kind, versionId);
+    if (success) {
+      onRestored();
+    } else {
+      setHistoryError(`Failed to restore the ${kind}`);
+    }
+    setIsRestoring(false);
+  };
+
+  const selected = versions.find(version => version.id === selectedId);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+          <span className="mr-2">🕘</span>
+          History
+        </h2>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4">
+          <div className="flex gap-2 mb-4">
+            {(['transcript', 'summary'] as VersionKind[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${kind === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                  }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {historyError && (
+            <p className="text-sm text-red-600 dark:text-red-400 mb-3">{historyError}</p>
+          )}
+
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No earlier versions yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {versions.map(version => (
+                <li key={version.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900 dark:text-white">
+                      <span className="font-medium">{REASON_LABELS[version.reason] ?? version.reason}</span>
+                      <span className="text-gray-500 dark:text-gray-400"> by {describeAuthor(version)}</span>
+                      {version.isCurrent && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(version.createdAt).toLocaleString()} · {version.length} chars
+                    </div>
+                  </div>
+                  {!version.isCurrent && (
+                    <div className="flex gap-3 text-sm shrink-0">
+                      <button
+                        onClick={() => handleCompare(version.id)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {selectedId === version.id ? 'Close' : 'Compare'}
+                      </button>
+                      <button
+                        onClick={() => handleRestore(version.id)}
+                        disabled={disabled || isRestoring}
+                        className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="mt-4">
+              <div className="grid grid-cols-2 gap-px text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                <span>{REASON_LABELS[selected.reason] ?? selected.reason}, {new Date(selected.createdAt).toLocaleString()}</span>
+                <span>Current</span>
+              </div>
+              {rows ? (
+                <div className="max-h-[32rem] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700 font-mono text-xs">
+                  {rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-700">
+                      <div className={`flex gap-2 px-2 py-0.5 ${ROW_COLORS[row.type].left}`}>
+                        <span className="w-8 shrink-0 text-right text-gray-400">{row.leftLine}</span>
+                        <span className="whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{row.left}</span>
+                      </div>
+                      <div className={`flex gap-2 px-2 py-0.5 ${ROW_COLORS[row.type].right}`}>
+                        <span className="w-8 shrink-0 text-right text-gray-400">{row.rightLine}</span>
+                        <span className="whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{row.right}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading comparison...</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,37 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth, useAuthInit } from '../../hooks/useAuth';
-import { useRecordings, Recording } from '../../hooks/useRecording';
+import { useRecordings, Recording, ReprocessOptions, Speaker, TranscriptSegment, Translation } from '../../hooks/useRecording';
+import { useSummaryTemplates, DEFAULT_TEMPLATE_ID } from '../../hooks/useSummaryTemplates';
+import { hasRole } from '../../hooks/useWorkspaces';
+import { useSocketContext } from '../../context/socket';
+import { formatTimestamp } from '../../../lib/transcript';
+import { languageName } from '../../../lib/language';
+import VersionHistory from './VersionHistory';
+import TranscriptEditor from './TranscriptEditor';
+import TranslationSwitcher from './TranslationSwitcher';
+import ActionItems from './ActionItems';
+import ChatPanel from './ChatPanel';
+import RecordingTags from './RecordingTags';
+import ShareLinks from './ShareLinks';
 
 export default function RecordingDetailPage() {
   const { user, isAuthenticated } = useAuth();
   const { isLoading: authLoading } = useAuthInit();
-  const { getRecording, error: recordingsError } = useRecordings();
+  const {
+    getRecording,
+    retryProcessing,
+    reprocessRecording,
+    getSegments,
+    getSpeakers,
+    updateSpeaker,
+    error: recordingsError
+  } = useRecordings();
+  const { templates } = useSummaryTemplates(isAuthenticated);
+  const { isConnected, emit, on, off } = useSocketContext();
   const router = useRouter();
   const params = useParams();
   const recordingId = params?.id as string;
@@ -17,6 +39,27 @@ export default function RecordingDetailPage() {
   const [recording, setRecording] = useState<Recording | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isReprocessing, setIsReprocessing] = useState(false);
+  // Template picked for the next summary; the recording's own until changed
+  const [templateChoice, setTemplateChoice] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  // Shown instead of the original transcript and summary while selected
+  const [translation, setTranslation] = useState<Translation | null>(null);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
+  const [speakerNameDraft, setSpeakerNameDraft] = useState('');
+  const [speakerError, setSpeakerError] = useState<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<{
+    progress: number;
+    stage: string | null;
+    retryAt: string | null;
+    error: string | null;
+  } | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
 
   console.log('RecordingDetailPage mounted, recordingId:', recordingId);
 
@@ -60,6 +103,91 @@ export default function RecordingDetailPage() {
     fetchRecording();
   }, [recordingId, isAuthenticated, getRecording]);
 
+  // Timestamped lines and speakers; refetched once processing has rewritten them
+  useEffect(() => {
+    if (!recordingId || !isAuthenticated) return;
+
+    getSegments(recordingId).then(setSegments);
+    getSpeakers(recordingId).then(setSpeakers);
+  }, [recordingId, isAuthenticated, getSegments, getSpeakers, recording?.status]);
+
+  // Watch this recording's room so processing in another tab shows up live
+  useEffect(() => {
+    if (!recordingId || !isConnected) return;
+
+    emit('subscribe-recording', { recordingId });
+
+    const handleRecordingStatus = (data: { recordingId: string; status: string }) => {
+      if (data.recordingId !== recordingId) return;
+      setRecording(prev => prev ? { ...prev, status: data.status as Recording['status'] } : prev);
+
+      // Pick up the error record written with the failure
+      if (data.status === 'FAILED') {
+        getRecording(recordingId).then(updated => updated && setRecording(updated));
+      }
+    };
+
+    const handleRecordingCompleted = (data: {
+      recordingId: string;
+      summary: string;
+      transcript: string;
+      duration: number;
+    }) => {
+      if (data.recordingId !== recordingId) return;
+      setProcessingError(null);
+      setRecording(prev => prev ? {
+        ...prev,
+        status: 'COMPLETED',
+        summary: data.summary,
+        transcript: data.transcript,
+        duration: data.duration
+      } : prev);
+    };
+
+    const handleRecordingError = (data: { recordingId: string; error: string }) => {
+      if (data.recordingId !== recordingId) return;
+      setJobProgress(null);
+      setProcessingError(data.error);
+    };
+
+    const handleJobProgress = (data: {
+      recordingId: string;
+      type: string;
+      status: string;
+      progress: number;
+      stage: string | null;
+      retryAt: string | null;
+      error: string | null;
+    }) => {
+      // Translations show their progress in the language switcher
+      if (data.recordingId !== recordingId || data.type === 'TRANSLATE') return;
+
+      if (data.status === 'RUNNING' || data.status === 'PENDING') {
+        setJobProgress({
+          progress: data.progress,
+          stage: data.stage,
+          retryAt: data.retryAt,
+          error: data.error
+        });
+      } else {
+        setJobProgress(null);
+      }
+    };
+
+    on('recording-status', handleRecordingStatus);
+    on('recording-completed', handleRecordingCompleted);
+    on('recording-error', handleRecordingError);
+    on('job-progress', handleJobProgress);
+
+    return () => {
+      off('recording-status', handleRecordingStatus);
+      off('recording-completed', handleRecordingCompleted);
+      off('recording-error', handleRecordingError);
+      off('job-progress', handleJobProgress);
+      emit('unsubscribe-recording', { recordingId });
+    };
+  }, [recordingId, isConnected, emit, on, off, getRecording]);
+
   // Also capture errors from the hook
   useEffect(() => {
     if (recordingsError) {
@@ -74,6 +202,115 @@ export default function RecordingDetailPage() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    setProcessingError(null);
+
+    const success = await retryProcessing(recordingId);
+    if (success) {
+      setRecording(prev => prev ? { ...prev, status: 'PROCESSING' } : prev);
+    } else {
+      setProcessingError('Failed to retry processing');
+    }
+    setIsRetrying(false);
+  };
+
+  const handleReprocess = async (stages: ReprocessOptions['stages']) => {
+    const hasEdits = segments.some(segment => segment.edited);
+    if (
+      stages.includes('transcribe') &&
+      !confirm(hasEdits
+        ? 'This transcript has manual corrections that re-transcribing will replace. Continue? They stay available in the history.'
+        : 'Transcribe this recording again? The current transcript and summary are kept in its history.')
+    ) {
+      return;
+    }
+
+    setIsReprocessing(true);
+    setProcessingError(null);
+
+    const success = await reprocessRecording(recordingId, {
+      stages,
+      ...(stages.includes('transcribe') && hasEdits && { overwriteEdits: true }),
+      ...(templateChoice && { promptTemplateId: templateChoice })
+    });
+    if (success) {
+      setRecording(prev => prev ? {
+        ...prev,
+        status: 'PROCESSING',
+        summaryTemplateId: templateChoice ?? prev.summaryTemplateId
+      } : prev);
+    } else {
+      setProcessingError('Failed to start reprocessing');
+    }
+    setIsReprocessing(false);
+  };
+
+  // Stable so the editor's autosave timer isn't reset by unrelated re-renders
+  const handleSegmentsSaved = useCallback((saved: TranscriptSegment[], transcript?: string) => {
+    const byId = new Map(saved.map(segment => [segment.id, segment]));
+    setSegments(prev => prev.map(segment => byId.get(segment.id) ?? segment));
+    if (transcript !== undefined) {
+      setRecording(prev => prev ? { ...prev, transcript } : prev);
+    }
+  }, []);
+
+  const handleVersionRestored = async () => {
+    const updated = await getRecording(recordingId);
+    if (updated) setRecording(updated);
+    getSegments(recordingId).then(setSegments);
+  };
+
+  const seekTo = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = ms / 1000;
+    audio.play().catch(err => console.error('Audio playback error:', err));
+  };
+
+  const startRenaming = (speaker: Speaker) => {
+    setSpeakerError(null);
+    setEditingSpeakerId(speaker.id);
+    setSpeakerNameDraft(speaker.displayName ?? '');
+  };
+
+  const saveSpeakerName = async (speaker: Speaker) => {
+    const success = await updateSpeaker(recordingId, speaker.id, { displayName: speakerNameDraft });
+
+    if (!success) {
+      setSpeakerError('Failed to rename speaker');
+      return;
+    }
+
+    setEditingSpeakerId(null);
+    // The rename is written into the transcript and summary server-side
+    const [updated, updatedSpeakers] = await Promise.all([
+      getRecording(recordingId),
+      getSpeakers(recordingId)
+    ]);
+    if (updated) setRecording(updated);
+    setSpeakers(updatedSpeakers);
+  };
+
+  const speakersByLabel = new Map(speakers.map(speaker => [speaker.label, speaker]));
+
+  // Translated segments keep the original times and speakers
+  const shownSegments: TranscriptSegment[] = translation
+    ? translation.segments.map(segment => ({
+      ...segment,
+      id: `${translation.language}-${segment.index}`,
+      confidence: null,
+      language: null,
+      edited: false,
+      updatedAt: translation.updatedAt
+    }))
+    : segments;
+
+  const activeSegmentIndex = shownSegments.findIndex(
+    segment => currentTimeMs >= segment.startMs && currentTimeMs < segment.endMs
+  );
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString();
@@ -220,19 +457,220 @@ export default function RecordingDetailPage() {
               <div className="flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-400">
                 <span>📅 {formatDate(recording.createdAt)}</span>
                 <span>⏱️ {formatDuration(recording.duration)}</span>
+                {recording.detectedLanguage && (
+                  <span title="Language spoken most">🌐 {languageName(recording.detectedLanguage)}</span>
+                )}
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${recording.status === 'COMPLETED'
                     ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100'
                     : recording.status === 'PROCESSING'
                       ? 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100'
-                      : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100'
+                      : recording.status === 'FAILED'
+                        ? 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100'
+                        : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100'
                   }`}>
                   {recording.status}
                 </span>
               </div>
+              <RecordingTags
+                recording={recording}
+                onChange={(changes) => setRecording(prev => prev ? { ...prev, ...changes } : prev)}
+              />
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {recording.transcript && templates.length > 0 && (
+                <select
+                  value={templateChoice ?? recording.summaryTemplateId ?? DEFAULT_TEMPLATE_ID}
+                  onChange={(e) => setTemplateChoice(e.target.value)}
+                  disabled={isReprocessing || recording.status === 'PROCESSING'}
+                  title="Summary template"
+                  className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                >
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              )}
+              {recording.transcript && (
+                <button
+                  onClick={() => handleReprocess(['summarize'])}
+                  disabled={isReprocessing || recording.status === 'PROCESSING'}
+                  className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-800 dark:text-gray-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                >
+                  Regenerate summary
+                </button>
+              )}
+              {recording.audioUrl && (
+                <button
+                  onClick={() => handleReprocess(['transcribe', 'summarize'])}
+                  disabled={isReprocessing || recording.status === 'PROCESSING'}
+                  className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-800 dark:text-gray-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                >
+                  Re-transcribe
+                </button>
+              )}
             </div>
           </div>
         </div>
 
+        {jobProgress && (
+          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
+            <div className="flex justify-between text-sm text-blue-800 dark:text-blue-200 mb-2">
+              <span>{jobProgress.stage ?? 'Waiting to process'}</span>
+              <span>{jobProgress.progress}%</span>
+            </div>
+            <div className="h-2 bg-blue-100 dark:bg-blue-900 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${jobProgress.progress}%` }}
+              />
+            </div>
+            {jobProgress.retryAt && (
+              <p className="mt-2 text-xs text-blue-700 dark:text-blue-300">
+                Last attempt failed{jobProgress.error ? `: ${jobProgress.error}` : ''}. Retrying at {new Date(jobProgress.retryAt).toLocaleTimeString()}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {recording.status === 'FAILED' && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+              <div>
+                <h2 className="font-semibold text-red-800 dark:text-red-200">Processing failed</h2>
+                {recording.errors?.[0] && (
+                  <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+                    <span className="font-mono text-xs mr-2">{recording.errors[0].code}</span>
+                    {recording.errors[0].message}
+                    {recording.errors[0].provider && ` (${recording.errors[0].stage} via ${recording.errors[0].provider})`}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={handleRetry}
+                disabled={isRetrying}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shrink-0"
+              >
+                {isRetrying ? 'Retrying...' : 'Retry processing'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {processingError && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+            <p className="text-red-800 dark:text-red-200 text-sm">{processingError}</p>
+          </div>
+        )}
+
+        {/* Audio Player */}
+        {recording.audioUrl && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+              <span className="mr-2">🎧</span>
+              Audio
+            </h2>
+            <audio
+              ref={audioRef}
+              controls
+              preload="metadata"
+              src={`/api/recordings/${recording.id}/audio`}
+              onTimeUpdate={(e) => setCurrentTimeMs(e.currentTarget.currentTime * 1000)}
+              onLoadedMetadata={(e) => {
+                // Links from search results open at their passage, e.g. ?t=90000
+                const startMs = Number(new URLSearchParams(window.location.search).get('t'));
+                if (startMs > 0) e.currentTarget.currentTime = startMs / 1000;
+              }}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        {/* Speakers Section */}
+        {speakers.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+              <span className="mr-2">🗣️</span>
+              Speakers
+            </h2>
+            {speakerError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-3">{speakerError}</p>
+            )}
+            <div className="space-y-3">
+              {speakers.map(speaker => (
+                <div key={speaker.id} className="flex items-center gap-3">
+                  <span
+                    className="w-3 h-3 rounded-full shrink-0"
+                    style={{ backgroundColor: speaker.color }}
+                  />
+                  <div className="w-48 shrink-0">
+                    {editingSpeakerId === speaker.id ? (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveSpeakerName(speaker);
+                        }}
+                        className="flex gap-2"
+                      >
+                        <input
+                          autoFocus
+                          value={speakerNameDraft}
+                          onChange={(e) => setSpeakerNameDraft(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Escape' && setEditingSpeakerId(null)}
+                          placeholder={speaker.label}
+                          maxLength={50}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                        <button
+                          type="submit"
+                          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Save
+                        </button>
+                      </form>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => startRenaming(speaker)}
+                        title="Rename speaker"
+                        className="text-sm font-medium text-gray-900 dark:text-white hover:underline text-left"
+                      >
+                        {speaker.displayName ?? speaker.label}
+                        {speaker.displayName && (
+                          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({speaker.label})</span>
+                        )}
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex-1 h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${Math.round(speaker.talkTimeShare * 100)}%`, backgroundColor: speaker.color }}
+                    />
+                  </div>
+                  <span className="text-sm text-gray-600 dark:text-gray-400 w-28 text-right shrink-0">
+                    {formatTimestamp(speaker.talkTimeMs)} · {Math.round(speaker.talkTimeShare * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {recording.transcript && (
+          <TranslationSwitcher
+            recordingId={recording.id}
+            sourceLanguage={recording.detectedLanguage ?? null}
+            transcript={recording.transcript ?? null}
+            summary={recording.summary ?? null}
+            disabled={recording.status === 'PROCESSING'}
+            selected={translation}
+            onSelect={(selected) => {
+              setTranslation(selected);
+              if (selected) setIsEditing(false);
+            }}
+          />
+        )}
+
         {/* Summary Section */}
         {recording.summary && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
@@ -242,28 +680,143 @@ export default function RecordingDetailPage() {
             </h2>
             <div className="prose dark:prose-invert max-w-none">
               <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
-                {recording.summary}
+                {translation?.summary ?? recording.summary}
               </div>
             </div>
           </div>
         )}
 
-        {/* Transcript Section */}
+        {recording.summary && (
+          <ActionItems
+            recordingId={recording.id}
+            speakers={speakers}
+            summary={recording.summary}
+            onSeek={seekTo}
+          />
+        )}
+
         {recording.transcript && (
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
-              <span className="mr-2">📝</span>
-              Full Transcript
-            </h2>
-            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
-              <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300 font-mono text-sm">
+          <ChatPanel
+            recordingId={recording.id}
+            segments={segments}
+            disabled={recording.status === 'PROCESSING'}
+            onSeek={seekTo}
+          />
+        )}
 
-                {recording.transcript}
+        {/* Transcript Section */}
+        {recording.transcript && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+                <span className="mr-2">📝</span>
+                Full Transcript
+                {translation && (
+                  <span className="ml-2 text-base font-normal text-gray-500 dark:text-gray-400">
+                    · {languageName(translation.language)}
+                  </span>
+                )}
+              </h2>
+              <div className="flex gap-3 text-sm">
+                {segments.length > 0 && !isEditing && !translation && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    disabled={recording.status === 'PROCESSING'}
+                    className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                  >
+                    Edit
+                  </button>
+                )}
+                <a
+                  href={`/api/recordings/${recording.id}/export?format=txt`}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Download .txt
+                </a>
+                {segments.length > 0 && (
+                  <a
+                    href={`/api/recordings/${recording.id}/export?format=srt`}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Download .srt
+                  </a>
+                )}
               </div>
             </div>
+            {isEditing ? (
+              <TranscriptEditor
+                recordingId={recording.id}
+                segments={segments}
+                speakers={speakers}
+                onSaved={handleSegmentsSaved}
+                onClose={() => setIsEditing(false)}
+              />
+            ) : (
+              <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+                {shownSegments.length > 0 ? (
+                  <div className="space-y-1 text-sm">
+                    {shownSegments.map((segment, i) => (
+                      <button
+                        key={segment.id}
+                        type="button"
+                        onClick={() => seekTo(segment.startMs)}
+                        disabled={!recording.audioUrl}
+                        title={recording.audioUrl ? 'Play from here' : undefined}
+                        className={`w-full text-left rounded px-2 py-1 flex gap-3 transition-colors enabled:hover:bg-gray-200 dark:enabled:hover:bg-gray-700 ${i === activeSegmentIndex
+                            ? 'bg-blue-100 dark:bg-blue-900/40'
+                            : ''
+                          }`}
+                      >
+                        <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">
+                          {formatTimestamp(segment.startMs)}
+                        </span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {segment.speaker && (
+                            <span
+                              className="font-semibold mr-1"
+                              style={{ color: speakersByLabel.get(segment.speaker)?.color }}
+                            >
+                              {speakersByLabel.get(segment.speaker)?.displayName ?? segment.speaker}:
+                            </span>
+                          )}
+                          {segment.text}
+                          {/* Only worth pointing out where the meeting switched language */}
+                          {segment.language && recording.detectedLanguage && segment.language !== recording.detectedLanguage && (
+                            <span className="ml-2 px-1.5 rounded text-xs uppercase bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300" title={languageName(segment.language)}>
+                              {segment.language}
+                            </span>
+                          )}
+                          {segment.edited && (
+                            <span className="ml-2 text-xs text-gray-400" title="Corrected by hand">edited</span>
+                          )}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300 font-mono text-sm">
+                    {translation?.transcript ?? recording.transcript}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
+        {hasRole(recording.role, 'EDITOR') && (
+          <ShareLinks recordingId={recording.id} />
+        )}
+
+        {(recording.transcript || recording.summary) && (
+          <VersionHistory
+            recordingId={recording.id}
+            transcript={recording.transcript ?? null}
+            summary={recording.summary ?? null}
+            disabled={recording.status === 'PROCESSING'}
+            onRestored={handleVersionRestored}
+          />
+        )}
+
         {/* No Content Message */}
         {!recording.summary && !recording.transcript && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
@@ -5,7 +5,9 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth, useAuthInit } from '../../hooks/useAuth';
 import { useRecordings } from '../../hooks/useRecording';
+import { useSummaryTemplates, DEFAULT_TEMPLATE_ID } from '../../hooks/useSummaryTemplates';
 import { useSocketContext } from '../../context/socket';
+import { AUTO_LANGUAGE, LANGUAGE_OPTIONS } from '../../../lib/language';
 
 interface RecordingSession {
     id: string;
@@ -27,11 +29,17 @@ export default function NewRecordingPage() {
     const [currentSession, setCurrentSession] = useState<RecordingSession | null>(null);
     const [recordingMode, setRecordingMode] = useState<'microphone' | 'screen'>('microphone');
     const [transcript, setTranscript] = useState('');
+    const [partialTranscript, setPartialTranscript] = useState('');
     const [summary, setSummary] = useState('');
     const [recordingTime, setRecordingTime] = useState(0);
+    // Empty means the language from settings / the language spoken
+    const [language, setLanguage] = useState('');
+    const [summaryLanguage, setSummaryLanguage] = useState('');
+    const [summaryTemplateId, setSummaryTemplateId] = useState(DEFAULT_TEMPLATE_ID);
 
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
+    const pendingSendRef = useRef<Promise<void>>(Promise.resolve()); // Keeps chunk sends in order
     const streamRef = useRef<MediaStream | null>(null);
     const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
     const mimeTypeRef = useRef<string>('');
@@ -39,6 +47,7 @@ export default function NewRecordingPage() {
     const isMountedRef = useRef<boolean>(true); // Track component mount status
 
     const { createRecording } = useRecordings();
+    const { templates } = useSummaryTemplates(isAuthenticated);
     const { isConnected, emit, on, off } = useSocketContext();
 
     // Track mounted state
@@ -242,7 +251,11 @@ export default function NewRecordingPage() {
             const title = prompt('Enter recording title:') || `Recording ${new Date().toLocaleString()}`;
             console.log('Creating recording with title:', title);
 
-            const newRecording = await createRecording(title);
+            const newRecording = await createRecording(title, {
+                ...(language && { language }),
+                ...(summaryLanguage && { summaryLanguage }),
+                ...(summaryTemplateId !== DEFAULT_TEMPLATE_ID && { summaryTemplateId })
+            });
             if (!newRecording) {
                 throw new Error('Failed to create recording');
             }
@@ -284,12 +297,15 @@ export default function NewRecordingPage() {
                     console.log('Audio chunk captured:', event.data.size, 'bytes');
                     audioChunksRef.current.push(event.data);
 
-                    event.data.arrayBuffer().then(buffer => {
+                    const data = event.data;
+                    pendingSendRef.current = pendingSendRef.current.then(async () => {
+                        const buffer = await data.arrayBuffer();
                         console.log('Sending audio chunk to server');
                         const sent = emit('audio-chunk', {
                             recordingId: newRecording.id,
                             chunk: buffer,
-                            isFinal: false
+                            isFinal: false,
+                            mimeType: mimeTypeRef.current || 'audio/webm'
                         });
                         console.log('Audio chunk sent:', sent ? 'yes' : 'no');
                     }).catch(err => {
@@ -301,38 +317,19 @@ export default function NewRecordingPage() {
             mediaRecorder.onstop = () => {
                 console.log('MediaRecorder.onstop triggered');
                 console.log('Total chunks collected:', audioChunksRef.current.length);
-                
-                if (audioChunksRef.current.length > 0) {
-                    const finalBlob = new Blob(audioChunksRef.current, { 
-                        type: mimeTypeRef.current || 'audio/webm' 
-                    });
-                    console.log('Final blob size:', finalBlob.size, 'bytes');
-                    
-                    finalBlob.arrayBuffer().then(buffer => {
-                        console.log('Sending final audio chunk');
-                        emit('audio-chunk', {
-                            recordingId: newRecording.id,
-                            chunk: buffer,
-                            isFinal: true
-                        });
-                        
-                        // Send complete signal after final chunk
-                        setTimeout(() => {
-                            console.log('Emitting complete-recording');
-                            emit('complete-recording', {
-                                recordingId: newRecording.id
-                            });
-                        }, 500);
-                    }).catch(err => {
-                        console.error(' Error sending final chunk:', err);
-                    });
-                } else {
+
+                if (audioChunksRef.current.length === 0) {
                     console.warn('No audio chunks were collected!');
-                    // Still try to complete
+                }
+
+                // Every chunk has already been streamed to the server, which stores
+                // them as they arrive; complete once the last send has gone out
+                pendingSendRef.current.then(() => {
+                    console.log('Emitting complete-recording');
                     emit('complete-recording', {
                         recordingId: newRecording.id
                     });
-                }
+                });
 
                 // Clear the chunks
                 audioChunksRef.current = [];
@@ -364,6 +361,7 @@ export default function NewRecordingPage() {
             });
 
             setTranscript('');
+            setPartialTranscript('');
             setSummary('');
 
             console.log('Recording started successfully');
@@ -445,14 +443,23 @@ export default function NewRecordingPage() {
         }) => {
             console.log('Transcription update:', data);
             if (currentSession && data.recordingId === currentSession.id) {
+                // Interim text is replaced on every update until its window is committed
+                if (!data.isFinal) {
+                    setPartialTranscript(data.text);
+                    return;
+                }
+
+                setPartialTranscript('');
+                if (!data.text) return;
+
                 setTranscript(prev => {
-                    const newTranscript = prev + (prev ? ' ' : '') + data.text;
+                    const newTranscript = prev + (prev ? '\n' : '') + data.text;
                     return newTranscript;
                 });
 
                 setCurrentSession(prev => prev ? {
                     ...prev,
-                    transcript: prev.transcript + (prev.transcript ? ' ' : '') + data.text
+                    transcript: prev.transcript + (prev.transcript ? '\n' : '') + data.text
                 } : null);
             }
         };
@@ -696,6 +703,62 @@ export default function NewRecordingPage() {
                         </div>
                     </div>
 
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                        <div>
+                            <label htmlFor="language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Spoken language
+                            </label>
+                            <select
+                                id="language"
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value)}
+                                disabled={isRecording}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                            >
+                                <option value="">Default from settings</option>
+                                <option value={AUTO_LANGUAGE}>Detect automatically</option>
+                                {LANGUAGE_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="summaryLanguage" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Summary language
+                            </label>
+                            <select
+                                id="summaryLanguage"
+                                value={summaryLanguage}
+                                onChange={(e) => setSummaryLanguage(e.target.value)}
+                                disabled={isRecording}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                            >
+                                <option value="">Same as spoken</option>
+                                {LANGUAGE_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="summaryTemplate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Summary template
+                            </label>
+                            <select
+                                id="summaryTemplate"
+                                value={summaryTemplateId}
+                                onChange={(e) => setSummaryTemplateId(e.target.value)}
+                                disabled={isRecording}
+                                title={templates.find(template => template.id === summaryTemplateId)?.description ?? undefined}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                            >
+                                {templates.length === 0 && <option value={DEFAULT_TEMPLATE_ID}>General meeting</option>}
+                                {templates.map(template => (
+                                    <option key={template.id} value={template.id}>{template.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
                     {currentSession && (
                         <div className="border-t pt-4 dark:border-gray-700">
                             <div className="flex justify-between items-center mb-4">
@@ -711,11 +774,18 @@ export default function NewRecordingPage() {
                                 </span>
                             </div>
 
-                            {transcript && (
+                            {(transcript || partialTranscript) && (
                                 <div className="mb-4">
                                     <h4 className="font-medium text-gray-900 dark:text-white mb-2">Live Transcript</h4>
                                     <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 max-h-48 overflow-y-auto">
-                                        <div className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">{transcript}</div>
+                                        <div className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+                                            {transcript}
+                                            {partialTranscript && (
+                                                <span className="text-gray-400 dark:text-gray-500 italic">
+                                                    {transcript ? '\n' : ''}{partialTranscript}
+                                                </span>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             )}
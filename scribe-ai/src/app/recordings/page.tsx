@@ -1,20 +1,82 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth, useAuthInit } from '../hooks/useAuth';
-import { Recording, useRecordings } from '../hooks/useRecording';
+import {
+    BulkRecordingUpdate,
+    Recording,
+    RecordingFilters,
+    filtersFromSearchParams,
+    filtersToSearchParams,
+    useRecordings
+} from '../hooks/useRecording';
+import { Folder, useFolders } from '../hooks/useFolders';
+import { Tag, useTags } from '../hooks/useTags';
+import RecordingsToolbar from './RecordingsToolbar';
+import LibrarySidebar, { DropTarget, RECORDINGS_DRAG_TYPE } from './LibrarySidebar';
+import BulkActions from './BulkActions';
+import WorkspaceSwitcher from '../dashboard/WorkspaceSwitcher';
 
+const PAGE_SIZE = 20;
+
+const Spinner = () => (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600 dark:text-gray-400">Loading...</p>
+        </div>
+    </div>
+);
+
+// Filters live in the URL (useSearchParams), which needs a Suspense boundary
 export default function RecordingsPage() {
+    return (
+        <Suspense fallback={<Spinner />}>
+            <RecordingsList />
+        </Suspense>
+    );
+}
+
+function RecordingsList() {
     const { user, isAuthenticated } = useAuth();
     const { isLoading } = useAuthInit();
     const router = useRouter();
+    const searchParams = useSearchParams();
     const [recordings, setRecordings] = useState<Recording[]>([]);
     const [isLoadingRecordings, setIsLoadingRecordings] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [error, setError] = useState<string>('');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    // Bumped to reload the list after recordings are moved or tagged
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    const {
+        fetchRecordings,
+        retryProcessing,
+        bulkUpdateRecordings,
+        pagination,
+        error: fetchError
+    } = useRecordings({ limit: PAGE_SIZE });
+    const { folders, unfiledCount, fetchFolders, createFolder, updateFolder, deleteFolder, error: folderError } = useFolders(isAuthenticated);
+    const { tags, fetchTags, createTag, deleteTag, error: tagError } = useTags(isAuthenticated);
+
+    const filterString = filtersToSearchParams(filtersFromSearchParams(searchParams)).toString();
+    const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(filterString)), [filterString]);
+    const hasFilters = filterString !== '';
+
+    // A selection only makes sense for the list it was made in
+    const [selectionFilters, setSelectionFilters] = useState(filterString);
+    if (selectionFilters !== filterString) {
+        setSelectionFilters(filterString);
+        setSelected(new Set());
+    }
 
-    const { fetchRecordings } = useRecordings();
+    const updateFilters = useCallback((next: RecordingFilters) => {
+        const params = filtersToSearchParams(next).toString();
+        router.replace(params ? `/recordings?${params}` : '/recordings', { scroll: false });
+    }, [router]);
 
     useEffect(() => {
         if (!isLoading && !isAuthenticated) {
@@ -30,8 +92,8 @@ export default function RecordingsPage() {
             setError('');
 
             try {
-                const userRecordings: Recording[] = await fetchRecordings();
-                setRecordings(userRecordings); 
+                const userRecordings: Recording[] = await fetchRecordings(filters);
+                setRecordings(userRecordings);
             } catch (error) {
                 console.error('Failed to fetch recordings:', error);
                 setError('Failed to load recordings');
@@ -41,7 +103,100 @@ export default function RecordingsPage() {
         };
 
         loadRecordings();
-    }, [isAuthenticated, fetchRecordings]);
+    }, [isAuthenticated, fetchRecordings, filters, refreshKey]);
+
+    // Moved or tagged recordings may no longer match the filters, so the list reloads
+    const applyUpdate = async (update: BulkRecordingUpdate) => {
+        setError('');
+
+        if (await bulkUpdateRecordings(update)) {
+            setSelected(new Set());
+            setRefreshKey(key => key + 1);
+            fetchFolders();
+            fetchTags();
+        }
+    };
+
+    const handleDrop = (recordingIds: string[], target: DropTarget) => {
+        applyUpdate('tagId' in target
+            ? { recordingIds, addTagIds: [target.tagId] }
+            : { recordingIds, folderId: target.folderId });
+    };
+
+    const handleAddNewTag = async (name: string) => {
+        const tag = await createTag(name);
+        if (tag) await applyUpdate({ recordingIds: [...selected], addTagIds: [tag.id] });
+    };
+
+    const handleUpdateFolder = async (id: string, updates: { name?: string; parentId?: string | null }) => {
+        if (!await updateFolder(id, updates)) setError('Failed to update folder');
+    };
+
+    const handleDeleteFolder = async (folder: Folder) => {
+        if (!confirm(`Delete the folder "${folder.name}"? Its recordings and subfolders move up a level.`)) return;
+
+        if (await deleteFolder(folder.id)) {
+            if (filters.folder === folder.id) updateFilters({ ...filters, folder: undefined });
+            else setRefreshKey(key => key + 1);
+        }
+    };
+
+    const handleDeleteTag = async (tag: Tag) => {
+        if (!confirm(`Delete the tag "${tag.name}"? It's removed from every recording.`)) return;
+
+        if (await deleteTag(tag.id)) {
+            const remaining = filters.tag?.filter(id => id !== tag.id);
+            if (remaining?.length !== filters.tag?.length) {
+                updateFilters({ ...filters, tag: remaining?.length ? remaining : undefined });
+            } else {
+                setRefreshKey(key => key + 1);
+            }
+        }
+    };
+
+    const toggleSelected = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    // Dragging a selected row carries the whole selection along
+    const handleDragStart = (e: React.DragEvent, id: string) => {
+        const ids = selected.has(id) ? [...selected] : [id];
+        e.dataTransfer.setData(RECORDINGS_DRAG_TYPE, JSON.stringify(ids));
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const toggleTagFilter = (e: React.MouseEvent, tagId: string) => {
+        // The whole row navigates to the recording
+        e.stopPropagation();
+        if (filters.tag?.includes(tagId)) return;
+        updateFilters({ ...filters, tag: [...(filters.tag ?? []), tagId] });
+    };
+
+    const handleLoadMore = async () => {
+        if (!pagination.nextCursor) return;
+
+        setIsLoadingMore(true);
+        const more = await fetchRecordings(filters, pagination.nextCursor);
+        setRecordings(prev => [...prev, ...more]);
+        setIsLoadingMore(false);
+    };
+
+    const handleRetry = async (e: React.MouseEvent, id: string) => {
+        // The whole row navigates to the recording
+        e.stopPropagation();
+        setError('');
+
+        if (await retryProcessing(id)) {
+            setRecordings(prev => prev.map(rec =>
+                rec.id === id ? { ...rec, status: 'PROCESSING' } : rec
+            ));
+        } else {
+            setError('Failed to retry processing');
+        }
+    };
 
     const formatDuration = (seconds: number | null) => {
         if (!seconds) return '0:00';
@@ -69,6 +224,8 @@ export default function RecordingsPage() {
                 return 'bg-blue-500';
             case 'COMPLETED':
                 return 'bg-green-500';
+            case 'FAILED':
+                return 'bg-red-700';
             default:
                 return 'bg-gray-500';
         }
@@ -84,20 +241,15 @@ export default function RecordingsPage() {
                 return 'Processing';
             case 'COMPLETED':
                 return 'Completed';
+            case 'FAILED':
+                return 'Failed';
             default:
                 return 'Unknown';
         }
     };
 
     if (isLoading) {
-        return (
-            <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-                <div className="text-center">
-                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-                    <p className="mt-4 text-gray-600 dark:text-gray-400">Loading...</p>
-                </div>
-            </div>
-        );
+        return <Spinner />;
     }
 
     if (!isAuthenticated) {
@@ -137,6 +289,7 @@ export default function RecordingsPage() {
                         </div>
 
                         <div className="flex items-center space-x-4">
+                            <WorkspaceSwitcher />
                             <Link
                                 href="/recordings/new"
                                 className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
@@ -151,7 +304,7 @@ export default function RecordingsPage() {
                 </div>
             </header>
 
-            <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
                 {/* Header */}
                 <div className="mb-8">
                     <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
@@ -162,97 +315,205 @@ export default function RecordingsPage() {
                     </p>
                 </div>
 
-                {error && (
-                    <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-                        <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
-                    </div>
-                )}
+                <div className="flex flex-col lg:flex-row gap-8">
+                    <LibrarySidebar
+                        folders={folders}
+                        unfiledCount={unfiledCount}
+                        tags={tags}
+                        filters={filters}
+                        onChange={updateFilters}
+                        onDropRecordings={handleDrop}
+                        onCreateFolder={createFolder}
+                        onUpdateFolder={handleUpdateFolder}
+                        onDeleteFolder={handleDeleteFolder}
+                        onDeleteTag={handleDeleteTag}
+                    />
 
-                {isLoadingRecordings ? (
-                    <div className="flex justify-center py-12">
-                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                    </div>
-                ) : recordings.length > 0 ? (
-                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
-                        {/* Table Header */}
-                        <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                            <div className="col-span-5">Title</div>
-                            <div className="col-span-2">Status</div>
-                            <div className="col-span-2">Duration</div>
-                            <div className="col-span-3">Created</div>
-                        </div>
+                    <div className="flex-1 min-w-0">
+                        <RecordingsToolbar
+                            filters={filters}
+                            total={isLoadingRecordings ? null : pagination.total}
+                            onChange={updateFilters}
+                        />
 
-                        {/* Recordings List */}
-                        <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                            {recordings.map((recording) => (
-                                <div
-                                    key={recording.id}
-                                    className="grid grid-cols-12 gap-4 px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer"
-                                    onClick={() => router.push(`/recordings/${recording.id}`)}
-                                >
-                                    <div className="col-span-5">
-                                        <div className="flex items-center space-x-3">
-                                            <div className={`w-2 h-2 rounded-full ${getStatusColor(recording.status)}`}></div>
-                                            <div>
-                                                <h3 className="font-medium text-gray-900 dark:text-white">
-                                                    {recording.title}
-                                                </h3>
-                                                {recording.transcript && (
-                                                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate max-w-md">
-                                                        {recording.transcript.slice(0, 100)}...
-                                                    </p>
+                        {(error || fetchError || folderError || tagError) && (
+                            <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                                <p className="text-red-800 dark:text-red-200 text-sm">{error || fetchError || folderError || tagError}</p>
+                            </div>
+                        )}
+
+                        {selected.size > 0 && (
+                            <BulkActions
+                                count={selected.size}
+                                folders={folders}
+                                tags={tags}
+                                onMove={(folderId) => applyUpdate({ recordingIds: [...selected], folderId })}
+                                onAddTag={(tagId) => applyUpdate({ recordingIds: [...selected], addTagIds: [tagId] })}
+                                onAddNewTag={handleAddNewTag}
+                                onRemoveTag={(tagId) => applyUpdate({ recordingIds: [...selected], removeTagIds: [tagId] })}
+                                onClear={() => setSelected(new Set())}
+                            />
+                        )}
+
+                        {isLoadingRecordings ? (
+                            <div className="flex justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                            </div>
+                        ) : recordings.length > 0 ? (
+                            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                                {/* Table Header */}
+                                <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                                    <div className="col-span-5 flex items-center gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={recordings.length > 0 && recordings.every(rec => selected.has(rec.id))}
+                                            onChange={(e) => setSelected(e.target.checked ? new Set(recordings.map(rec => rec.id)) : new Set())}
+                                            aria-label="Select all"
+                                            className="rounded border-gray-300 dark:border-gray-600"
+                                        />
+                                        Title
+                                    </div>
+                                    <div className="col-span-2">Status</div>
+                                    <div className="col-span-2">Duration</div>
+                                    <div className="col-span-3">Created</div>
+                                </div>
+
+                                {/* Recordings List */}
+                                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {recordings.map((recording) => (
+                                        <div
+                                            key={recording.id}
+                                            draggable
+                                            onDragStart={(e) => handleDragStart(e, recording.id)}
+                                            className={`grid grid-cols-12 gap-4 px-6 py-4 transition-colors cursor-pointer ${selected.has(recording.id)
+                                                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                                                    : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                                                }`}
+                                            onClick={() => router.push(`/recordings/${recording.id}`)}
+                                        >
+                                            <div className="col-span-5">
+                                                <div className="flex items-center space-x-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selected.has(recording.id)}
+                                                        onClick={(e) => e.stopPropagation()}
+                                                        onChange={() => toggleSelected(recording.id)}
+                                                        aria-label={`Select ${recording.title}`}
+                                                        className="rounded border-gray-300 dark:border-gray-600"
+                                                    />
+                                                    <div className={`w-2 h-2 rounded-full shrink-0 ${getStatusColor(recording.status)}`}></div>
+                                                    <div className="min-w-0">
+                                                        <h3 className="font-medium text-gray-900 dark:text-white">
+                                                            {recording.title}
+                                                        </h3>
+                                                        {recording.tags && recording.tags.length > 0 && (
+                                                            <div className="mt-1 flex flex-wrap gap-1">
+                                                                {recording.tags.map(tag => (
+                                                                    <button
+                                                                        key={tag.id}
+                                                                        onClick={(e) => toggleTagFilter(e, tag.id)}
+                                                                        className="px-2 py-0.5 rounded-full text-xs font-medium text-white hover:opacity-80"
+                                                                        style={{ backgroundColor: tag.color }}
+                                                                    >
+                                                                        {tag.name}
+                                                                    </button>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                        {recording.status === 'FAILED' && recording.errors?.[0] ? (
+                                                            <p className="text-sm text-red-600 dark:text-red-400 truncate max-w-md">
+                                                                {recording.errors[0].message}
+                                                            </p>
+                                                        ) : recording.transcript && (
+                                                            <p className="text-sm text-gray-500 dark:text-gray-400 truncate max-w-md">
+                                                                {recording.transcript.slice(0, 100)}...
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            </div>
+
+                                            <div className="col-span-2">
+                                                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${recording.status === 'COMPLETED'
+                                                        ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                                                        : recording.status === 'PROCESSING'
+                                                            ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                                                            : recording.status === 'RECORDING' || recording.status === 'FAILED'
+                                                                ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                                                                : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                                                    }`}>
+                                                    {getStatusText(recording.status)}
+                                                </span>
+                                                {recording.status === 'FAILED' && (
+                                                    <button
+                                                        onClick={(e) => handleRetry(e, recording.id)}
+                                                        className="ml-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                                                    >
+                                                        Retry
+                                                    </button>
                                                 )}
                                             </div>
-                                        </div>
-                                    </div>
 
-                                    <div className="col-span-2">
-                                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${recording.status === 'COMPLETED'
-                                                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                                                : recording.status === 'PROCESSING'
-                                                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                                                    : recording.status === 'RECORDING'
-                                                        ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-                                                        : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                                            }`}>
-                                            {getStatusText(recording.status)}
-                                        </span>
-                                    </div>
+                                            <div className="col-span-2">
+                                                <span className="text-sm text-gray-500 dark:text-gray-400">
+                                                    {formatDuration(recording.duration)}
+                                                </span>
+                                            </div>
 
-                                    <div className="col-span-2">
-                                        <span className="text-sm text-gray-500 dark:text-gray-400">
-                                            {formatDuration(recording.duration)}
-                                        </span>
-                                    </div>
+                                            <div className="col-span-3">
+                                                <span className="text-sm text-gray-500 dark:text-gray-400">
+                                                    {formatDate(recording.createdAt)}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
 
-                                    <div className="col-span-3">
-                                        <span className="text-sm text-gray-500 dark:text-gray-400">
-                                            {formatDate(recording.createdAt)}
-                                        </span>
+                                {pagination.hasMore && (
+                                    <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 text-center">
+                                        <button
+                                            onClick={handleLoadMore}
+                                            disabled={isLoadingMore}
+                                            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                                        >
+                                            {isLoadingMore ? 'Loading...' : 'Load more'}
+                                        </button>
                                     </div>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
-                ) : (
-                    <div className="text-center py-12">
-                        <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                            No recordings yet
-                        </h3>
-                        <p className="text-gray-500 dark:text-gray-400 mb-6">
-                            Get started by creating your first recording session.
-                        </p>
-                        <Link
-                            href="/recordings/new"
-                            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-                        >
-                            + New Recording
-                        </Link>
+                                )}
+                            </div>
+                        ) : hasFilters ? (
+                            <div className="text-center py-12">
+                                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                                    No recordings match these filters
+                                </h3>
+                                <button
+                                    onClick={() => updateFilters({})}
+                                    className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                    Clear filters
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="text-center py-12">
+                                <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                                    No recordings yet
+                                </h3>
+                                <p className="text-gray-500 dark:text-gray-400 mb-6">
+                                    Get started by creating your first recording session.
+                                </p>
+                                <Link
+                                    href="/recordings/new"
+                                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                                >
+                                    + New Recording
+                                </Link>
+                            </div>
+                        )}
                     </div>
-                )}
+                </div>
             </main>
         </div>
     );
@@ -0,0 +1,173 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useGlossary, GlossaryTerm } from '../hooks/useGlossary';
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+interface GlossaryEditorProps {
+  // Edits the workspace's shared terms instead of the user's own
+  workspaceId?: string | null;
+  readOnly?: boolean;
+}
+
+// Add, change and remove glossary terms; `editingTermId` is set while changing an existing one
+export default function GlossaryEditor({ workspaceId = null, readOnly = false }: GlossaryEditorProps) {
+  const { terms, error, addTerm, updateTerm, deleteTerm } = useGlossary(true, workspaceId);
+  const [termForm, setTermForm] = useState({ term: '', variants: '', phonetic: '' });
+  const [editingTermId, setEditingTermId] = useState<string | null>(null);
+  const id = useId();
+
+  const resetTermForm = () => {
+    setTermForm({ term: '', variants: '', phonetic: '' });
+    setEditingTermId(null);
+  };
+
+  const handleTermSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = {
+      term: termForm.term.trim(),
+      variants: termForm.variants.split(',').map(variant => variant.trim()).filter(Boolean),
+      phonetic: termForm.phonetic.trim() || null,
+    };
+
+    const success = editingTermId
+      ? await updateTerm(editingTermId, input)
+      : await addTerm(input);
+
+    if (success) resetTermForm();
+  };
+
+  const handleEditTerm = (term: GlossaryTerm) => {
+    setEditingTermId(term.id);
+    setTermForm({
+      term: term.term,
+      variants: term.variants.join(', '),
+      phonetic: term.phonetic ?? '',
+    });
+  };
+
+  const handleDeleteTerm = async (term: GlossaryTerm) => {
+    const glossaryName = workspaceId ? "the workspace's glossary" : 'your glossary';
+    if (!confirm(`Remove "${term.term}" from ${glossaryName}?`)) return;
+
+    await deleteTerm(term.id);
+    if (editingTermId === term.id) resetTermForm();
+  };
+
+  return (
+    <div>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleTermSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <div>
+            <label htmlFor={`${id}-term`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Term
+            </label>
+            <input
+              id={`${id}-term`}
+              type="text"
+              value={termForm.term}
+              onChange={(e) => setTermForm({ ...termForm, term: e.target.value })}
+              placeholder="ScribeAI"
+              maxLength={100}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor={`${id}-variants`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Common misspellings
+            </label>
+            <input
+              id={`${id}-variants`}
+              type="text"
+              value={termForm.variants}
+              onChange={(e) => setTermForm({ ...termForm, variants: e.target.value })}
+              placeholder="scribe ai, scribe eye"
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Comma-separated
+            </p>
+          </div>
+          <div>
+            <label htmlFor={`${id}-phonetic`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Sounds like <span className="text-gray-400">(optional)</span>
+            </label>
+            <input
+              id={`${id}-phonetic`}
+              type="text"
+              value={termForm.phonetic}
+              onChange={(e) => setTermForm({ ...termForm, phonetic: e.target.value })}
+              placeholder="skribe A I"
+              maxLength={200}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end gap-3">
+            {editingTermId && (
+              <button
+                type="button"
+                onClick={resetTermForm}
+                className="px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+            >
+              {editingTermId ? 'Save Term' : 'Add Term'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No terms yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {terms.map(term => (
+            <li key={term.id} className="py-3 flex justify-between items-start gap-4">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {term.term}
+                  {term.phonetic && (
+                    <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">/{term.phonetic}/</span>
+                  )}
+                </p>
+                {term.variants.length > 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Replaces: {term.variants.join(', ')}
+                  </p>
+                )}
+              </div>
+              {!readOnly && (
+                <div className="flex gap-3 text-sm shrink-0">
+                  <button
+                    onClick={() => handleEditTerm(term)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTerm(term)}
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
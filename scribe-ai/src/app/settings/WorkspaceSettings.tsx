@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { hasRole, useWorkspaces, WORKSPACE_ROLES, WorkspaceRole } from '../hooks/useWorkspaces';
+import { useWorkspaceMembers } from '../hooks/useWorkspaceMembers';
+import GlossaryEditor from './GlossaryEditor';
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  EDITOR: 'Editor',
+  VIEWER: 'Viewer'
+};
+
+const inputClass = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+interface WorkspaceSettingsProps {
+  userId: string;
+}
+
+// Settings for the active workspace: its name, members, invitations and glossary
+export default function WorkspaceSettings({ userId }: WorkspaceSettingsProps) {
+  const { activeWorkspace } = useWorkspaces();
+  const {
+    workspace,
+    members,
+    invitations,
+    error,
+    renameWorkspace,
+    deleteWorkspace,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember
+  } = useWorkspaceMembers(activeWorkspace?.id ?? null);
+
+  const [name, setName] = useState<string | null>(null);
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: WorkspaceRole }>({ email: '', role: 'EDITOR' });
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  if (!workspace) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400">Loading workspace...</p>
+    );
+  }
+
+  const isAdmin = hasRole(workspace.role, 'ADMIN');
+  const isOwner = workspace.role === 'OWNER';
+  // Admins may hand out any role but owner
+  const assignableRoles = WORKSPACE_ROLES.filter(role => isOwner || role !== 'OWNER');
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name === null || !name.trim()) return;
+    if (await renameWorkspace(name.trim())) setName(null);
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${workspace.name}" and every recording in it? This cannot be undone.`)) return;
+    if (await deleteWorkspace()) window.location.reload();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await inviteMember(inviteForm.email.trim(), inviteForm.role)) {
+      setInviteForm({ ...inviteForm, email: '' });
+    }
+  };
+
+  const handleRemove = async (memberId: string, memberUserId: string) => {
+    const leaving = memberUserId === userId;
+    if (!confirm(leaving ? `Leave "${workspace.name}"?` : 'Remove this member from the workspace?')) return;
+    // Leaving takes away access to everything here, so start over elsewhere
+    if (await removeMember(memberId) && leaving) window.location.reload();
+  };
+
+  const copyInviteLink = async (id: string, token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/invite/${token}`);
+    setCopiedId(id);
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+        Workspace
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Recordings, tags and folders belong to the workspace and are shared with its members. Viewers can read and chat, editors can record and edit, admins manage members.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      <form onSubmit={handleRename} className="flex gap-3 mb-8">
+        <input
+          type="text"
+          value={name ?? workspace.name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={!isOwner}
+          maxLength={100}
+          className={`flex-1 ${inputClass} disabled:opacity-60`}
+        />
+        {isOwner && (
+          <button
+            type="submit"
+            disabled={name === null || name.trim() === workspace.name}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+          >
+            Rename
+          </button>
+        )}
+      </form>
+
+      <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+        Members
+      </h4>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 mb-8">
+        {members.map(member => {
+          const isSelf = member.user.id === userId;
+          // Admins can't touch owners; owners can change anyone
+          const canManage = isAdmin && (isOwner || member.role !== 'OWNER');
+
+          return (
+            <li key={member.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {member.user.name || member.user.email}{isSelf && ' (you)'}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{member.user.email}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                {canManage ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => updateMemberRole(member.id, e.target.value as WorkspaceRole)}
+                    className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {assignableRoles.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{ROLE_LABELS[member.role]}</span>
+                )}
+                {(canManage || isSelf) && (
+                  <button
+                    onClick={() => handleRemove(member.id, member.user.id)}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    {isSelf ? 'Leave' : 'Remove'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {isAdmin && (
+        <>
+          <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+            Invite people
+          </h4>
+          <form onSubmit={handleInvite} className="flex gap-3 mb-6">
+            <input
+              type="email"
+              value={inviteForm.email}
+              onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+              placeholder="colleague@example.com"
+              className={`flex-1 ${inputClass}`}
+              required
+            />
+            <select
+              value={inviteForm.role}
+              onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as WorkspaceRole })}
+              className={inputClass}
+            >
+              {assignableRoles.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+            >
+              Invite
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 mb-8">
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm text-gray-900 dark:text-white">{invitation.email}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => copyInviteLink(invitation.id, invitation.token)}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {copiedId === invitation.id ? 'Copied' : 'Copy link'}
+                    </button>
+                    <button
+                      onClick={() => revokeInvitation(invitation.id)}
+                      className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+        Glossary
+      </h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Applied to every recording in this workspace, together with the vocabulary of whoever made it. Their own spelling of a term wins.
+      </p>
+      <div className="mb-8">
+        <GlossaryEditor workspaceId={workspace.id} readOnly={!isAdmin} />
+      </div>
+
+      {isOwner && (
+        <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={handleDelete}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Delete workspace
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth, useAuthInit, useAuthActions } from '../hooks/useAuth';
 import { useUserSettings } from '../hooks/useUserSettings';
+import { useSummaryTemplates, SummaryTemplate } from '../hooks/useSummaryTemplates';
+import { AUTO_LANGUAGE, LANGUAGE_OPTIONS } from '../../lib/language';
+import { hasRole, useWorkspaces } from '../hooks/useWorkspaces';
+import WorkspaceSettings from './WorkspaceSettings';
+import GlossaryEditor from './GlossaryEditor';
 
 export default function Settings() {
   const { user, isAuthenticated } = useAuth();
@@ -18,12 +23,25 @@ export default function Settings() {
     successMessage,
     updateProfile,
     updatePassword,
+    getPreferences,
     updatePreferences,
     deleteAccount,
     clearMessages
   } = useUserSettings();
 
-  const [activeTab, setActiveTab] = useState<'profile' | 'account'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'vocabulary' | 'templates' | 'workspace' | 'account'>('profile');
+
+  const {
+    templates,
+    error: templatesError,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate
+  } = useSummaryTemplates(isAuthenticated);
+
+  // Admins may share templates with the active workspace and change shared ones
+  const { activeWorkspace } = useWorkspaces(isAuthenticated);
+  const canManageShared = hasRole(activeWorkspace?.role, 'ADMIN');
 
   // Profile form
   const [profileForm, setProfileForm] = useState({
@@ -46,6 +64,13 @@ export default function Settings() {
     theme: 'system',
   });
 
+  // Summary template form; sections are "Title: description" lines and the
+  // schema is JSON text, parsed on submit
+  const emptyTemplateForm = { name: '', description: '', prompt: '', sections: '', schema: '', shared: false };
+  const [templateForm, setTemplateForm] = useState(emptyTemplateForm);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [templateFormError, setTemplateFormError] = useState<string | null>(null);
+
   const isLoading = authLoading || settingsLoading;
 
   // Check authentication
@@ -69,6 +94,14 @@ export default function Settings() {
     setProfileForm(initialProfile);
   }, [initialProfile]);
 
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    getPreferences().then(preferences => {
+      if (preferences) setPreferencesForm(preferences);
+    });
+  }, [isAuthenticated, getPreferences]);
+
   const handleSignOut = async () => {
     await signOut();
     router.push('/login');
@@ -104,7 +137,80 @@ export default function Settings() {
 
   const handlePreferencesSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await updatePreferences(preferencesForm);
+    const success = await updatePreferences(preferencesForm);
+
+    // The layout sets the theme on load; apply the new one without a reload
+    if (success) document.documentElement.dataset.theme = preferencesForm.theme;
+  };
+
+  const resetTemplateForm = () => {
+    setTemplateForm(emptyTemplateForm);
+    setEditingTemplateId(null);
+    setTemplateFormError(null);
+  };
+
+  const handleTemplateSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTemplateFormError(null);
+
+    let schema: Record<string, unknown> | null = null;
+    if (templateForm.schema.trim()) {
+      try {
+        schema = JSON.parse(templateForm.schema);
+      } catch {
+        setTemplateFormError('The JSON schema is not valid JSON');
+        return;
+      }
+    }
+
+    const input = {
+      name: templateForm.name.trim(),
+      description: templateForm.description.trim() || null,
+      prompt: templateForm.prompt.trim(),
+      sections: templateForm.sections
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+          const [title, ...description] = line.split(':');
+          return { title: title.trim(), description: description.join(':').trim() };
+        }),
+      schema,
+    };
+
+    const success = editingTemplateId
+      ? await updateTemplate(editingTemplateId, input)
+      : await addTemplate(input, templateForm.shared);
+
+    if (success) resetTemplateForm();
+  };
+
+  const canEditTemplate = (template: SummaryTemplate) =>
+    !template.builtIn && (!template.shared || canManageShared);
+
+  // Built-ins, and shared templates for non-admins, are copied into a new
+  // template rather than edited
+  const handleEditTemplate = (template: SummaryTemplate) => {
+    const editable = canEditTemplate(template);
+    setEditingTemplateId(editable ? template.id : null);
+    setTemplateFormError(null);
+    setTemplateForm({
+      shared: editable && !!template.shared,
+      name: editable ? template.name : `${template.name} (copy)`,
+      description: template.description ?? '',
+      prompt: template.prompt,
+      sections: template.sections
+        .map(section => section.description ? `${section.title}: ${section.description}` : section.title)
+        .join('\n'),
+      schema: template.schema ? JSON.stringify(template.schema, null, 2) : '',
+    });
+  };
+
+  const handleDeleteTemplate = async (template: SummaryTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Recordings using it switch to the general template.`)) return;
+
+    await deleteTemplate(template.id);
+    if (editingTemplateId === template.id) resetTemplateForm();
   };
 
   const handleDeleteAccount = async () => {
@@ -112,7 +218,7 @@ export default function Settings() {
       return;
     }
 
-    if (!confirm('FINAL WARNING: This will permanently delete all your recordings and data.\n\nAre you absolutely sure?')) {
+    if (!confirm('FINAL WARNING: This will permanently delete your data and every workspace only you belong to. Recordings in shared workspaces stay with their members.\n\nAre you absolutely sure?')) {
       return;
     }
 
@@ -233,6 +339,54 @@ export default function Settings() {
                   </svg>
                   Profile
                 </button>
+                <button
+                  onClick={() => setActiveTab('preferences')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors flex items-center ${activeTab === 'preferences'
+                    ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                  </svg>
+                  Preferences
+                </button>
+                <button
+                  onClick={() => setActiveTab('vocabulary')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors flex items-center ${activeTab === 'vocabulary'
+                    ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                  </svg>
+                  Vocabulary
+                </button>
+                <button
+                  onClick={() => setActiveTab('templates')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors flex items-center ${activeTab === 'templates'
+                    ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Summary Templates
+                </button>
+                <button
+                  onClick={() => setActiveTab('workspace')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors flex items-center ${activeTab === 'workspace'
+                    ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                  </svg>
+                  Workspace
+                </button>
                 <button
                   onClick={() => setActiveTab('account')}
                   className={`w-full text-left px-4 py-2 rounded-lg transition-colors flex items-center ${activeTab === 'account'
@@ -305,6 +459,270 @@ export default function Settings() {
               )}
 
 
+              {activeTab === 'preferences' && (
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">
+                    Preferences
+                  </h3>
+                  <form onSubmit={handlePreferencesSubmit} className="space-y-6">
+                    <div>
+                      <label htmlFor="transcriptionLanguage" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Transcription language
+                      </label>
+                      <select
+                        id="transcriptionLanguage"
+                        value={preferencesForm.transcriptionLanguage}
+                        onChange={(e) => setPreferencesForm({ ...preferencesForm, transcriptionLanguage: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value={AUTO_LANGUAGE}>Detect automatically</option>
+                        {LANGUAGE_OPTIONS.map(language => (
+                          <option key={language.value} value={language.value}>{language.label}</option>
+                        ))}
+                        {preferencesForm.transcriptionLanguage !== AUTO_LANGUAGE &&
+                          !LANGUAGE_OPTIONS.some(language => language.value === preferencesForm.transcriptionLanguage) && (
+                          <option value={preferencesForm.transcriptionLanguage}>{preferencesForm.transcriptionLanguage}</option>
+                        )}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Language spoken in your recordings
+                      </p>
+                    </div>
+
+                    <div>
+                      <label htmlFor="theme" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Theme
+                      </label>
+                      <select
+                        id="theme"
+                        value={preferencesForm.theme}
+                        onChange={(e) => setPreferencesForm({ ...preferencesForm, theme: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="system">Match system</option>
+                        <option value="light">Light</option>
+                        <option value="dark">Dark</option>
+                      </select>
+                    </div>
+
+                    <label className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={preferencesForm.autoSummarize}
+                        onChange={(e) => setPreferencesForm({ ...preferencesForm, autoSummarize: e.target.checked })}
+                        className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Summarize automatically</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          Generate a summary as soon as a recording is transcribed. When off, use Regenerate summary on the recording instead.
+                        </span>
+                      </span>
+                    </label>
+
+                    <label className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={preferencesForm.emailNotifications}
+                        onChange={(e) => setPreferencesForm({ ...preferencesForm, emailNotifications: e.target.checked })}
+                        className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Email notifications</span>
+                    </label>
+
+                    <div className="flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={settingsLoading}
+                        className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+                      >
+                        {settingsLoading ? 'Saving...' : 'Save Preferences'}
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              )}
+
+
+              {activeTab === 'vocabulary' && (
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                    Vocabulary
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                    Product names, customers and acronyms to spell your way. They are passed to transcription, and the listed misspellings are corrected in transcripts and summaries.
+                  </p>
+
+                  <GlossaryEditor />
+                </div>
+              )}
+
+              {activeTab === 'templates' && (
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                    Summary Templates
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                    Choose a template when starting a recording or regenerating its summary. Copy a built-in one to adapt it, or write your own. Shared templates are available to everyone in the workspace.
+                  </p>
+
+                  {(templatesError || templateFormError) && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mb-4">{templateFormError ?? templatesError}</p>
+                  )}
+
+                  <form onSubmit={handleTemplateSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                    <div>
+                      <label htmlFor="templateName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Name
+                      </label>
+                      <input
+                        id="templateName"
+                        type="text"
+                        value={templateForm.name}
+                        onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                        placeholder="Design review"
+                        maxLength={100}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="templateDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Description <span className="text-gray-400">(optional)</span>
+                      </label>
+                      <input
+                        id="templateDescription"
+                        type="text"
+                        value={templateForm.description}
+                        onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+                        placeholder="Decisions and open questions per design"
+                        maxLength={300}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <label htmlFor="templatePrompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Instructions
+                      </label>
+                      <textarea
+                        id="templatePrompt"
+                        value={templateForm.prompt}
+                        onChange={(e) => setTemplateForm({ ...templateForm, prompt: e.target.value })}
+                        placeholder="Summarize this design review for the people who missed it."
+                        maxLength={4000}
+                        rows={3}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="templateSections" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Sections
+                      </label>
+                      <textarea
+                        id="templateSections"
+                        value={templateForm.sections}
+                        onChange={(e) => setTemplateForm({ ...templateForm, sections: e.target.value })}
+                        placeholder={'Decisions: Bulleted decisions and who made them\nOpen Questions: Bulleted questions left unanswered'}
+                        rows={6}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+                        required
+                      />
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        One per line, as Title: what to write under it
+                      </p>
+                    </div>
+                    <div>
+                      <label htmlFor="templateSchema" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        JSON schema <span className="text-gray-400">(optional)</span>
+                      </label>
+                      <textarea
+                        id="templateSchema"
+                        value={templateForm.schema}
+                        onChange={(e) => setTemplateForm({ ...templateForm, schema: e.target.value })}
+                        placeholder={'{ "type": "object", "properties": { ... } }'}
+                        rows={6}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+                      />
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        For structured summaries: each top-level property becomes a section
+                      </p>
+                    </div>
+                    <div className="md:col-span-2 flex justify-end items-center gap-3">
+                      {canManageShared && !editingTemplateId && (
+                        <label className="mr-auto flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={templateForm.shared}
+                            onChange={(e) => setTemplateForm({ ...templateForm, shared: e.target.checked })}
+                          />
+                          Share with {activeWorkspace?.name}
+                        </label>
+                      )}
+                      {(editingTemplateId || templateForm.name) && (
+                        <button
+                          type="button"
+                          onClick={resetTemplateForm}
+                          className="px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      <button
+                        type="submit"
+                        className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                      >
+                        {editingTemplateId ? 'Save Template' : 'Add Template'}
+                      </button>
+                    </div>
+                  </form>
+
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {templates.map(template => (
+                      <li key={template.id} className="py-3 flex justify-between items-start gap-4">
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">
+                            {template.name}
+                            {template.builtIn && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-normal bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Built-in</span>
+                            )}
+                            {template.shared && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-normal bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">Shared</span>
+                            )}
+                            {template.schema && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-normal bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">Structured</span>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {template.description ?? template.sections.map(section => section.title).join(', ')}
+                          </p>
+                        </div>
+                        <div className="flex gap-3 text-sm shrink-0">
+                          <button
+                            onClick={() => handleEditTemplate(template)}
+                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            {canEditTemplate(template) ? 'Edit' : 'Copy'}
+                          </button>
+                          {canEditTemplate(template) && (
+                            <button
+                              onClick={() => handleDeleteTemplate(template)}
+                              className="text-red-600 dark:text-red-400 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {activeTab === 'workspace' && user && (
+                <WorkspaceSettings userId={user.id} />
+              )}
+
               {activeTab === 'account' && (
                 <div>
                   <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { formatTimestamp } from '../../../lib/transcript';
+import type { ShareScope } from '../../hooks/useShareLinks';
+
+interface SharedRecording {
+  title: string;
+  duration: number | null;
+  summary: string | null;
+  createdAt: string;
+  hasAudio: boolean;
+  // Empty and null for summary-only links
+  transcript: string | null;
+  segments: { startMs: number; speaker: string | null; text: string }[];
+}
+
+interface SharedResponse {
+  scope: ShareScope;
+  expiresAt: string | null;
+  recording: SharedRecording;
+}
+
+type ShareState =
+  | { status: 'loading' }
+  | { status: 'password'; error: string | null }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; shared: SharedResponse };
+
+// Public read-only view of a recording, opened from a share link without an account
+export default function SharedRecordingPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [state, setState] = useState<ShareState>({ status: 'loading' });
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const apiUrl = `/api/share/${encodeURIComponent(token)}`;
+
+  // Password-protected links answer 401 until unlocked
+  useEffect(() => {
+    fetch(apiUrl, { credentials: 'include' })
+      .then(async response => {
+        const data = await response.json().catch(() => null);
+        if (response.ok) {
+          setState({ status: 'ready', shared: data });
+        } else if (data?.passwordRequired) {
+          setState({ status: 'password', error: null });
+        } else {
+          setState({ status: 'error', error: data?.error || 'Failed to load this link' });
+        }
+      })
+      .catch(err => {
+        setState({ status: 'error', error: 'Failed to load this link' });
+        console.error('Fetch shared recording error:', err);
+      });
+  }, [apiUrl]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+
+    try {
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json().catch(() => null);
+      if (response.ok) {
+        setState({ status: 'ready', shared: data });
+      } else if (data?.passwordRequired) {
+        setState({ status: 'password', error: data.error });
+      } else {
+        setState({ status: 'error', error: data?.error || 'Failed to unlock this link' });
+      }
+    } catch (err) {
+      setState({ status: 'error', error: 'Failed to unlock this link' });
+      console.error('Unlock shared recording error:', err);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const seekTo = (ms: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = ms / 1000;
+    audioRef.current.play().catch(() => {});
+  };
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (state.status === 'error' || state.status === 'password') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+        <div className="max-w-sm w-full bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 text-center">
+          {state.status === 'error' ? (
+            <>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Link unavailable</h1>
+              <p className="text-gray-600 dark:text-gray-400">{state.error}</p>
+            </>
+          ) : (
+            <form onSubmit={handleUnlock}>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Password required</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Enter the password you were given with this link.</p>
+              {state.error && (
+                <p className="text-sm text-red-600 dark:text-red-400 mb-3">{state.error}</p>
+              )}
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                required
+                className="w-full px-4 py-2 mb-4 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={isUnlocking}
+                className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
+              >
+                {isUnlocking ? 'Checking...' : 'View recording'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { recording } = state.shared;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <p className="text-sm font-bold text-gray-500 dark:text-gray-400 mb-1">ScribeAI · shared recording</p>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{recording.title}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {new Date(recording.createdAt).toLocaleString()}
+            {recording.duration !== null && ` · ${formatTimestamp(recording.duration * 1000)}`}
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {recording.hasAudio && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <audio ref={audioRef} controls preload="metadata" src={`${apiUrl}/audio`} className="w-full" />
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Summary</h2>
+          <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+            {recording.summary || 'No summary is available for this recording yet.'}
+          </div>
+        </div>
+
+        {(recording.segments.length > 0 || recording.transcript) && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Transcript</h2>
+            {recording.segments.length > 0 ? (
+              <div className="space-y-1 text-sm">
+                {recording.segments.map((segment, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => seekTo(segment.startMs)}
+                    disabled={!recording.hasAudio}
+                    className="w-full text-left rounded px-2 py-1 flex gap-3 transition-colors enabled:hover:bg-gray-100 dark:enabled:hover:bg-gray-700"
+                  >
+                    <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">
+                      {formatTimestamp(segment.startMs)}
+                    </span>
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {segment.speaker && <span className="font-semibold mr-1">{segment.speaker}:</span>}
+                      {segment.text}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300 font-mono text-sm">
+                {recording.transcript}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
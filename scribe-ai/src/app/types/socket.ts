@@ -1,8 +1,11 @@
+import type { WorkspaceRole } from '../../generated/prisma/enums';
+
 export interface AudioChunkData {
   recordingId: string;
   chunk: ArrayBuffer;
   isFinal: boolean;
   timestamp?: string;
+  mimeType?: string;
 }
 
 export interface RecordingData {
@@ -10,6 +13,8 @@ export interface RecordingData {
 }
 
 export interface ServerToClientEvents {
+  // isFinal: false carries interim text for the audio not yet committed and
+  // replaces the previous interim text; isFinal: true is a committed segment
   'transcription-update': (data: {
     recordingId: string;
     text: string;
@@ -31,7 +36,20 @@ export interface ServerToClientEvents {
 
   'recording-status': (data: {
     recordingId: string;
-    status: string; // "PAUSED" | "RECORDING" | "PROCESSING"
+    status: string; // "PAUSED" | "RECORDING" | "PROCESSING" | "FAILED"
+  }) => void;
+
+  // Background post-processing (see src/lib/jobs)
+  'job-progress': (data: {
+    recordingId: string;
+    jobId: string;
+    type: 'TRANSCRIBE' | 'SUMMARIZE' | 'REPROCESS' | 'INDEX' | 'TRANSLATE';
+    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+    progress: number;
+    stage: string | null;
+    attempts: number;
+    error: string | null;
+    retryAt: string | null;
   }) => void;
 
   'audio-chunk-received': (data: {
@@ -45,4 +63,19 @@ export interface ClientToServerEvents {
   'complete-recording': (data: RecordingData) => void;
   'pause-recording': (data: RecordingData) => void;
   'resume-recording': (data: RecordingData) => void;
+  // Join/leave a recording's room to watch it from another page or tab
+  'subscribe-recording': (data: RecordingData) => void;
+  'unsubscribe-recording': (data: RecordingData) => void;
 }
+
+// Server-side per-socket state attached during the handshake
+export interface SocketData {
+  userId: string;
+  // The user's role on recordings this socket has already been authorized for,
+  // and when it was last checked against the workspace membership
+  recordingRoles: Map<string, { role: WorkspaceRole; checkedAt: number }>;
+}
+
+// Room names used to scope server events
+export const userRoom = (userId: string) => `user:${userId}`;
+export const recordingRoom = (recordingId: string) => `recording:${recordingId}`;
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  authorizeActiveWorkspace,
+  authorizeRecording,
+  authorizeWorkspace,
+  canDeleteRecording,
+  canManageRole,
+  hasRole
+} from './access';
+import type { WorkspaceRole } from '../generated/prisma/client';
+
+const { membershipFindUnique, recordingFindUnique, getActiveWorkspace } = vi.hoisted(() => ({
+  membershipFindUnique: vi.fn(),
+  recordingFindUnique: vi.fn(),
+  getActiveWorkspace: vi.fn()
+}));
+
+vi.mock('./prisma', () => ({
+  default: {
+    membership: { findUnique: membershipFindUnique },
+    recording: { findUnique: recordingFindUnique }
+  }
+}));
+vi.mock('./workspaces', () => ({ getActiveWorkspace }));
+
+const ROLES: WorkspaceRole[] = ['VIEWER', 'EDITOR', 'ADMIN', 'OWNER'];
+
+const recordingWith = (role: WorkspaceRole | null) => ({
+  id: 'recording-1',
+  userId: 'author',
+  workspaceId: 'workspace-1',
+  workspace: { memberships: role ? [{ role }] : [] }
+});
+
+describe('hasRole', () => {
+  it('ranks each role above the ones before it', () => {
+    ROLES.forEach((role, i) => {
+      ROLES.forEach((minimum, j) => {
+        expect(hasRole(role, minimum)).toBe(i >= j);
+      });
+    });
+  });
+});
+
+describe('authorizeWorkspace', () => {
+  beforeEach(() => {
+    membershipFindUnique.mockReset();
+  });
+
+  it('hides workspaces from non-members', async () => {
+    membershipFindUnique.mockResolvedValue(null);
+    expect(await authorizeWorkspace('user-1', 'workspace-1', 'VIEWER')).toEqual({
+      error: 'Workspace not found',
+      status: 404
+    });
+  });
+
+  it('refuses members below the needed role', async () => {
+    membershipFindUnique.mockResolvedValue({ role: 'EDITOR' });
+    expect(await authorizeWorkspace('user-1', 'workspace-1', 'ADMIN')).toMatchObject({ status: 403 });
+  });
+
+  it('admits members with the needed role or higher', async () => {
+    membershipFindUnique.mockResolvedValue({ role: 'OWNER' });
+    expect(await authorizeWorkspace('user-1', 'workspace-1', 'ADMIN')).toEqual({
+      workspaceId: 'workspace-1',
+      role: 'OWNER'
+    });
+    expect(membershipFindUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { workspaceId_userId: { workspaceId: 'workspace-1', userId: 'user-1' } } })
+    );
+  });
+});
+
+describe('authorizeActiveWorkspace', () => {
+  it('checks the role in the active workspace', async () => {
+    getActiveWorkspace.mockResolvedValue({ id: 'workspace-1', role: 'VIEWER' });
+    expect(await authorizeActiveWorkspace('user-1', 'VIEWER')).toEqual({ workspaceId: 'workspace-1', role: 'VIEWER' });
+    expect(await authorizeActiveWorkspace('user-1', 'EDITOR')).toMatchObject({ status: 403 });
+  });
+});
+
+describe('authorizeRecording', () => {
+  it('hides missing recordings and those in other workspaces', async () => {
+    recordingFindUnique.mockResolvedValueOnce(null);
+    expect(await authorizeRecording('user-1', 'recording-1', 'VIEWER')).toMatchObject({ status: 404 });
+
+    recordingFindUnique.mockResolvedValueOnce(recordingWith(null));
+    expect(await authorizeRecording('user-1', 'recording-1', 'VIEWER')).toMatchObject({ status: 404 });
+  });
+
+  it('refuses members below the needed role', async () => {
+    recordingFindUnique.mockResolvedValueOnce(recordingWith('VIEWER'));
+    expect(await authorizeRecording('user-1', 'recording-1', 'EDITOR')).toMatchObject({ status: 403 });
+  });
+
+  it('admits members with the needed role or higher', async () => {
+    recordingFindUnique.mockResolvedValueOnce(recordingWith('ADMIN'));
+    expect(await authorizeRecording('user-1', 'recording-1', 'EDITOR')).toEqual({
+      recording: { id: 'recording-1', userId: 'author', workspaceId: 'workspace-1' },
+      role: 'ADMIN'
+    });
+  });
+});
+
+describe('canDeleteRecording', () => {
+  const access = (role: WorkspaceRole) => ({
+    recording: { id: 'recording-1', userId: 'author', workspaceId: 'workspace-1' },
+    role
+  });
+
+  it('lets editors delete only their own recordings', () => {
+    expect(canDeleteRecording(access('EDITOR'), 'author')).toBe(true);
+    expect(canDeleteRecording(access('EDITOR'), 'someone-else')).toBe(false);
+  });
+
+  it("lets admins delete anyone's recordings", () => {
+    expect(canDeleteRecording(access('ADMIN'), 'someone-else')).toBe(true);
+    expect(canDeleteRecording(access('OWNER'), 'someone-else')).toBe(true);
+  });
+});
+
+describe('canManageRole', () => {
+  it('lets admins manage everyone below owner', () => {
+    expect(canManageRole('ADMIN', 'VIEWER')).toBe(true);
+    expect(canManageRole('ADMIN', 'ADMIN')).toBe(true);
+    expect(canManageRole('ADMIN', 'OWNER')).toBe(false);
+  });
+
+  it('lets owners manage owners', () => {
+    expect(canManageRole('OWNER', 'OWNER')).toBe(true);
+  });
+
+  it('lets nobody below admin manage members', () => {
+    expect(canManageRole('EDITOR', 'VIEWER')).toBe(false);
+    expect(canManageRole('VIEWER', 'VIEWER')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import prisma from './prisma';
+import { getActiveWorkspace } from './workspaces';
+import type { WorkspaceRole } from '../generated/prisma/client';
+
+// Each role may do everything the roles below it may:
+//   VIEWER  read recordings, their audio and exports, and ask about them
+//   EDITOR  record, edit, reprocess and organize recordings
+//   ADMIN   delete anyone's recordings, manage members and invitations and
+//           the workspace glossary
+//   OWNER   rename or delete the workspace and make other owners
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  ADMIN: 2,
+  OWNER: 3
+};
+
+export const hasRole = (role: WorkspaceRole, minimum: WorkspaceRole) =>
+  ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+// Why access was refused, with the HTTP status to answer with. Non-members
+// get 404 so they can't tell what exists.
+export interface AccessDenied {
+  error: string;
+  status: 403 | 404;
+}
+
+export const requiresRole = (minimum: WorkspaceRole): AccessDenied => ({
+  error: `This needs the ${minimum.toLowerCase()} role or higher`,
+  status: 403
+});
+
+export interface WorkspaceAccess {
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+export async function authorizeWorkspace(
+  userId: string,
+  workspaceId: string,
+  minimum: WorkspaceRole
+): Promise<WorkspaceAccess | AccessDenied> {
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true }
+  });
+
+  if (!membership) return { error: 'Workspace not found', status: 404 };
+  if (!hasRole(membership.role, minimum)) return requiresRole(minimum);
+
+  return { workspaceId, role: membership.role };
+}
+
+// The workspace the user is working in, for lists and anything newly created
+export async function authorizeActiveWorkspace(
+  userId: string,
+  minimum: WorkspaceRole
+): Promise<WorkspaceAccess | AccessDenied> {
+  const { id, role } = await getActiveWorkspace(userId);
+  return hasRole(role, minimum) ? { workspaceId: id, role } : requiresRole(minimum);
+}
+
+export interface RecordingAccess {
+  recording: { id: string; userId: string; workspaceId: string };
+  role: WorkspaceRole;
+}
+
+export async function authorizeRecording(
+  userId: string,
+  recordingId: string,
+  minimum: WorkspaceRole
+): Promise<RecordingAccess | AccessDenied> {
+  const recording = await prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: {
+      id: true,
+      userId: true,
+      workspaceId: true,
+      workspace: {
+        select: { memberships: { where: { userId }, select: { role: true } } }
+      }
+    }
+  });
+
+  const membership = recording?.workspace.memberships[0];
+  if (!recording || !membership) return { error: 'Recording not found', status: 404 };
+  if (!hasRole(membership.role, minimum)) return requiresRole(minimum);
+
+  return {
+    recording: { id: recording.id, userId: recording.userId, workspaceId: recording.workspaceId },
+    role: membership.role
+  };
+}
+
+// Editors may delete what they recorded themselves; anything else takes an admin
+export const canDeleteRecording = (access: RecordingAccess, userId: string) =>
+  hasRole(access.role, 'ADMIN') || access.recording.userId === userId;
+
+// Whether a member with `actor` may give someone `role`, or change or remove
+// a member who has it: admins manage everyone below owner, owners everyone
+export const canManageRole = (actor: WorkspaceRole, role: WorkspaceRole) =>
+  hasRole(actor, 'ADMIN') && (role !== 'OWNER' || actor === 'OWNER');
@@ -0,0 +1,146 @@
+import prisma from './prisma';
+import type { ActionItemStatus } from '../generated/prisma/client';
+import type { SummarizationProvider } from './providers';
+
+export const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['OPEN', 'DONE'];
+
+export const ACTION_ITEM_SELECT = {
+  id: true,
+  recordingId: true,
+  text: true,
+  owner: true,
+  dueDate: true,
+  segmentIndex: true,
+  startMs: true,
+  status: true,
+  edited: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  speaker: { select: { id: true, label: true, displayName: true, color: true } }
+} as const;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Extract the action items of the current transcript. Items edited or ticked
+// off by hand are kept; the rest are replaced, and anything already done isn't
+// listed again.
+export async function extractActionItems(
+  recordingId: string,
+  provider: SummarizationProvider,
+  language?: string
+) {
+  const [recording, segments, speakers] = await Promise.all([
+    prisma.recording.findUnique({
+      where: { id: recordingId },
+      select: { transcript: true, createdAt: true }
+    }),
+    prisma.transcriptSegment.findMany({
+      where: { recordingId },
+      orderBy: { index: 'asc' },
+      select: { index: true, startMs: true, speaker: true, text: true }
+    }),
+    prisma.speaker.findMany({
+      where: { recordingId },
+      select: { id: true, label: true, displayName: true }
+    })
+  ]);
+  if (!recording?.transcript?.trim()) return [];
+
+  const byLabel = new Map(speakers.map((speaker) => [speaker.label, speaker]));
+  // Transcripts from before segments were stored are read line by line
+  const lines = segments.length > 0
+    ? segments.map((segment) => {
+      const speaker = segment.speaker ? byLabel.get(segment.speaker) : undefined;
+      const name = speaker?.displayName ?? segment.speaker;
+      return name ? `${name}: ${segment.text}` : segment.text;
+    })
+    : recording.transcript.split('\n').filter((line) => line.trim());
+
+  const extracted = await provider.extractActionItems(lines, {
+    date: recording.createdAt.toISOString().slice(0, 10),
+    language
+  });
+
+  // Owners come back as the name or label shown in the transcript
+  const findSpeaker = (owner: string | null) => owner
+    ? speakers.find((speaker) =>
+      [speaker.label, speaker.displayName].some((name) => name?.toLowerCase() === owner.toLowerCase())
+    )
+    : undefined;
+
+  const kept = await prisma.actionItem.findMany({
+    where: { recordingId, OR: [{ edited: true }, { status: 'DONE' }] },
+    select: { text: true }
+  });
+  const known = new Set(kept.map((item) => normalize(item.text)));
+
+  const data = extracted
+    .filter((item) => !known.has(normalize(item.text)))
+    .map((item) => {
+      const segment = item.line !== null && segments.length > 0 ? segments[item.line] : undefined;
+      const speaker = findSpeaker(item.owner);
+      return {
+        recordingId,
+        text: item.text,
+        owner: speaker ? null : item.owner,
+        speakerId: speaker?.id ?? null,
+        dueDate: item.dueDate ? new Date(item.dueDate) : null,
+        segmentIndex: segment?.index ?? null,
+        startMs: segment?.startMs ?? null
+      };
+    });
+
+  await prisma.$transaction([
+    prisma.actionItem.deleteMany({ where: { recordingId, edited: false, status: 'OPEN' } }),
+    prisma.actionItem.createMany({ data })
+  ]);
+  return data;
+}
+
+export interface ActionItemUpdate {
+  status?: ActionItemStatus;
+  text?: string;
+  dueDate?: Date | null;
+  speakerId?: string | null;
+}
+
+// Validate an update body; anything but the status marks the item as edited
+export const parseActionItemUpdate = (
+  body: Record<string, unknown>
+): { data: ActionItemUpdate } | { error: string } => {
+  const data: ActionItemUpdate = {};
+
+  if (body.status !== undefined) {
+    if (!ACTION_ITEM_STATUSES.includes(body.status as ActionItemStatus)) {
+      return { error: `status must be one of: ${ACTION_ITEM_STATUSES.join(', ')}` };
+    }
+    data.status = body.status as ActionItemStatus;
+  }
+
+  if (body.text !== undefined) {
+    if (typeof body.text !== 'string' || !body.text.trim() || body.text.length > 500) {
+      return { error: 'text must be 1-500 characters' };
+    }
+    data.text = body.text.trim();
+  }
+
+  if (body.dueDate !== undefined) {
+    if (
+      body.dueDate !== null &&
+      (typeof body.dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.dueDate) || Number.isNaN(Date.parse(body.dueDate)))
+    ) {
+      return { error: 'dueDate must be a date such as "2026-10-23", or null' };
+    }
+    data.dueDate = body.dueDate === null ? null : new Date(body.dueDate as string);
+  }
+
+  if (body.speakerId !== undefined) {
+    if (body.speakerId !== null && typeof body.speakerId !== 'string') {
+      return { error: 'speakerId must be a string or null' };
+    }
+    data.speakerId = body.speakerId as string | null;
+  }
+
+  return { data };
+};
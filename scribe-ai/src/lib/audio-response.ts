@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { getStorageForUrl } from './storage';
+import { parseRangeHeader, weakEtag } from './http-range';
+
+// Serve a stored audio file, or the requested byte range of it, once the
+// caller has been allowed to hear it. Answers HEAD without a body.
+export async function audioFileResponse(req: NextRequest, audioUrl: string, includeBody: boolean) {
+  const storage = getStorageForUrl(audioUrl);
+  const info = await storage.stat(audioUrl);
+
+  if (!info) {
+    return NextResponse.json(
+      { error: 'Audio file is missing' },
+      { status: 404 }
+    );
+  }
+
+  const etag = weakEtag(info.size, info.lastModified);
+  const baseHeaders: Record<string, string> = {
+    'Content-Type': info.contentType,
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Last-Modified': info.lastModified.toUTCString(),
+    'Cache-Control': 'private, no-cache'
+  };
+
+  if (req.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: baseHeaders });
+  }
+
+  // A stale If-Range means the client's partial copy is outdated: send everything
+  const ifRange = req.headers.get('if-range');
+  const range = ifRange && ifRange !== etag
+    ? null
+    : parseRangeHeader(req.headers.get('range'), info.size);
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...baseHeaders, 'Content-Range': `bytes */${info.size}` }
+    });
+  }
+
+  const headers = range
+    ? {
+        ...baseHeaders,
+        'Content-Range': `bytes ${range.start}-${range.end}/${info.size}`,
+        'Content-Length': (range.end - range.start + 1).toString()
+      }
+    : { ...baseHeaders, 'Content-Length': info.size.toString() };
+  const status = range ? 206 : 200;
+
+  if (!includeBody) {
+    return new NextResponse(null, { status, headers });
+  }
+
+  const stream = await storage.createReadStream(audioUrl, range ?? undefined);
+
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream, { status, headers });
+}
@@ -62,6 +62,26 @@ export const verifySession = async (request: Request): Promise<{ user: User; ses
   }
 };
 
+// Cookie session (browser) first, then bearer / x-session-token (external tools)
+export const getRequestSession = async (request: Request): Promise<{ user: User; session: Session } | null> => {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (session?.session && session?.user) {
+      return {
+        user: session.user,
+        session: session.session
+      };
+    }
+  } catch (error) {
+    console.error('Cookie session lookup error:', error);
+  }
+
+  return verifySession(request);
+};
+
 export const authMiddleware = {
   requireAuth: async (request: Request) => {
     const session = await verifySession(request);
@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseCitations } from './chat';
+
+vi.mock('./prisma', () => ({ default: {} }));
+
+describe('parseCitations', () => {
+  it('reads single and grouped citations in order of first mention', () => {
+    expect(parseCitations('Budget is fixed [4]. Dates moved [2, 7], see [4].', 10)).toEqual([4, 2, 7]);
+  });
+
+  it('drops lines past the end of the transcript', () => {
+    expect(parseCitations('Mentioned at [3] and [12]', 10)).toEqual([3]);
+  });
+
+  it('ignores bracketed text that is not a line number', () => {
+    expect(parseCitations('The [draft] plan, [1a] and [ ]', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import prisma from './prisma';
+import { getChatProvider, type ChatTurn } from './providers';
+import { getSpeakerNames } from './speakers';
+import { formatTimestamp } from './transcript';
+
+// Earlier messages sent along with a question, so follow-ups make sense
+const HISTORY_LENGTH = 20;
+
+export const CHAT_MESSAGE_SELECT = {
+  id: true,
+  role: true,
+  content: true,
+  citations: true,
+  provider: true,
+  model: true,
+  createdAt: true
+} as const;
+
+// A transcript line an answer cites as [line]; stored as the message's JSON citations
+export type ChatCitation = {
+  line: number;
+  segmentIndex: number | null;
+  startMs: number | null;
+};
+
+// Line numbers cited in an answer, as "[3]" or "[3, 7]", in order of first mention
+export const parseCitations = (text: string, lineCount: number): number[] => {
+  const lines = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const value of match[1].split(',')) {
+      const line = Number(value.trim());
+      if (line < lineCount) lines.add(line);
+    }
+  }
+  return [...lines];
+};
+
+export const parseChatInput = (
+  body: Record<string, unknown>
+): { data: { message: string } } | { error: string } => {
+  if (typeof body.message !== 'string' || !body.message.trim() || body.message.length > 2000) {
+    return { error: 'message must be 1-2000 characters' };
+  }
+  return { data: { message: body.message.trim() } };
+};
+
+// Answer a question about a recording as a stream of text. The question and
+// the finished answer are saved to the asker's chat history of the recording;
+// members of a shared workspace each have their own. The first
+// chunk is awaited here, so provider errors surface before anything is sent.
+export async function askRecording(
+  recordingId: string,
+  userId: string,
+  message: string,
+  providerName?: string
+): Promise<ReadableStream<string>> {
+  const [recording, segments, names, history] = await Promise.all([
+    prisma.recording.findUniqueOrThrow({
+      where: { id: recordingId },
+      select: { title: true, transcript: true }
+    }),
+    prisma.transcriptSegment.findMany({
+      where: { recordingId },
+      orderBy: { index: 'asc' },
+      select: { index: true, startMs: true, speaker: true, text: true }
+    }),
+    getSpeakerNames(recordingId),
+    prisma.chatMessage.findMany({
+      where: { recordingId, userId },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LENGTH,
+      select: { role: true, content: true }
+    })
+  ]);
+
+  // Transcripts from before segments were stored are read line by line
+  const lines = segments.length > 0
+    ? segments.map((segment) => {
+      const name = segment.speaker ? names.get(segment.speaker) ?? segment.speaker : null;
+      return `(${formatTimestamp(segment.startMs)}) ${name ? `${name}: ` : ''}${segment.text}`;
+    })
+    : (recording.transcript ?? '').split('\n').filter((line) => line.trim());
+
+  const turns: ChatTurn[] = [
+    ...history.reverse().map((turn): ChatTurn => ({
+      role: turn.role === 'USER' ? 'user' : 'assistant',
+      content: turn.content
+    })),
+    { role: 'user', content: message }
+  ];
+
+  const provider = getChatProvider(providerName);
+  const chunks = provider.chat(turns, { title: `the meeting "${recording.title}"`, lines })[Symbol.asyncIterator]();
+  const first = await chunks.next();
+
+  await prisma.chatMessage.create({
+    data: { recordingId, userId, role: 'USER', content: message }
+  });
+
+  let answer = '';
+  const save = async () => {
+    const citations: ChatCitation[] = parseCitations(answer, lines.length).map((line) => ({
+      line,
+      segmentIndex: segments[line]?.index ?? null,
+      startMs: segments[line]?.startMs ?? null
+    }));
+
+    await prisma.chatMessage.create({
+      data: {
+        recordingId,
+        userId,
+        role: 'ASSISTANT',
+        content: answer,
+        citations,
+        provider: provider.name,
+        model: provider.model
+      }
+    });
+  };
+
+  return new ReadableStream<string>({
+    start(controller) {
+      if (!first.done) {
+        answer += first.value;
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = first.done ? first : await chunks.next();
+        if (next.done) {
+          await save();
+          controller.close();
+          return;
+        }
+        answer += next.value;
+        controller.enqueue(next.value);
+      } catch (error) {
+        console.error('Recording chat stream error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return?.();
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks identical texts as equal throughout', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', left: 'a', right: 'a', leftLine: 1, rightLine: 1 },
+      { type: 'equal', left: 'b', right: 'b', leftLine: 2, rightLine: 2 }
+    ]);
+  });
+
+  it('pairs a removed and an added line as changed', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { type: 'equal', left: 'a', right: 'a', leftLine: 1, rightLine: 1 },
+      { type: 'changed', left: 'b', right: 'B', leftLine: 2, rightLine: 2 },
+      { type: 'equal', left: 'c', right: 'c', leftLine: 3, rightLine: 3 }
+    ]);
+  });
+
+  it('numbers lines on each side separately around insertions', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+      { type: 'equal', left: 'a', right: 'a', leftLine: 1, rightLine: 1 },
+      { type: 'added', left: null, right: 'b', leftLine: null, rightLine: 2 },
+      { type: 'equal', left: 'c', right: 'c', leftLine: 2, rightLine: 3 }
+    ]);
+  });
+
+  it('reports deletions', () => {
+    expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+      { type: 'equal', left: 'a', right: 'a', leftLine: 1, rightLine: 1 },
+      { type: 'removed', left: 'b', right: null, leftLine: 2, rightLine: null },
+      { type: 'equal', left: 'c', right: 'c', leftLine: 3, rightLine: 2 }
+    ]);
+  });
+
+  it('keeps lines common to both texts aligned', () => {
+    const rows = diffLines('x\nshared\ny', 'shared\nz');
+    expect(rows.filter((row) => row.type === 'equal')).toEqual([
+      { type: 'equal', left: 'shared', right: 'shared', leftLine: 2, rightLine: 1 }
+    ]);
+  });
+});
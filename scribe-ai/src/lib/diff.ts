@@ -0,0 +1,101 @@
+// Line diff for comparing transcript and summary versions side by side
+
+export interface DiffRow {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  left: string | null;
+  right: string | null;
+  // 1-based line numbers in each text
+  leftLine: number | null;
+  rightLine: number | null;
+}
+
+type Op = { type: 'equal' | 'removed' | 'added'; line: string };
+
+// Beyond this many cells the LCS table gets too large to build per request;
+// the differing middle is then shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+const diffOps = (a: string[], b: string[]): Op[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: 'equal', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): Op => ({ type: 'removed', line })));
+    ops.push(...midB.map((line): Op => ({ type: 'added', line })));
+  } else {
+    // lcs[i * width + j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: 'equal', line: midA[i] });
+        i++;
+        j++;
+      } else if (j < midB.length && (i === midA.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        ops.push({ type: 'added', line: midB[j++] });
+      } else {
+        ops.push({ type: 'removed', line: midA[i++] });
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map((line): Op => ({ type: 'equal', line })));
+  return ops;
+};
+
+// Removed and added lines next to each other are paired up as changed rows
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const ops = diffOps(before.split('\n'), after.split('\n'));
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].type === 'equal') {
+      rows.push({ type: 'equal', left: ops[k].line, right: ops[k].line, leftLine: leftLine++, rightLine: rightLine++ });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (; k < ops.length && ops[k].type !== 'equal'; k++) {
+      (ops[k].type === 'removed' ? removed : added).push(ops[k].line);
+    }
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null;
+      const right = added[n] ?? null;
+      rows.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+        leftLine: left !== null ? leftLine++ : null,
+        rightLine: right !== null ? rightLine++ : null
+      });
+    }
+  }
+
+  return rows;
+};
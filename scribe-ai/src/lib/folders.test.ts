@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkFolderParent, MAX_FOLDER_DEPTH } from './folders';
+
+const { findMany } = vi.hoisted(() => ({ findMany: vi.fn() }));
+
+vi.mock('./prisma', () => ({ default: { folder: { findMany } } }));
+
+// a > b > c, and d on its own
+const folders = [
+  { id: 'a', parentId: null },
+  { id: 'b', parentId: 'a' },
+  { id: 'c', parentId: 'b' },
+  { id: 'd', parentId: null }
+];
+
+describe('checkFolderParent', () => {
+  beforeEach(() => {
+    findMany.mockResolvedValue(folders);
+  });
+
+  it('only looks at folders in the workspace', async () => {
+    await checkFolderParent('workspace-1', null, 'a');
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { workspaceId: 'workspace-1' } }));
+  });
+
+  it('allows a move under another folder', async () => {
+    expect(await checkFolderParent('workspace-1', 'd', 'c')).toBeNull();
+    expect(await checkFolderParent('workspace-1', null, 'c')).toBeNull();
+  });
+
+  it('refuses a parent outside the workspace', async () => {
+    expect(await checkFolderParent('workspace-1', 'd', 'elsewhere')).toBe('Parent folder not found');
+  });
+
+  it('refuses moving a folder into itself or below itself', async () => {
+    const message = "A folder can't be moved into itself or one of its subfolders";
+    expect(await checkFolderParent('workspace-1', 'a', 'a')).toBe(message);
+    expect(await checkFolderParent('workspace-1', 'a', 'c')).toBe(message);
+  });
+
+  it('counts the moved folder and its subfolders against the depth limit', async () => {
+    const message = `Folders can be nested up to ${MAX_FOLDER_DEPTH} levels deep`;
+    // a > b > c > x > y: x moving under c with y below it reaches five levels
+    findMany.mockResolvedValue([...folders, { id: 'x', parentId: null }, { id: 'y', parentId: 'x' }]);
+    expect(await checkFolderParent('workspace-1', 'x', 'c')).toBeNull();
+
+    findMany.mockResolvedValue([
+      ...folders,
+      { id: 'x', parentId: null },
+      { id: 'y', parentId: 'x' },
+      { id: 'z', parentId: 'y' }
+    ]);
+    expect(await checkFolderParent('workspace-1', 'x', 'c')).toBe(message);
+  });
+});
@@ -0,0 +1,101 @@
+import prisma from './prisma';
+
+export const FOLDER_SELECT = {
+  id: true,
+  name: true,
+  parentId: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// Deepest a folder can sit, counting top-level folders as 1
+export const MAX_FOLDER_DEPTH = 5;
+
+export interface FolderInput {
+  name: string;
+  // Top-level when null
+  parentId: string | null;
+}
+
+// Validate a create/update body; `partial` allows leaving fields out
+export const parseFolderInput = (
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<FolderInput> } | { error: string } => {
+  const data: Partial<FolderInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+      return { error: 'name must be 1-100 characters' };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.parentId !== undefined) {
+    if (body.parentId !== null && typeof body.parentId !== 'string') {
+      return { error: 'parentId must be a folder id or null' };
+    }
+    data.parentId = body.parentId as string | null;
+  } else if (!partial) {
+    data.parentId = null;
+  }
+
+  return { data };
+};
+
+type FolderNode = { id: string; parentId: string | null };
+
+// Number of folders from the top down to this one, itself included
+const depthOf = (folders: FolderNode[], folderId: string) => {
+  let depth = 0;
+  for (let id: string | null = folderId; id; id = folders.find((folder) => folder.id === id)?.parentId ?? null) {
+    depth++;
+  }
+  return depth;
+};
+
+// Levels of folders below this one
+const heightOf = (folders: FolderNode[], folderId: string): number => {
+  const children = folders.filter((folder) => folder.parentId === folderId);
+  return children.length === 0 ? 0 : 1 + Math.max(...children.map((child) => heightOf(folders, child.id)));
+};
+
+// Why `folderId` (or a new folder when null) can't go under `parentId`, if it can't
+export async function checkFolderParent(
+  workspaceId: string,
+  folderId: string | null,
+  parentId: string
+): Promise<string | null> {
+  const folders = await prisma.folder.findMany({
+    where: { workspaceId },
+    select: { id: true, parentId: true }
+  });
+
+  if (!folders.some((folder) => folder.id === parentId)) return 'Parent folder not found';
+
+  // Walking up from the new parent must not pass through the folder itself
+  for (let id: string | null = parentId; id; id = folders.find((folder) => folder.id === id)?.parentId ?? null) {
+    if (id === folderId) return "A folder can't be moved into itself or one of its subfolders";
+  }
+
+  const height = folderId ? heightOf(folders, folderId) : 0;
+  if (depthOf(folders, parentId) + 1 + height > MAX_FOLDER_DEPTH) {
+    return `Folders can be nested up to ${MAX_FOLDER_DEPTH} levels deep`;
+  }
+
+  return null;
+}
+
+// Delete a folder, moving its recordings and subfolders up into its parent
+export async function deleteFolder(folderId: string) {
+  const folder = await prisma.folder.findUniqueOrThrow({
+    where: { id: folderId },
+    select: { parentId: true }
+  });
+
+  await prisma.$transaction([
+    prisma.recording.updateMany({ where: { folderId }, data: { folderId: folder.parentId } }),
+    prisma.folder.updateMany({ where: { parentId: folderId }, data: { parentId: folder.parentId } }),
+    prisma.folder.delete({ where: { id: folderId } })
+  ]);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyGlossary, normalizeTerms } from './glossary';
+
+vi.mock('./prisma', () => ({ default: {} }));
+
+const scybe = { term: 'Scybe', variants: ['sky bee', 'skybee'], phonetic: 'sky-bee' };
+
+describe('normalizeTerms', () => {
+  it('rewrites variants to the preferred spelling', () => {
+    expect(normalizeTerms('We demoed skybee today', [scybe])).toBe('We demoed Scybe today');
+  });
+
+  it('fixes the term written in another case', () => {
+    expect(normalizeTerms('SCYBE and scybe', [scybe])).toBe('Scybe and Scybe');
+  });
+
+  it('lets whitespace inside multi-word variants vary', () => {
+    expect(normalizeTerms('Ask Sky   Bee about it', [scybe])).toBe('Ask Scybe about it');
+  });
+
+  it('only matches whole words', () => {
+    expect(normalizeTerms('skybeehive and askybee', [scybe])).toBe('skybeehive and askybee');
+  });
+
+  it('treats variants as literal text', () => {
+    const entry = { term: 'C++', variants: ['c plus plus'], phonetic: null };
+    expect(normalizeTerms('Written in c plus plus', [entry])).toBe('Written in C++');
+    expect(normalizeTerms('cxx', [entry])).toBe('cxx');
+  });
+});
+
+describe('applyGlossary', () => {
+  it('normalizes the text of every segment and keeps the rest', () => {
+    const segments = [{ startMs: 0, text: 'hi sky bee' }, { startMs: 1000, text: 'bye' }];
+    expect(applyGlossary(segments, [scybe])).toEqual([
+      { startMs: 0, text: 'hi Scybe' },
+      { startMs: 1000, text: 'bye' }
+    ]);
+  });
+});
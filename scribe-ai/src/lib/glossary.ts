@@ -0,0 +1,112 @@
+import prisma from './prisma';
+import type { GlossaryEntry, TranscribedSegment } from './transcript';
+
+export type { GlossaryEntry };
+
+// Upper bound on terms sent with each transcription request
+export const MAX_PROMPT_TERMS = 200;
+
+export const GLOSSARY_TERM_SELECT = {
+  id: true,
+  term: true,
+  variants: true,
+  phonetic: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+// The recording's workspace terms plus its creator's own, whose spelling wins
+// where both list the same term. Creators who deleted their account add none.
+export async function getGlossary(recording: { userId: string | null; workspaceId: string }): Promise<GlossaryEntry[]> {
+  const terms = await prisma.glossaryTerm.findMany({
+    where: {
+      OR: [
+        { workspaceId: recording.workspaceId },
+        ...(recording.userId ? [{ userId: recording.userId }] : [])
+      ]
+    },
+    select: { term: true, variants: true, phonetic: true, userId: true }
+  });
+
+  const merged = new Map<string, GlossaryEntry>();
+  for (const { userId, ...entry } of terms) {
+    const key = entry.term.toLowerCase();
+    if (userId || !merged.has(key)) merged.set(key, entry);
+  }
+
+  return [...merged.values()].sort((a, b) => a.term.localeCompare(b.term));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match of any variant (or the term in another
+// case); whitespace inside multi-word entries may vary
+const entryPattern = (entry: GlossaryEntry) => {
+  const alternatives = [entry.term, ...entry.variants]
+    .map((spelling) => spelling.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((spelling) => spelling.split(/\s+/).map(escapeRegExp).join('\\s+'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+// Post-pass over provider output: rewrite known misspellings to the preferred one
+export const normalizeTerms = (text: string, glossary: GlossaryEntry[]): string => {
+  let normalized = text;
+  for (const entry of glossary) {
+    normalized = normalized.replace(entryPattern(entry), entry.term);
+  }
+  return normalized;
+};
+
+export const applyGlossary = <T extends Pick<TranscribedSegment, 'text'>>(
+  segments: T[],
+  glossary: GlossaryEntry[]
+): T[] => {
+  if (glossary.length === 0) return segments;
+  return segments.map((segment) => ({ ...segment, text: normalizeTerms(segment.text, glossary) }));
+};
+
+export interface GlossaryInput {
+  term: string;
+  variants: string[];
+  phonetic: string | null;
+}
+
+// Validate a create/update body; `partial` allows leaving fields out
+export const parseGlossaryInput = (
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<GlossaryInput> } | { error: string } => {
+  const data: Partial<GlossaryInput> = {};
+
+  if (body.term !== undefined || !partial) {
+    if (typeof body.term !== 'string' || !body.term.trim() || body.term.length > 100) {
+      return { error: 'term must be 1-100 characters' };
+    }
+    data.term = body.term.trim();
+  }
+
+  if (body.variants !== undefined) {
+    if (
+      !Array.isArray(body.variants) ||
+      body.variants.length > 20 ||
+      !body.variants.every((variant) => typeof variant === 'string' && variant.length <= 100)
+    ) {
+      return { error: 'variants must be a list of up to 20 spellings' };
+    }
+    data.variants = [...new Set(body.variants.map((variant: string) => variant.trim()).filter(Boolean))];
+  } else if (!partial) {
+    data.variants = [];
+  }
+
+  if (body.phonetic !== undefined) {
+    if (body.phonetic !== null && (typeof body.phonetic !== 'string' || body.phonetic.length > 200)) {
+      return { error: 'phonetic must be at most 200 characters' };
+    }
+    data.phonetic = (body.phonetic as string | null)?.trim() || null;
+  }
+
+  return { data };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseRangeHeader } from './http-range';
+
+describe('parseRangeHeader', () => {
+  it('serves the whole file without a byte range', () => {
+    expect(parseRangeHeader(null, 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+  });
+
+  it('parses a closed range', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+  });
+
+  it('runs an open range to the end of the file', () => {
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('clamps the end to the last byte', () => {
+    expect(parseRangeHeader('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('takes the last bytes for a suffix range', () => {
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('uses the first of several ranges', () => {
+    expect(parseRangeHeader('bytes=0-9, 20-29', 1000)).toEqual({ start: 0, end: 9 });
+  });
+
+  it('rejects ranges outside the file', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=50-10', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+});
@@ -0,0 +1,34 @@
+import type { ByteRange } from './storage';
+
+// Parse a single-range `Range: bytes=...` header against a resource size.
+// Returns null when the header is absent or not a byte range (serve the whole
+// file), and 'unsatisfiable' when the range falls outside the resource.
+export const parseRangeHeader = (
+  header: string | null,
+  size: number
+): ByteRange | 'unsatisfiable' | null => {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)(?:,.*)?$/);
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+
+  // Suffix range: the last N bytes
+  if (startText === '') {
+    if (endText === '') return null;
+    const length = parseInt(endText, 10);
+    if (length === 0) return 'unsatisfiable';
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = parseInt(startText, 10);
+  const end = endText === '' ? size - 1 : Math.min(parseInt(endText, 10), size - 1);
+
+  if (start >= size || start > end) return 'unsatisfiable';
+
+  return { start, end };
+};
+
+export const weakEtag = (size: number, lastModified: Date) =>
+  `W/"${size.toString(16)}-${lastModified.getTime().toString(16)}"`;
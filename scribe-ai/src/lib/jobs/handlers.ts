@@ -0,0 +1,269 @@
+import prisma from '../prisma';
+import { getStorageForUrl } from '../storage';
+import {
+  atStage,
+  getSummarizationProvider,
+  getTranscriptionProvider,
+  parseStructuredSummary,
+  ProviderError
+} from '../providers';
+import { ensureSpeakers, getSpeakerNames } from '../speakers';
+import { formatTranscript } from '../transcript';
+import { applyGlossary, getGlossary, MAX_PROMPT_TERMS, normalizeTerms } from '../glossary';
+import { dominantLanguage, providerLanguage } from '../language';
+import { spokenLanguage } from '../preferences';
+import { renderStructuredSummary, resolveTemplate } from '../summary-templates';
+import { extractActionItems } from '../action-items';
+import { suggestTags } from '../tags';
+import { indexRecording } from '../search';
+import { translateRecording } from '../translations';
+import { saveSummaryVersion, saveTranscriptVersion, type VersionReason } from '../versions';
+import { enqueueJob } from './queue';
+import { Prisma } from '../../generated/prisma/client';
+import type {
+  JobHandler,
+  JobType,
+  ProcessingOptions,
+  ProcessingStage,
+  ReportProgress,
+  IndexJobPayload,
+  ReprocessJobPayload,
+  TranscribeJobPayload,
+  TranslateJobPayload
+} from './types';
+
+// Scale a stage's 0-100 progress into its share of the whole job
+const scaled = (report: ReportProgress, from: number, to: number): ReportProgress =>
+  (progress, stage) => report(from + ((to - from) * progress) / 100, stage);
+
+// Transcribe the stored audio from scratch, replacing any existing segments
+export async function transcribeRecording(
+  recordingId: string,
+  report: ReportProgress,
+  options: ProcessingOptions = {},
+  reason: VersionReason = 'transcribe'
+) {
+  const recording = await prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: { audioUrl: true, userId: true, workspaceId: true, language: true }
+  });
+
+  if (!recording) throw new ProviderError('UNKNOWN', 'Recording not found in database', null, { retriable: false });
+  if (!recording.audioUrl) throw new ProviderError('MISSING_AUDIO', 'No audio stored for this recording');
+
+  // Corrections are in the version history either way, but losing them has to be asked for
+  if (!options.overwriteEdits) {
+    const edited = await prisma.transcriptSegment.count({ where: { recordingId, edited: true } });
+    if (edited > 0) {
+      throw new ProviderError(
+        'TRANSCRIPT_EDITED',
+        'Transcript has manual corrections; re-transcribe with overwriteEdits to replace them',
+        null,
+        { retriable: false }
+      );
+    }
+  }
+
+  await report(5, 'Loading audio');
+  const storage = getStorageForUrl(recording.audioUrl);
+  const info = await storage.stat(recording.audioUrl);
+  if (!info) throw new ProviderError('MISSING_AUDIO', 'Audio file is missing from storage');
+  const audio = await storage.read(recording.audioUrl);
+
+  const glossary = await getGlossary(recording);
+  const language = providerLanguage(options.language ?? await spokenLanguage(recording));
+  const provider = getTranscriptionProvider(options.provider);
+  await report(20, `Transcribing with ${provider.name}`);
+  const transcribed = await provider
+    .transcribe(
+      new Blob([new Uint8Array(audio)], { type: info.contentType }),
+      { speakers: [], language, glossary: glossary.slice(0, MAX_PROMPT_TERMS) }
+    )
+    .catch((error) => { throw atStage(error, 'transcribe', provider.name); });
+  // Segments the provider didn't tag are assumed to be in the requested language
+  const segments = applyGlossary(transcribed, glossary)
+    .map((segment) => ({ ...segment, language: segment.language ?? language ?? null }));
+
+  if (segments.length === 0) {
+    throw new ProviderError('NO_SPEECH', 'No speech could be transcribed from the recording', provider.name);
+  }
+
+  await report(85, 'Saving transcript');
+  await ensureSpeakers(recordingId, segments.map((segment) => segment.speaker));
+  const transcript = formatTranscript(segments, await getSpeakerNames(recordingId));
+
+  await prisma.$transaction([
+    prisma.transcriptSegment.deleteMany({ where: { recordingId } }),
+    prisma.transcriptSegment.createMany({
+      data: segments.map((segment, index) => ({ recordingId, index, ...segment }))
+    }),
+    prisma.recording.update({
+      where: { id: recordingId },
+      data: { transcript, detectedLanguage: dominantLanguage(segments), status: 'PROCESSING' }
+    })
+  ]);
+  await saveTranscriptVersion(recordingId, transcript, reason, { provider: provider.name, model: provider.model });
+
+  await report(100, 'Transcript saved');
+}
+
+export async function summarizeRecording(
+  recordingId: string,
+  report: ReportProgress,
+  options: ProcessingOptions = {},
+  reason: VersionReason = 'summarize'
+) {
+  const recording = await prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: {
+      transcript: true,
+      userId: true,
+      workspaceId: true,
+      summaryLanguage: true,
+      detectedLanguage: true,
+      summaryTemplateId: true
+    }
+  });
+
+  if (!recording) throw new ProviderError('UNKNOWN', 'Recording not found in database', null, { retriable: false });
+  if (!recording.transcript?.trim()) throw new ProviderError('NO_SPEECH', 'Transcript is empty - nothing to summarize');
+
+  const provider = getSummarizationProvider(options.provider);
+  // Without a chosen output language, summarize in the language mostly spoken
+  const language = options.language ?? recording.summaryLanguage ?? recording.detectedLanguage ?? undefined;
+  // A template picked for this run may be one of its requester's own
+  const template = await resolveTemplate(options.templateId ?? recording.summaryTemplateId, {
+    userId: (options.templateId && options.requestedBy) || recording.userId,
+    workspaceId: recording.workspaceId
+  });
+  await report(10, `Summarizing with ${provider.name} (${template.name})`);
+  const reply = await provider
+    .summarize(recording.transcript, { language, template })
+    .then((text) => (template.schema ? parseStructuredSummary(text, provider.name) : text))
+    .catch((error) => { throw atStage(error, 'summarize', provider.name); });
+  const summary = normalizeTerms(
+    typeof reply === 'string' ? reply : renderStructuredSummary(reply, template.schema),
+    await getGlossary(recording)
+  );
+
+  await report(70, 'Saving summary');
+  await prisma.recording.update({
+    where: { id: recordingId },
+    data: {
+      summary,
+      summaryData: typeof reply === 'string' ? Prisma.DbNull : (reply as Prisma.InputJsonObject),
+      summaryTemplateId: template.id,
+      status: 'COMPLETED'
+    }
+  });
+  await saveSummaryVersion(recordingId, summary, reason, { provider: provider.name, model: provider.model });
+
+  // A failed extraction or suggestion is recorded but doesn't fail the summary it follows
+  await report(80, 'Extracting action items');
+  try {
+    await extractActionItems(recordingId, provider, language);
+  } catch (error) {
+    console.error('Action item extraction error:', error);
+    await recordRecordingError(recordingId, atStage(error, 'extract', provider.name));
+  }
+
+  await report(90, 'Suggesting tags');
+  try {
+    await suggestTags(recordingId, provider, language);
+  } catch (error) {
+    console.error('Tag suggestion error:', error);
+    await recordRecordingError(recordingId, atStage(error, 'tag', provider.name));
+  }
+
+  await report(100, 'Summary saved');
+}
+
+// Keep a record of every failed attempt
+export async function recordRecordingError(recordingId: string, error: ProviderError, jobId?: string) {
+  await prisma.recordingError.create({
+    data: {
+      recordingId,
+      jobId,
+      stage: error.stage ?? 'unknown',
+      provider: error.provider,
+      code: error.code,
+      message: error.message,
+      retriable: error.retriable
+    }
+  });
+}
+
+// No attempts left: the transcript and summary stay as they were
+export async function markRecordingFailed(recordingId: string) {
+  await prisma.recording.update({
+    where: { id: recordingId },
+    data: { status: 'FAILED' }
+  });
+}
+
+const runStages = async (recordingId: string, payload: ReprocessJobPayload, report: ReportProgress) => {
+  const { stages } = payload;
+
+  for (const [i, stage] of stages.entries()) {
+    const stageReport = scaled(report, (100 * i) / stages.length, (100 * (i + 1)) / stages.length);
+
+    try {
+      if (stage === 'transcribe') {
+        await transcribeRecording(recordingId, stageReport, payload.transcribe, 'reprocess');
+      } else {
+        await summarizeRecording(recordingId, stageReport, payload.summarize, 'reprocess');
+      }
+    } catch (error) {
+      throw atStage(error, stage);
+    }
+  }
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  TRANSCRIBE: async (job, report) => {
+    const payload = (job.payload ?? {}) as TranscribeJobPayload;
+    await transcribeRecording(job.recordingId, report);
+
+    if (payload.summarize !== false) {
+      await enqueueJob({ type: 'SUMMARIZE', recordingId: job.recordingId });
+    } else {
+      await prisma.recording.update({
+        where: { id: job.recordingId },
+        data: { status: 'COMPLETED' }
+      });
+    }
+  },
+
+  SUMMARIZE: async (job, report) => {
+    await summarizeRecording(job.recordingId, report);
+  },
+
+  INDEX: async (job, report) => {
+    await indexRecording(job.recordingId, report, (job.payload ?? {}) as IndexJobPayload);
+  },
+
+  TRANSLATE: async (job, report) => {
+    const payload = (job.payload ?? {}) as Partial<TranslateJobPayload>;
+    if (!payload.language) {
+      throw new ProviderError('UNKNOWN', 'Translation job has no language', null, { retriable: false });
+    }
+    await translateRecording(job.recordingId, payload.language, report, payload.provider);
+  },
+
+  REPROCESS: async (job, report) => {
+    const payload = (job.payload ?? {}) as Partial<ReprocessJobPayload>;
+    const stages = payload.stages?.length ? payload.stages : (['transcribe', 'summarize'] as ProcessingStage[]);
+
+    await prisma.recording.update({
+      where: { id: job.recordingId },
+      data: { status: 'PROCESSING' }
+    });
+    await runStages(job.recordingId, { ...payload, stages }, report);
+
+    // A transcript-only reprocess doesn't pass through summarizeRecording
+    await prisma.recording.update({
+      where: { id: job.recordingId },
+      data: { status: 'COMPLETED' }
+    });
+  }
+};
@@ -0,0 +1,13 @@
+export { enqueueJob } from './queue';
+export { JobWorker, recoverStalledRecordings } from './worker';
+export { startJobEventRelay } from './relay';
+export type {
+  JobEvent,
+  JobStatus,
+  JobType,
+  ProcessingOptions,
+  ProcessingStage,
+  ReprocessJobPayload,
+  TranscribeJobPayload,
+  TranslateJobPayload
+} from './types';
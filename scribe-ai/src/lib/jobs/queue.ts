@@ -0,0 +1,157 @@
+import prisma from '../prisma';
+import type { Prisma } from '../../generated/prisma/client';
+import type { ProviderError } from '../providers';
+import type { Job, JobEvent, JobType } from './types';
+
+const backoff = {
+  baseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000', 10),
+  maxMs: parseInt(process.env.JOB_BACKOFF_MAX_MS || '600000', 10)
+};
+
+export const toJobEvent = (job: Job): JobEvent => ({
+  jobId: job.id,
+  type: job.type,
+  recordingId: job.recordingId,
+  status: job.status,
+  progress: job.progress,
+  stage: job.stage,
+  attempts: job.attempts,
+  error: job.lastError,
+  retryAt: job.status === 'PENDING' && job.attempts > 0 ? job.runAt : null
+});
+
+// Queue work for a recording. An identical job that is still waiting or running
+// is reused, so a retried handler can't queue its follow-up twice. INDEX jobs
+// read the transcript when they start, so only a waiting one covers a change.
+// TRANSLATE jobs are only identical into the same language.
+export async function enqueueJob(options: {
+  type: JobType;
+  recordingId: string;
+  payload?: Prisma.InputJsonValue;
+  runAt?: Date;
+  maxAttempts?: number;
+}): Promise<Job> {
+  const existing = await prisma.job.findFirst({
+    where: {
+      type: options.type,
+      recordingId: options.recordingId,
+      status: { in: options.type === 'INDEX' ? ['PENDING'] : ['PENDING', 'RUNNING'] },
+      ...(options.type === 'TRANSLATE' && { payload: { equals: options.payload } })
+    }
+  });
+  if (existing) return existing;
+
+  return prisma.job.create({
+    data: {
+      type: options.type,
+      recordingId: options.recordingId,
+      payload: options.payload,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts
+    }
+  });
+}
+
+// Take the next due job. RUNNING jobs whose lock is older than `lockTimeoutMs`
+// belonged to a worker that died and are taken over. The conditional update
+// makes the claim safe with several workers polling the same table.
+export async function claimNextJob(workerId: string, lockTimeoutMs: number): Promise<Job | null> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - lockTimeoutMs);
+
+  const candidates = await prisma.job.findMany({
+    where: {
+      OR: [
+        { status: 'PENDING', runAt: { lte: now } },
+        { status: 'RUNNING', lockedAt: { lt: staleBefore } }
+      ]
+    },
+    orderBy: { runAt: 'asc' },
+    take: 5
+  });
+
+  for (const job of candidates) {
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: job.status, lockedAt: job.lockedAt },
+      data: {
+        status: 'RUNNING',
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+        progress: 0,
+        stage: null
+      }
+    });
+
+    if (count === 1) {
+      return prisma.job.findUnique({ where: { id: job.id } });
+    }
+  }
+
+  return null;
+}
+
+// Thrown into a handler whose job was taken over by another worker, so it
+// stops instead of writing results twice
+export class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lock on job ${jobId} to another worker`);
+    this.name = 'JobLockLostError';
+  }
+}
+
+// Updates a job only while this worker still holds its lock. Null when the
+// lock went stale and another worker claimed the job.
+async function updateLockedJob(jobId: string, workerId: string, data: Prisma.JobUpdateManyMutationInput): Promise<Job | null> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: 'RUNNING', lockedBy: workerId },
+    data
+  });
+  return count === 1 ? prisma.job.findUnique({ where: { id: jobId } }) : null;
+}
+
+// Keep the lock fresh so long-running jobs aren't taken for orphaned
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: 'RUNNING', lockedBy: workerId },
+    data: { lockedAt: new Date() }
+  });
+  return count === 1;
+}
+
+export async function updateJobProgress(jobId: string, workerId: string, progress: number, stage: string): Promise<Job> {
+  const job = await updateLockedJob(jobId, workerId, {
+    progress: Math.max(0, Math.min(100, Math.round(progress))),
+    stage,
+    lockedAt: new Date()
+  });
+  if (!job) throw new JobLockLostError(jobId);
+  return job;
+}
+
+export async function completeJob(jobId: string, workerId: string): Promise<Job | null> {
+  return updateLockedJob(jobId, workerId, {
+    status: 'COMPLETED',
+    progress: 100,
+    completedAt: new Date(),
+    lockedAt: null,
+    lockedBy: null,
+    lastError: null
+  });
+}
+
+// Reschedule with exponential backoff, or give up once attempts are used up or
+// the error can't be fixed by retrying. Null when another worker has taken the
+// job over; its result stands.
+export async function failJob(job: Job, workerId: string, error: ProviderError): Promise<Job | null> {
+  const exhausted = !error.retriable || job.attempts >= job.maxAttempts;
+  const delay = Math.min(backoff.maxMs, backoff.baseMs * 2 ** Math.max(0, job.attempts - 1));
+
+  return updateLockedJob(job.id, workerId, {
+    status: exhausted ? 'FAILED' : 'PENDING',
+    runAt: exhausted ? undefined : new Date(Date.now() + delay),
+    lockedAt: null,
+    lockedBy: null,
+    lastError: error.message
+  });
+}
@@ -0,0 +1,34 @@
+import prisma from '../prisma';
+import { toJobEvent } from './queue';
+import type { JobEvent } from './types';
+
+// When jobs run in a separate worker process, pick up their state changes from
+// the Job table so the socket server can still relay progress
+export function startJobEventRelay(onEvent: (event: JobEvent) => void, intervalMs = 1000) {
+  let since = new Date();
+  let polling = false;
+
+  const timer = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      const jobs = await prisma.job.findMany({
+        where: { updatedAt: { gt: since } },
+        orderBy: { updatedAt: 'asc' },
+        take: 100
+      });
+
+      for (const job of jobs) {
+        since = job.updatedAt;
+        onEvent(toJobEvent(job));
+      }
+    } catch (error) {
+      console.error('[jobs] Event relay error:', error);
+    } finally {
+      polling = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
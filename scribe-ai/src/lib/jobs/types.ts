@@ -0,0 +1,63 @@
+import type { Job, JobStatus, JobType } from '../../generated/prisma/client';
+
+export type { Job, JobStatus, JobType };
+
+export type ProcessingStage = 'transcribe' | 'summarize';
+
+export interface IndexJobPayload {
+  // Earlier runs that saved chunks without embeddings, for backing off
+  embedRetries?: number;
+}
+
+export interface TranscribeJobPayload {
+  // Queue a summary once the transcript is written (default true)
+  summarize?: boolean;
+}
+
+// Overrides for a single processing run
+export interface ProcessingOptions {
+  // Provider name, e.g. "whisper" or "ollama"; the configured default when unset
+  provider?: string;
+  // Transcription: spoken language hint, or "auto" to detect it; the
+  // recording's language when unset. Summarization: language to write in
+  language?: string;
+  // Replace a transcript that has hand-corrected segments
+  overwriteEdits?: boolean;
+  // Summarization: built-in or SummaryTemplate id, kept for later summaries;
+  // the recording's template when unset
+  templateId?: string;
+  // Summarization: who chose `templateId`, which may be one of their own
+  // templates; the recording's template is looked up among its creator's
+  requestedBy?: string;
+}
+
+export interface TranslateJobPayload {
+  language: string;
+  // Provider name; the configured default when unset
+  provider?: string;
+}
+
+export interface ReprocessJobPayload {
+  stages: ProcessingStage[];
+  // Separate overrides per stage, since one provider rarely does both
+  transcribe?: Omit<ProcessingOptions, 'templateId'>;
+  summarize?: Omit<ProcessingOptions, 'overwriteEdits'>;
+}
+
+// Job state changes, relayed to the recording's socket room
+export interface JobEvent {
+  jobId: string;
+  type: JobType;
+  recordingId: string;
+  status: JobStatus;
+  progress: number;
+  stage: string | null;
+  attempts: number;
+  error: string | null;
+  // Set when a failed attempt has been rescheduled
+  retryAt: Date | null;
+}
+
+export type ReportProgress = (progress: number, stage: string) => Promise<void>;
+
+export type JobHandler = (job: Job, report: ReportProgress) => Promise<void>;
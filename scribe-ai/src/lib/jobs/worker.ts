@@ -0,0 +1,179 @@
+import os from 'os';
+import prisma from '../prisma';
+import { atStage, ProviderError } from '../providers';
+import { getPreferences } from '../preferences';
+import { queueMissingSearchIndexes } from '../search';
+import { jobHandlers, markRecordingFailed, recordRecordingError } from './handlers';
+import {
+  claimNextJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  heartbeatJob,
+  JobLockLostError,
+  toJobEvent,
+  updateJobProgress
+} from './queue';
+import type { Job, JobEvent } from './types';
+
+export interface JobWorkerOptions {
+  pollIntervalMs?: number;
+  // A RUNNING job whose lock hasn't been refreshed for this long is assumed
+  // orphaned and taken over. Running jobs refresh it a few times per period.
+  lockTimeoutMs?: number;
+  onEvent?: (event: JobEvent) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Polls the Job table and runs one job at a time. Several workers (the one in
+// server.ts and any `npm run worker` processes) can share the table.
+export class JobWorker {
+  readonly id = `${os.hostname()}:${process.pid}`;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private lastRecoveryAt = 0;
+
+  constructor(private readonly options: JobWorkerOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs
+      ?? parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+    this.lockTimeoutMs = options.lockTimeoutMs
+      ?? parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000', 10);
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.run();
+    console.log(`[jobs] Worker ${this.id} started`);
+  }
+
+  // Finish the job in hand, then stop polling
+  async stop() {
+    this.running = false;
+    await this.loop;
+    console.log(`[jobs] Worker ${this.id} stopped`);
+  }
+
+  private async run() {
+    while (this.running) {
+      try {
+        if (Date.now() - this.lastRecoveryAt > this.lockTimeoutMs) {
+          this.lastRecoveryAt = Date.now();
+          await recoverStalledRecordings(this.lockTimeoutMs);
+          await queueMissingSearchIndexes();
+        }
+
+        const job = await claimNextJob(this.id, this.lockTimeoutMs);
+        if (job) {
+          await this.process(job);
+          continue;
+        }
+      } catch (error) {
+        console.error('[jobs] Worker loop error:', error);
+      }
+      await sleep(this.pollIntervalMs);
+    }
+  }
+
+  private async process(job: Job) {
+    console.log(`[jobs] Running ${job.type} ${job.id} for ${job.recordingId} (attempt ${job.attempts}/${job.maxAttempts})`);
+    this.emit(job);
+
+    // Taken over from a worker that died on its last allowed attempt
+    if (job.attempts > job.maxAttempts) {
+      await this.fail(job, new ProviderError('TIMEOUT', 'Job was interrupted too many times', null, { retriable: false }));
+      return;
+    }
+
+    // Provider calls can run far longer than the lock timeout between progress reports
+    const heartbeat = setInterval(() => {
+      heartbeatJob(job.id, this.id)
+        .then((held) => {
+          if (!held) console.warn(`[jobs] Lost the lock on ${job.type} ${job.id}`);
+        })
+        .catch((error) => console.error('[jobs] Heartbeat failed:', error));
+    }, Math.max(1000, Math.floor(this.lockTimeoutMs / 3)));
+
+    try {
+      await jobHandlers[job.type](job, async (progress, stage) => {
+        this.emit(await updateJobProgress(job.id, this.id, progress, stage));
+      });
+
+      const completed = await completeJob(job.id, this.id);
+      if (completed) {
+        this.emit(completed);
+        console.log(`[jobs] Completed ${job.type} ${job.id}`);
+      } else {
+        console.warn(`[jobs] ${job.type} ${job.id} finished after another worker took it over`);
+      }
+    } catch (error) {
+      if (error instanceof JobLockLostError) {
+        console.warn(`[jobs] Stopped ${job.type} ${job.id}:`, error.message);
+      } else {
+        await this.fail(job, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async fail(job: Job, error: unknown) {
+    const failure = atStage(error, job.type.toLowerCase());
+    await recordRecordingError(job.recordingId, failure, job.id)
+      .catch((recordError) => console.error('[jobs] Failed to record error:', recordError));
+
+    const failed = await failJob(job, this.id, failure);
+
+    if (!failed) {
+      console.warn(`[jobs] ${job.type} ${job.id} failed after another worker took it over:`, error);
+      return;
+    }
+
+    if (failed.status === 'FAILED') {
+      console.error(`[jobs] ${job.type} ${job.id} failed permanently (${failure.code}):`, error);
+      // The recording itself is fine without a search index or a translation
+      if (job.type !== 'INDEX' && job.type !== 'TRANSLATE') await markRecordingFailed(job.recordingId);
+    } else {
+      console.warn(`[jobs] ${job.type} ${job.id} failed, retrying at ${failed.runAt.toISOString()}:`, error);
+    }
+    this.emit(failed);
+  }
+
+  private emit(job: Job) {
+    try {
+      this.options.onEvent?.(toJobEvent(job));
+    } catch (error) {
+      console.error('[jobs] Event listener error:', error);
+    }
+  }
+}
+
+// Recordings left in PROCESSING with no job to finish them, e.g. because the
+// server stopped between storing the audio and queueing its post-processing
+export async function recoverStalledRecordings(stalledForMs: number) {
+  const stalled = await prisma.recording.findMany({
+    where: {
+      status: 'PROCESSING',
+      updatedAt: { lt: new Date(Date.now() - stalledForMs) },
+      jobs: { none: { status: { in: ['PENDING', 'RUNNING'] }, type: { notIn: ['INDEX', 'TRANSLATE'] } } }
+    },
+    select: { id: true, audioUrl: true, userId: true }
+  });
+
+  for (const recording of stalled) {
+    if (recording.audioUrl) {
+      console.warn(`[jobs] Re-queueing transcription for stalled recording ${recording.id}`);
+      const { autoSummarize } = await getPreferences(recording.userId);
+      await enqueueJob({ type: 'TRANSCRIBE', recordingId: recording.id, payload: { summarize: autoSummarize } });
+    } else {
+      await recordRecordingError(
+        recording.id,
+        atStage(new ProviderError('MISSING_AUDIO', 'Recording audio was not saved'), 'capture')
+      );
+      await markRecordingFailed(recording.id);
+    }
+  }
+}
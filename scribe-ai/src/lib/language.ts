@@ -0,0 +1,57 @@
+// Language tags as stored on recordings and preferences: BCP 47 tags such as
+// "en-US" or "de", or "auto" for spoken language the provider should detect.
+
+import type { TranscribedSegment } from './transcript';
+
+export const AUTO_LANGUAGE = 'auto';
+
+// Offered in the settings and new recording pages; the API accepts any tag
+export const LANGUAGE_OPTIONS = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'German' },
+  { value: 'es-ES', label: 'Spanish' },
+  { value: 'fr-FR', label: 'French' },
+  { value: 'it-IT', label: 'Italian' },
+  { value: 'nl-NL', label: 'Dutch' },
+  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { value: 'pl-PL', label: 'Polish' },
+  { value: 'hi-IN', label: 'Hindi' },
+  { value: 'ja-JP', label: 'Japanese' },
+  { value: 'zh-CN', label: 'Chinese (Simplified)' }
+];
+
+export const isLanguageTag = (value: unknown): value is string =>
+  typeof value === 'string' && /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(value);
+
+// Language tag as providers take it: "en-US" -> "en"; undefined means detect
+export const providerLanguage = (language: string): string | undefined =>
+  language === AUTO_LANGUAGE ? undefined : language.split('-')[0].toLowerCase();
+
+// English name for prompts and labels, e.g. "de" -> "German"
+export const languageName = (language: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+};
+
+// The language spoken for the longest total time
+export const dominantLanguage = (
+  segments: Pick<TranscribedSegment, 'startMs' | 'endMs' | 'language'>[]
+): string | null => {
+  const spoken = new Map<string, number>();
+  for (const segment of segments) {
+    if (!segment.language) continue;
+    // Zero-length segments still count for something
+    const length = Math.max(1, segment.endMs - segment.startMs);
+    spoken.set(segment.language, (spoken.get(segment.language) ?? 0) + length);
+  }
+
+  let dominant: string | null = null;
+  for (const [language, ms] of spoken) {
+    if (dominant === null || ms > spoken.get(dominant)!) dominant = language;
+  }
+  return dominant;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { removeOverlap } from './live-transcriber';
+
+describe('removeOverlap', () => {
+  it('drops the words repeated from the previous window', () => {
+    expect(removeOverlap('we should ship the release on friday', 'on friday after the review'))
+      .toBe('after the review');
+  });
+
+  it('ignores case and punctuation when matching', () => {
+    expect(removeOverlap('Ship it on Friday.', 'on friday, after the review'))
+      .toBe('after the review');
+  });
+
+  it('skips a few leading words cut off mid-word', () => {
+    expect(removeOverlap('the release on friday', 'day on friday after lunch'))
+      .toBe('after lunch');
+  });
+
+  it('keeps text that does not repeat the previous window', () => {
+    expect(removeOverlap('the release on friday', 'after lunch we met')).toBe('after lunch we met');
+  });
+
+  it('needs at least two words to count as overlap', () => {
+    expect(removeOverlap('see you friday', 'friday works')).toBe('friday works');
+  });
+
+  it('returns the text unchanged when either side is empty', () => {
+    expect(removeOverlap('', 'hello there')).toBe('hello there');
+    expect(removeOverlap('hello there', '')).toBe('');
+  });
+});
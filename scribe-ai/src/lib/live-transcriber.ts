@@ -0,0 +1,250 @@
+// Rolling-window transcription for recordings in progress.
+//
+// Audio arrives as MediaRecorder chunks of roughly `chunkMs` each. Every
+// `windowMs` of new audio the newest window (plus `overlapMs` of the previous
+// one, so words cut at the boundary are heard in full) is sent to the
+// transcription provider and its segments are committed. In between, the
+// uncommitted audio is transcribed every `partialMs` to give interim text.
+//
+// Only the first chunk of a WebM/Ogg stream carries the container header, so it
+// is prepended to every window to keep each request decodable on its own.
+
+import { formatTranscript, type TranscribedSegment, type TranscriptionContext } from './transcript';
+
+// A segment with times made absolute within the recording
+export interface CommittedSegment extends TranscribedSegment {
+  index: number;
+}
+
+export interface LiveTranscriberOptions {
+  mimeType: string;
+  transcribe: (audio: Blob, context: TranscriptionContext) => Promise<TranscribedSegment[]>;
+  onPartial?: (text: string) => void;
+  onCommit?: (segments: CommittedSegment[]) => void;
+  onError?: (error: unknown) => void;
+  chunkMs?: number;
+  windowMs?: number;
+  overlapMs?: number;
+  partialMs?: number;
+}
+
+const DEFAULTS = {
+  chunkMs: 1000,
+  windowMs: 15000,
+  overlapMs: 2000,
+  partialMs: 5000
+};
+
+export class LiveTranscriber {
+  private readonly chunkMs: number;
+  private readonly windowChunks: number;
+  private readonly overlapChunks: number;
+  private readonly partialChunks: number;
+
+  private header: Buffer | null = null;
+  // Chunks kept in memory, starting at absolute chunk index `bufferStart`
+  private buffer: Buffer[] = [];
+  private bufferStart = 0;
+  private totalChunks = 0;
+  private committedChunks = 0;
+  // Commits are queued ahead of time; this tracks how far they will reach
+  private scheduledChunks = 0;
+  private lastPartialAt = 0;
+
+  private readonly segments: CommittedSegment[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private busy = false;
+
+  constructor(private readonly options: LiveTranscriberOptions) {
+    this.chunkMs = options.chunkMs ?? DEFAULTS.chunkMs;
+    this.windowChunks = Math.max(1, Math.round((options.windowMs ?? DEFAULTS.windowMs) / this.chunkMs));
+    this.overlapChunks = Math.round((options.overlapMs ?? DEFAULTS.overlapMs) / this.chunkMs);
+    this.partialChunks = Math.round((options.partialMs ?? DEFAULTS.partialMs) / this.chunkMs);
+  }
+
+  push(chunk: Buffer) {
+    if (!this.header) this.header = chunk;
+
+    this.buffer.push(chunk);
+    this.totalChunks++;
+
+    const pending = this.totalChunks - this.scheduledChunks;
+
+    if (pending >= this.windowChunks) {
+      this.scheduleCommit();
+    } else if (
+      this.partialChunks > 0 &&
+      !this.busy &&
+      this.totalChunks - this.lastPartialAt >= this.partialChunks
+    ) {
+      // Interim results are best-effort: skip them while a request is in flight
+      this.lastPartialAt = this.totalChunks;
+      const end = this.totalChunks;
+      this.enqueue(() => this.partial(end));
+    }
+  }
+
+  // Commit whatever audio is left and wait for all in-flight work
+  async flush(): Promise<CommittedSegment[]> {
+    if (this.totalChunks > this.scheduledChunks) {
+      this.scheduleCommit();
+    }
+    await this.queue;
+
+    // A failed window stays uncommitted; give it one more attempt
+    if (this.committedChunks < this.totalChunks) {
+      this.scheduleCommit();
+      await this.queue;
+    }
+    return this.getSegments();
+  }
+
+  getSegments(): CommittedSegment[] {
+    return [...this.segments];
+  }
+
+  transcript(): string {
+    return formatTranscript(this.segments);
+  }
+
+  private scheduleCommit() {
+    const end = this.totalChunks;
+    this.scheduledChunks = end;
+    this.enqueue(() => this.commit(end));
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(async () => {
+      this.busy = true;
+      try {
+        await task();
+      } catch (error) {
+        this.options.onError?.(error);
+      } finally {
+        this.busy = false;
+      }
+    });
+  }
+
+  private async partial(end: number) {
+    // A commit may have caught up since this was scheduled
+    if (end <= this.scheduledChunks) return;
+
+    const segments = await this.options.transcribe(this.windowBlob(this.committedChunks, end), this.context());
+    const text = segments.map(segment => segment.text).join(' ');
+    const interim = removeOverlap(this.lastCommittedText(), text.trim());
+
+    if (interim) this.options.onPartial?.(interim);
+  }
+
+  private async commit(end: number) {
+    const start = this.committedChunks;
+    if (end <= start) return;
+
+    const withOverlap = Math.max(0, start - this.overlapChunks);
+    const transcribed = await this.options.transcribe(this.windowBlob(withOverlap, end), this.context());
+
+    // Provider times are relative to the window, which begins with the header
+    // chunk's audio whenever that chunk was prepended
+    const windowStartMs = withOverlap * this.chunkMs;
+    const headerMs = withOverlap > 0 ? this.chunkMs : 0;
+    const commitStartMs = start * this.chunkMs;
+    const commitEndMs = end * this.chunkMs;
+
+    const committed: CommittedSegment[] = [];
+    for (const segment of transcribed) {
+      if (segment.endMs <= headerMs) continue;
+
+      const startMs = windowStartMs + Math.max(0, segment.startMs - headerMs);
+      const endMs = Math.min(commitEndMs, windowStartMs + segment.endMs - headerMs);
+      const previousEndMs = committed[committed.length - 1]?.endMs
+        ?? this.segments[this.segments.length - 1]?.endMs
+        ?? 0;
+
+      // Segments mostly inside the overlap were committed with the previous window
+      if (start > 0 && (startMs + endMs) / 2 < commitStartMs) continue;
+
+      const text = committed.length === 0 && start > 0
+        ? removeOverlap(this.lastCommittedText(), segment.text.trim())
+        : segment.text.trim();
+      if (!text) continue;
+
+      committed.push({
+        ...segment,
+        index: this.segments.length + committed.length,
+        startMs: Math.max(startMs, previousEndMs),
+        endMs: Math.max(endMs, startMs, previousEndMs),
+        text
+      });
+    }
+
+    this.segments.push(...committed);
+    this.committedChunks = end;
+    this.trimBuffer();
+    if (committed.length > 0) this.options.onCommit?.(committed);
+  }
+
+  // Each window is diarized on its own; pass the labels used so far so the
+  // provider keeps numbering the same voices the same way
+  private context(): TranscriptionContext {
+    const speakers = [...new Set(
+      this.segments.map(segment => segment.speaker).filter((speaker): speaker is string => !!speaker)
+    )];
+    const recent = this.segments.slice(-3);
+
+    return {
+      speakers,
+      previousText: recent.length > 0 ? formatTranscript(recent) : undefined
+    };
+  }
+
+  private lastCommittedText() {
+    return this.segments[this.segments.length - 1]?.text ?? '';
+  }
+
+  private windowBlob(from: number, to: number): Blob {
+    const chunks = this.buffer.slice(from - this.bufferStart, to - this.bufferStart);
+    const parts = from === 0 || !this.header ? chunks : [this.header, ...chunks];
+
+    return new Blob(parts.map(part => new Uint8Array(part)), { type: this.options.mimeType });
+  }
+
+  // Drop audio that can no longer be part of a future window
+  private trimBuffer() {
+    const keepFrom = Math.max(0, this.committedChunks - this.overlapChunks);
+    const drop = keepFrom - this.bufferStart;
+    if (drop > 0) {
+      this.buffer.splice(0, drop);
+      this.bufferStart = keepFrom;
+    }
+  }
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Strip the leading words of `next` that repeat the tail of `previous` because
+// the two windows overlapped. The overlap audio can start mid-word, so the
+// match may begin a few words into `next`.
+export const removeOverlap = (previous: string, next: string, maxWords = 40): string => {
+  if (!previous || !next) return next;
+
+  const prevWords = previous.split(/\s+/).filter(Boolean);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+  const prevNorm = prevWords.map(normalizeWord);
+  const nextNorm = nextWords.map(normalizeWord);
+
+  const limit = Math.min(maxWords, prevWords.length, nextWords.length);
+
+  for (let offset = 0; offset <= 3; offset++) {
+    for (let size = limit - offset; size >= 2; size--) {
+      const tail = prevNorm.slice(prevNorm.length - size);
+      const head = nextNorm.slice(offset, offset + size);
+
+      if (head.length === size && tail.every((word, i) => word === head[i])) {
+        return nextWords.slice(offset + size).join(' ');
+      }
+    }
+  }
+
+  return next;
+};
@@ -0,0 +1,78 @@
+import prisma from './prisma';
+import { AUTO_LANGUAGE, isLanguageTag } from './language';
+
+export const THEMES = ['light', 'dark', 'system'] as const;
+export type Theme = (typeof THEMES)[number];
+
+export interface Preferences {
+  transcriptionLanguage: string;
+  autoSummarize: boolean;
+  emailNotifications: boolean;
+  theme: Theme;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  transcriptionLanguage: 'en-US',
+  autoSummarize: true,
+  emailNotifications: true,
+  theme: 'system'
+};
+
+export const isTheme = (value: unknown): value is Theme =>
+  typeof value === 'string' && (THEMES as readonly string[]).includes(value);
+
+// Users without a saved row get the defaults, as do recordings whose creator
+// has deleted their account
+export async function getPreferences(userId: string | null): Promise<Preferences> {
+  if (!userId) return DEFAULT_PREFERENCES;
+
+  const stored = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: { transcriptionLanguage: true, autoSummarize: true, emailNotifications: true, theme: true }
+  });
+  if (!stored) return DEFAULT_PREFERENCES;
+
+  return {
+    ...stored,
+    theme: isTheme(stored.theme) ? stored.theme : DEFAULT_PREFERENCES.theme
+  };
+}
+
+// The language a recording is spoken in: its own choice, else its owner's preference
+export async function spokenLanguage(recording: { userId: string | null; language: string | null }): Promise<string> {
+  return recording.language ?? (await getPreferences(recording.userId)).transcriptionLanguage;
+}
+
+// Validate an update body; fields left out keep their current value
+export const parsePreferences = (
+  body: Record<string, unknown>
+): { data: Partial<Preferences> } | { error: string } => {
+  const data: Partial<Preferences> = {};
+
+  if (body.transcriptionLanguage !== undefined) {
+    if (
+      typeof body.transcriptionLanguage !== 'string' ||
+      (body.transcriptionLanguage !== AUTO_LANGUAGE && !isLanguageTag(body.transcriptionLanguage))
+    ) {
+      return { error: 'transcriptionLanguage must be a language tag such as "en-US", or "auto"' };
+    }
+    data.transcriptionLanguage = body.transcriptionLanguage;
+  }
+
+  for (const field of ['autoSummarize', 'emailNotifications'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') {
+      return { error: `${field} must be true or false` };
+    }
+    data[field] = body[field];
+  }
+
+  if (body.theme !== undefined) {
+    if (!isTheme(body.theme)) {
+      return { error: `theme must be one of: ${THEMES.join(', ')}` };
+    }
+    data.theme = body.theme;
+  }
+
+  return { data };
+};
@@ -0,0 +1,59 @@
+import type { ProcessingErrorCode } from '../../generated/prisma/client';
+
+export type { ProcessingErrorCode };
+
+// Whether retrying the same request can succeed on its own
+const RETRIABLE: Record<ProcessingErrorCode, boolean> = {
+  INVALID_API_KEY: false,
+  QUOTA_EXCEEDED: true,
+  NETWORK: true,
+  TIMEOUT: true,
+  PROVIDER_UNAVAILABLE: false,
+  INVALID_RESPONSE: true,
+  EMPTY_AUDIO: false,
+  NO_SPEECH: false,
+  MISSING_AUDIO: false,
+  TRANSCRIPT_EDITED: false,
+  UNKNOWN: true
+};
+
+// Failure from a transcription/summarization backend with a typed code
+export class ProviderError extends Error {
+  readonly retriable: boolean;
+  // Processing stage that failed, filled in by the job that called the provider
+  stage: string | null = null;
+
+  constructor(
+    readonly code: ProcessingErrorCode,
+    message: string,
+    readonly provider: string | null = null,
+    options?: { retriable?: boolean; cause?: unknown }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = 'ProviderError';
+    this.retriable = options?.retriable ?? RETRIABLE[code];
+  }
+}
+
+const NETWORK_PATTERNS = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'fetch failed', 'network'];
+
+// Classify anything thrown during processing
+export const toProviderError = (error: unknown, provider: string | null = null): ProviderError => {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (NETWORK_PATTERNS.some((pattern) => message.includes(pattern))) {
+    return new ProviderError('NETWORK', message, provider, { cause: error });
+  }
+  if (message.includes('ETIMEDOUT') || message.toLowerCase().includes('timed out')) {
+    return new ProviderError('TIMEOUT', message, provider, { cause: error });
+  }
+  return new ProviderError('UNKNOWN', message || 'Unknown error', provider, { cause: error });
+};
+
+export const atStage = (error: unknown, stage: string, provider: string | null = null): ProviderError => {
+  const classified = toProviderError(error, provider);
+  classified.stage ??= stage;
+  return classified;
+};
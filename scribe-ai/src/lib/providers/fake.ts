@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { ProviderError } from './errors';
+import { EMBEDDING_DIMENSIONS } from './types';
+import type {
+  ActionItemContext,
+  ChatContext,
+  ChatProvider,
+  ChatTurn,
+  EmbeddingProvider,
+  ExtractedActionItem,
+  SummarizationProvider,
+  SummaryOptions,
+  TagContext,
+  TranscribedSegment,
+  TranscriptionContext,
+  TranscriptionProvider,
+  TranslationProvider
+} from './types';
+
+// Roughly the size of one second of Opus audio at MediaRecorder's default bitrate
+const BYTES_PER_SECOND = 16000;
+
+const digest = (data: Buffer | string) => createHash('sha1').update(data).digest('hex').slice(0, 8);
+
+// Deterministic stand-in for tests and local development without any model:
+// the same audio always yields the same segments, one per started second
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'fake';
+  readonly model = null;
+
+  async transcribe(audio: Blob, context?: TranscriptionContext): Promise<TranscribedSegment[]> {
+    if (audio.size === 0) {
+      throw new ProviderError('EMPTY_AUDIO', 'Audio blob is empty - no data to transcribe', this.name);
+    }
+
+    const bytes = Buffer.from(await audio.arrayBuffer());
+    const seconds = Math.max(1, Math.ceil(bytes.length / BYTES_PER_SECOND));
+
+    return Array.from({ length: seconds }, (_, i) => ({
+      startMs: i * 1000,
+      endMs: (i + 1) * 1000,
+      speaker: `Speaker ${(i % 2) + 1}`,
+      text: `Fake segment ${digest(bytes.subarray(i * BYTES_PER_SECOND, (i + 1) * BYTES_PER_SECOND))}.`,
+      confidence: 1,
+      language: context?.language ?? 'en'
+    }));
+  }
+}
+
+export class FakeSummarizationProvider implements SummarizationProvider {
+  readonly name = 'fake';
+  readonly model = null;
+
+  async summarize(transcript: string, options?: SummaryOptions): Promise<string> {
+    if (!transcript || transcript.trim().length === 0) {
+      throw new ProviderError('NO_SPEECH', 'Transcript is empty - nothing to summarize', this.name);
+    }
+
+    const lines = transcript.split('\n').filter(Boolean);
+    const template = options?.template;
+
+    // Structured templates get each top-level property of their schema filled in
+    if (template?.schema) {
+      const properties = (template.schema.properties ?? {}) as Record<string, { type?: string }>;
+      return JSON.stringify(Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [
+          key,
+          property.type === 'array' ? lines.slice(0, 3) : `Fake ${key} ${digest(transcript)}`
+        ])
+      ));
+    }
+
+    if (template) {
+      return template.sections
+        .map((section, i) => {
+          const body = i === 0
+            ? `Fake ${template.name} summary ${digest(transcript)}.`
+            : `- ${lines[i - 1] ?? section.description}`;
+          return `## ${section.title}\n${body}`;
+        })
+        .join('\n\n');
+    }
+
+    return `## Overview
+Fake summary ${digest(transcript)} of ${lines.length} transcript lines${options?.language ? ` in ${options.language}` : ''}.
+
+## Key Points
+${lines.slice(0, 3).map((line) => `- ${line}`).join('\n')}
+
+## Action Items
+- No specific action items mentioned
+
+## Important Details
+- No critical details to highlight`;
+  }
+
+  // Lines promising something ("I will...", "TODO") become items owned by their speaker
+  async extractActionItems(lines: string[], context: ActionItemContext): Promise<ExtractedActionItem[]> {
+    return lines.flatMap((line, i) => {
+      const match = line.match(/^([^:]+):\s*(.*)$/);
+      const text = match ? match[2] : line;
+      if (!/\b(will|todo|action item)\b/i.test(text)) return [];
+
+      return [{ text, owner: match ? match[1].trim() : null, dueDate: /\btoday\b/i.test(text) ? context.date : null, line: i }];
+    });
+  }
+
+  // Existing tags the summary mentions, plus its longest word
+  async suggestTags(summary: string, context: TagContext): Promise<string[]> {
+    const text = summary.toLowerCase();
+    const longest = (text.match(/[\p{L}]{4,}/gu) ?? [])
+      .filter((word) => !['fake', 'summary'].includes(word))
+      .sort((a, b) => b.length - a.length)[0];
+    const tags = context.existing.filter((tag) => text.includes(tag.toLowerCase()));
+    return [...new Set([...tags, ...(longest ? [longest] : [])])].slice(0, 5);
+  }
+}
+
+// Tags each text with the target language, keeping lines and Markdown intact
+export class FakeTranslationProvider implements TranslationProvider {
+  readonly name = 'fake';
+  readonly model = null;
+
+  async translate(texts: string[], language: string): Promise<string[]> {
+    return texts.map((text) => text.replace(/[^\n]+/g, (line) => `[${language}] ${line}`));
+  }
+}
+
+// Quotes the first transcript line mentioning a word of the question, word by word
+export class FakeChatProvider implements ChatProvider {
+  readonly name = 'fake';
+  readonly model = null;
+
+  async *chat(turns: ChatTurn[], context: ChatContext): AsyncIterable<string> {
+    const question = turns[turns.length - 1]?.content ?? '';
+    const words = question.toLowerCase().match(/\p{L}{4,}/gu) ?? [];
+    const line = context.lines.findIndex((text) => words.some((word) => text.toLowerCase().includes(word)));
+
+    const answer = line >= 0
+      ? `Fake answer ${digest(question)}: "${context.lines[line]}" [${line}]`
+      : `Fake answer ${digest(question)}: that wasn't discussed.`;
+
+    for (const word of answer.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+}
+
+// Hashed bag of words, so texts sharing words come out similar
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'fake';
+  readonly model = null;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        vector[parseInt(digest(word), 16) % EMBEDDING_DIMENSIONS] += 1;
+      }
+      const length = Math.hypot(...vector) || 1;
+      return vector.map((value) => value / length);
+    });
+  }
+}
@@ -0,0 +1,554 @@
+import { GoogleGenerativeAI, SchemaType, TaskType, type ResponseSchema } from '@google/generative-ai';
+import { formatTranscript } from '../transcript';
+import {
+    actionItemsPrompt,
+    chatPrompt,
+    glossaryPrompt,
+    parseActionItems,
+    parseTags,
+    parseTranslations,
+    summaryPrompt,
+    tagsPrompt,
+    translationPrompt
+} from './prompts';
+import { ProviderError, toProviderError } from './errors';
+import type {
+    ActionItemContext,
+    ChatContext,
+    ChatProvider,
+    ChatTurn,
+    EmbeddingProvider,
+    EmbeddingPurpose,
+    ExtractedActionItem,
+    SummarizationProvider,
+    SummaryOptions,
+    TagContext,
+    TranscribedSegment,
+    TranscriptionContext,
+    TranscriptionProvider,
+    TranslationProvider
+} from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Most texts batchEmbedContents takes at once
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface GeminiConfig {
+    apiKey?: string;
+    model: string;
+}
+
+// Structured output so every line comes back with its own timestamps
+const segmentsSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        segments: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    startMs: { type: SchemaType.INTEGER, description: 'Start of the utterance in milliseconds from the beginning of the audio' },
+                    endMs: { type: SchemaType.INTEGER, description: 'End of the utterance in milliseconds from the beginning of the audio' },
+                    speaker: { type: SchemaType.STRING, description: 'Speaker label such as "Speaker 1"', nullable: true },
+                    text: { type: SchemaType.STRING },
+                    confidence: { type: SchemaType.NUMBER, description: 'Confidence between 0 and 1', nullable: true },
+                    language: { type: SchemaType.STRING, description: 'ISO 639-1 code of the language spoken, such as "en"', nullable: true }
+                },
+                required: ['startMs', 'endMs', 'text']
+            }
+        }
+    },
+    required: ['segments']
+};
+
+const translationsSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        translations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    },
+    required: ['translations']
+};
+
+const actionItemsSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        actionItems: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    text: { type: SchemaType.STRING },
+                    owner: { type: SchemaType.STRING, nullable: true },
+                    dueDate: { type: SchemaType.STRING, description: 'YYYY-MM-DD', nullable: true },
+                    line: { type: SchemaType.INTEGER, nullable: true }
+                },
+                required: ['text']
+            }
+        }
+    },
+    required: ['actionItems']
+};
+
+const tagsSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    },
+    required: ['tags']
+};
+
+const parseSegments = (raw: string): TranscribedSegment[] => {
+    let parsed: { segments?: Partial<TranscribedSegment>[] };
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new ProviderError('INVALID_RESPONSE', 'Gemini returned malformed transcription JSON', 'gemini', { cause: error });
+    }
+
+    return (parsed.segments ?? [])
+        .filter(segment => typeof segment.text === 'string' && segment.text.trim())
+        .map(segment => {
+            const startMs = Math.max(0, Math.round(Number(segment.startMs) || 0));
+            return {
+                startMs,
+                endMs: Math.max(startMs, Math.round(Number(segment.endMs) || startMs)),
+                speaker: segment.speaker?.trim() || null,
+                text: segment.text!.trim(),
+                confidence: typeof segment.confidence === 'number' ? segment.confidence : null,
+                language: segment.language?.trim().toLowerCase() || null
+            };
+        })
+        .sort((a, b) => a.startMs - b.startMs);
+};
+
+const transcriptionPrompt = (context?: TranscriptionContext) => {
+    const language = context?.language
+        ? `\n- The audio is expected to be mostly in "${context.language}"; still transcribe any other language as it is spoken`
+        : '';
+    const continuation = context && (context.speakers.length > 0 || context.previousText)
+        ? `
+
+This audio continues an earlier part of the same recording.
+- Speakers identified so far: ${context.speakers.join(', ') || 'none'}
+- The earlier part ended with: "${context.previousText ?? ''}"
+Reuse an existing label when the voice matches one of these speakers; number new voices after them.`
+        : '';
+
+    return `Transcribe the following audio accurately. 
+
+Instructions:
+- Transcribe all spoken words exactly as they are said
+- Include proper punctuation and capitalization
+- Split the transcription into segments of one sentence or short phrase each, starting a new segment whenever the speaker changes
+- Give each segment its start and end time in milliseconds from the beginning of the audio
+- Label every segment with its speaker as "Speaker 1", "Speaker 2", ... in order of first appearance, telling speakers apart by voice
+- Estimate how confident you are in each segment between 0 and 1
+- Give the language of each segment as an ISO 639-1 code; never translate, people may switch language mid-conversation${language}${glossaryPrompt(context?.glossary ?? [])}${continuation}
+
+Return only the segments, no additional commentary. Return an empty list if nothing is spoken.`;
+};
+
+const createClient = (config: GeminiConfig) => {
+    // Validate API key on initialization
+    if (!config.apiKey) {
+        console.error(' GEMINI_API_KEY is not set in environment variables!');
+    }
+    return new GoogleGenerativeAI(config.apiKey || '');
+};
+
+export class GeminiTranscriptionProvider implements TranscriptionProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        this.genAI = createClient(config);
+    }
+
+    get model() {
+        return this.config.model;
+    }
+
+    async transcribe(audioBlob: Blob, context?: TranscriptionContext): Promise<TranscribedSegment[]> {
+        try {
+            console.log(' Starting transcription...');
+            console.log('   Blob size:', audioBlob.size, 'bytes');
+            console.log('   Blob type:', audioBlob.type);
+
+            if (!this.config.apiKey) {
+                throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured. Please add it to your .env file', this.name);
+            }
+
+            if (audioBlob.size === 0) {
+                throw new ProviderError('EMPTY_AUDIO', 'Audio blob is empty - no data to transcribe', this.name);
+            }
+
+            // Convert blob to base64
+            const arrayBuffer = await audioBlob.arrayBuffer();
+            const base64Audio = Buffer.from(arrayBuffer).toString('base64');
+
+            console.log(' Converted to base64, length:', base64Audio.length);
+
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                generationConfig: {
+                    responseMimeType: 'application/json',
+                    responseSchema: segmentsSchema
+                }
+            });
+
+            console.log(' Calling Gemini API...');
+
+            const result = await model.generateContent([
+                { text: transcriptionPrompt(context) },
+                {
+                    inlineData: {
+                        mimeType: audioBlob.type.split(';')[0] || 'audio/webm',
+                        data: base64Audio
+                    },
+                },
+            ]);
+
+            const response = await result.response;
+            const segments = parseSegments(response.text());
+
+            console.log('Transcription received');
+            console.log('   Segments:', segments.length);
+            console.log('   Preview:', formatTranscript(segments).substring(0, 100) + '...');
+
+            return segments;
+
+        } catch (error: any) {
+            console.error(' Gemini transcription error:');
+            console.error('   Error type:', error?.constructor?.name);
+            console.error('   Error message:', error?.message);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            if (error?.message?.includes('API key')) {
+                console.error('     Invalid API key! Check your GEMINI_API_KEY in .env');
+                throw new ProviderError('INVALID_API_KEY', 'Invalid Gemini API key. Please verify your API key at https://makersuite.google.com/app/apikey', this.name, { cause: error });
+            }
+
+            if (error?.message?.includes('quota')) {
+                console.error('    API quota exceeded!');
+                throw new ProviderError('QUOTA_EXCEEDED', 'Gemini API quota exceeded. Please check your usage at https://console.cloud.google.com', this.name, { cause: error });
+            }
+
+            if (error?.message?.includes('ENOTFOUND') || error?.message?.includes('network')) {
+                console.error('   Network error!');
+                throw new ProviderError('NETWORK', 'Cannot connect to Gemini API. Check your internet connection.', this.name, { cause: error });
+            }
+
+            console.error('   Full error:', error);
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Transcription failed: ${error?.message || 'Unknown error'}`, this.name, { cause: error });
+        }
+    }
+}
+
+export class GeminiSummarizationProvider implements SummarizationProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        this.genAI = createClient(config);
+    }
+
+    get model() {
+        return this.config.model;
+    }
+
+    async summarize(transcript: string, options?: SummaryOptions): Promise<string> {
+        try {
+            console.log('Starting summary generation...');
+            console.log('   Transcript length:', transcript.length, 'characters');
+
+            if (!this.config.apiKey) {
+                throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+            }
+
+            if (!transcript || transcript.trim().length === 0) {
+                throw new ProviderError('NO_SPEECH', 'Transcript is empty - nothing to summarize', this.name);
+            }
+
+            // Arbitrary JSON schemas aren't accepted as a responseSchema, so
+            // structured templates only switch the reply to JSON
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                ...(options?.template?.schema && {
+                    generationConfig: { responseMimeType: 'application/json' }
+                })
+            });
+
+            console.log('Calling Gemini API for summary...');
+
+            const result = await model.generateContent(summaryPrompt(transcript, options));
+            const response = await result.response;
+            const summary = response.text();
+
+            console.log(' Summary generated');
+            console.log('   Length:', summary.length, 'characters');
+            console.log('   Preview:', summary.substring(0, 100) + '...');
+
+            return summary;
+
+        } catch (error: any) {
+            console.error('Gemini summary error:');
+            console.error('   Error type:', error?.constructor?.name);
+            console.error('   Error message:', error?.message);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            if (error?.message?.includes('API key')) {
+                throw new ProviderError('INVALID_API_KEY', 'Invalid Gemini API key', this.name, { cause: error });
+            }
+
+            if (error?.message?.includes('quota')) {
+                throw new ProviderError('QUOTA_EXCEEDED', 'Gemini API quota exceeded', this.name, { cause: error });
+            }
+
+            if (error?.message?.includes('ENOTFOUND') || error?.message?.includes('network')) {
+                throw new ProviderError('NETWORK', 'Cannot connect to Gemini API. Check your internet connection.', this.name, { cause: error });
+            }
+
+            console.error('   Full error:', error);
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Summary generation failed: ${error?.message || 'Unknown error'}`, this.name, { cause: error });
+        }
+    }
+
+    async extractActionItems(lines: string[], context: ActionItemContext): Promise<ExtractedActionItem[]> {
+        if (lines.length === 0) return [];
+
+        if (!this.config.apiKey) {
+            throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+        }
+
+        try {
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                generationConfig: {
+                    responseMimeType: 'application/json',
+                    responseSchema: actionItemsSchema
+                }
+            });
+
+            const result = await model.generateContent(actionItemsPrompt(lines, context));
+            const response = await result.response;
+            return parseActionItems(response.text(), lines.length, this.name);
+        } catch (error) {
+            console.error('Gemini action item error:', error);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Action item extraction failed: ${classified.message}`, this.name, { cause: error });
+        }
+    }
+
+    async suggestTags(summary: string, context: TagContext): Promise<string[]> {
+        if (!summary.trim()) return [];
+
+        if (!this.config.apiKey) {
+            throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+        }
+
+        try {
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                generationConfig: {
+                    responseMimeType: 'application/json',
+                    responseSchema: tagsSchema
+                }
+            });
+
+            const result = await model.generateContent(tagsPrompt(summary, context));
+            const response = await result.response;
+            return parseTags(response.text(), this.name);
+        } catch (error) {
+            console.error('Gemini tag suggestion error:', error);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Tag suggestion failed: ${classified.message}`, this.name, { cause: error });
+        }
+    }
+}
+
+export class GeminiTranslationProvider implements TranslationProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        this.genAI = createClient(config);
+    }
+
+    get model() {
+        return this.config.model;
+    }
+
+    async translate(texts: string[], language: string): Promise<string[]> {
+        if (texts.length === 0) return [];
+
+        if (!this.config.apiKey) {
+            throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+        }
+
+        try {
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                generationConfig: {
+                    responseMimeType: 'application/json',
+                    responseSchema: translationsSchema
+                }
+            });
+
+            const result = await model.generateContent(translationPrompt(texts, language));
+            const response = await result.response;
+            return parseTranslations(response.text(), texts.length, this.name);
+        } catch (error) {
+            console.error('Gemini translation error:', error);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            const message = error instanceof Error ? error.message : '';
+
+            if (message.includes('API key')) {
+                throw new ProviderError('INVALID_API_KEY', 'Invalid Gemini API key', this.name, { cause: error });
+            }
+
+            if (message.includes('quota')) {
+                throw new ProviderError('QUOTA_EXCEEDED', 'Gemini API quota exceeded', this.name, { cause: error });
+            }
+
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Translation failed: ${classified.message}`, this.name, { cause: error });
+        }
+    }
+}
+
+export class GeminiChatProvider implements ChatProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        this.genAI = createClient(config);
+    }
+
+    get model() {
+        return this.config.model;
+    }
+
+    async *chat(turns: ChatTurn[], context: ChatContext): AsyncIterable<string> {
+        if (!this.config.apiKey) {
+            throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+        }
+
+        try {
+            const model = this.genAI.getGenerativeModel({
+                model: this.config.model,
+                systemInstruction: chatPrompt(context)
+            });
+
+            const result = await model.generateContentStream({
+                contents: turns.map(turn => ({
+                    role: turn.role === 'assistant' ? 'model' : 'user',
+                    parts: [{ text: turn.content }]
+                }))
+            });
+
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                if (text) yield text;
+            }
+        } catch (error) {
+            console.error('Gemini chat error:', error);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            const message = error instanceof Error ? error.message : '';
+
+            if (message.includes('API key')) {
+                throw new ProviderError('INVALID_API_KEY', 'Invalid Gemini API key', this.name, { cause: error });
+            }
+
+            if (message.includes('quota')) {
+                throw new ProviderError('QUOTA_EXCEEDED', 'Gemini API quota exceeded', this.name, { cause: error });
+            }
+
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Chat failed: ${classified.message}`, this.name, { cause: error });
+        }
+    }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        this.genAI = createClient(config);
+    }
+
+    get model() {
+        return this.config.model;
+    }
+
+    async embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> {
+        if (!this.config.apiKey) {
+            throw new ProviderError('INVALID_API_KEY', 'GEMINI_API_KEY is not configured', this.name);
+        }
+
+        try {
+            const model = this.genAI.getGenerativeModel({ model: this.config.model });
+            const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+            const vectors: number[][] = [];
+
+            for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                const result = await model.batchEmbedContents({
+                    requests: texts.slice(i, i + EMBEDDING_BATCH_SIZE).map(text => ({
+                        content: { role: 'user', parts: [{ text }] },
+                        taskType
+                    }))
+                });
+                vectors.push(...result.embeddings.map(embedding => embedding.values));
+            }
+
+            return vectors;
+        } catch (error) {
+            console.error('Gemini embedding error:', error);
+
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+
+            const message = error instanceof Error ? error.message : '';
+
+            if (message.includes('API key')) {
+                throw new ProviderError('INVALID_API_KEY', 'Invalid Gemini API key', this.name, { cause: error });
+            }
+
+            if (message.includes('quota')) {
+                throw new ProviderError('QUOTA_EXCEEDED', 'Gemini API quota exceeded', this.name, { cause: error });
+            }
+
+            const classified = toProviderError(error, this.name);
+            throw new ProviderError(classified.code, `Embedding failed: ${classified.message}`, this.name, { cause: error });
+        }
+    }
+}
@@ -0,0 +1,226 @@
+import {
+  DEFAULT_GEMINI_EMBEDDING_MODEL,
+  DEFAULT_GEMINI_MODEL,
+  GeminiChatProvider,
+  GeminiEmbeddingProvider,
+  GeminiSummarizationProvider,
+  GeminiTranscriptionProvider,
+  GeminiTranslationProvider
+} from './gemini';
+import {
+  OllamaChatProvider,
+  OllamaEmbeddingProvider,
+  OllamaSummarizationProvider,
+  OllamaTranslationProvider,
+  WhisperTranscriptionProvider
+} from './local';
+import {
+  FakeChatProvider,
+  FakeEmbeddingProvider,
+  FakeSummarizationProvider,
+  FakeTranscriptionProvider,
+  FakeTranslationProvider
+} from './fake';
+import type {
+  ChatProvider,
+  EmbeddingProvider,
+  SummarizationProvider,
+  TranscriptionProvider,
+  TranslationProvider
+} from './types';
+
+export type {
+  ChatProvider,
+  ChatTurn,
+  EmbeddingProvider,
+  SummarizationProvider,
+  SummarySection,
+  SummaryTemplateSpec,
+  TranscriptionProvider,
+  TranslationProvider
+} from './types';
+export { EMBEDDING_DIMENSIONS } from './types';
+export { GENERAL_TEMPLATE, parseStructuredSummary } from './prompts';
+export { ProviderError, atStage, toProviderError, type ProcessingErrorCode } from './errors';
+
+export const TRANSCRIPTION_PROVIDERS = ['gemini', 'whisper', 'fake'] as const;
+export const SUMMARIZATION_PROVIDERS = ['gemini', 'ollama', 'fake'] as const;
+export const TRANSLATION_PROVIDERS = ['gemini', 'ollama', 'fake'] as const;
+export const CHAT_PROVIDERS = ['gemini', 'ollama', 'fake'] as const;
+
+const transcriptionProviders = new Map<string, TranscriptionProvider>();
+const summarizationProviders = new Map<string, SummarizationProvider>();
+const translationProviders = new Map<string, TranslationProvider>();
+const chatProviders = new Map<string, ChatProvider>();
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+const geminiConfig = () => ({
+  apiKey: process.env.GEMINI_API_KEY,
+  model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL
+});
+
+const ollamaConfig = () => ({
+  baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+  model: process.env.OLLAMA_MODEL || 'llama3.1'
+});
+
+const createTranscriptionProvider = (name: string): TranscriptionProvider => {
+  if (name === 'gemini') {
+    return new GeminiTranscriptionProvider(geminiConfig());
+  }
+
+  if (name === 'whisper') {
+    if (!process.env.WHISPER_MODEL) {
+      throw new Error('WHISPER_MODEL is required for the whisper transcription provider');
+    }
+
+    return new WhisperTranscriptionProvider({
+      command: process.env.WHISPER_COMMAND || 'whisper-cli',
+      model: process.env.WHISPER_MODEL,
+      ffmpeg: process.env.FFMPEG_PATH || 'ffmpeg',
+      language: process.env.WHISPER_LANGUAGE || 'auto',
+      threads: process.env.WHISPER_THREADS ? parseInt(process.env.WHISPER_THREADS, 10) : undefined,
+      timeoutMs: parseInt(process.env.WHISPER_TIMEOUT_MS || '120000', 10)
+    });
+  }
+
+  if (name === 'fake') {
+    return new FakeTranscriptionProvider();
+  }
+
+  throw new Error(`Unknown transcription provider: ${name}`);
+};
+
+const createSummarizationProvider = (name: string): SummarizationProvider => {
+  if (name === 'gemini') {
+    return new GeminiSummarizationProvider(geminiConfig());
+  }
+
+  if (name === 'ollama') {
+    return new OllamaSummarizationProvider(ollamaConfig());
+  }
+
+  if (name === 'fake') {
+    return new FakeSummarizationProvider();
+  }
+
+  throw new Error(`Unknown summarization provider: ${name}`);
+};
+
+const createTranslationProvider = (name: string): TranslationProvider => {
+  if (name === 'gemini') {
+    return new GeminiTranslationProvider(geminiConfig());
+  }
+
+  if (name === 'ollama') {
+    return new OllamaTranslationProvider(ollamaConfig());
+  }
+
+  if (name === 'fake') {
+    return new FakeTranslationProvider();
+  }
+
+  throw new Error(`Unknown translation provider: ${name}`);
+};
+
+const createChatProvider = (name: string): ChatProvider => {
+  if (name === 'gemini') {
+    return new GeminiChatProvider(geminiConfig());
+  }
+
+  if (name === 'ollama') {
+    return new OllamaChatProvider(ollamaConfig());
+  }
+
+  if (name === 'fake') {
+    return new FakeChatProvider();
+  }
+
+  throw new Error(`Unknown chat provider: ${name}`);
+};
+
+const createEmbeddingProvider = (name: string): EmbeddingProvider => {
+  if (name === 'gemini') {
+    return new GeminiEmbeddingProvider({
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_EMBEDDING_MODEL || DEFAULT_GEMINI_EMBEDDING_MODEL
+    });
+  }
+
+  if (name === 'ollama') {
+    return new OllamaEmbeddingProvider({
+      baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+      model: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text'
+    });
+  }
+
+  if (name === 'fake') {
+    return new FakeEmbeddingProvider();
+  }
+
+  throw new Error(`Unknown embedding provider: ${name}`);
+};
+
+// Backend selected by TRANSCRIPTION_PROVIDER ("gemini" by default, "whisper" or
+// "fake"), or a specific one by name
+export const getTranscriptionProvider = (name?: string): TranscriptionProvider => {
+  const key = name || process.env.TRANSCRIPTION_PROVIDER || 'gemini';
+
+  let provider = transcriptionProviders.get(key);
+  if (!provider) {
+    provider = createTranscriptionProvider(key);
+    transcriptionProviders.set(key, provider);
+  }
+  return provider;
+};
+
+// Backend selected by SUMMARIZATION_PROVIDER ("gemini" by default, "ollama" or
+// "fake"), or a specific one by name
+export const getSummarizationProvider = (name?: string): SummarizationProvider => {
+  const key = name || process.env.SUMMARIZATION_PROVIDER || 'gemini';
+
+  let provider = summarizationProviders.get(key);
+  if (!provider) {
+    provider = createSummarizationProvider(key);
+    summarizationProviders.set(key, provider);
+  }
+  return provider;
+};
+
+// Backend selected by TRANSLATION_PROVIDER, falling back to the summarization
+// one since both are served by the same language models
+export const getTranslationProvider = (name?: string): TranslationProvider => {
+  const key = name || process.env.TRANSLATION_PROVIDER || process.env.SUMMARIZATION_PROVIDER || 'gemini';
+
+  let provider = translationProviders.get(key);
+  if (!provider) {
+    provider = createTranslationProvider(key);
+    translationProviders.set(key, provider);
+  }
+  return provider;
+};
+
+// Backend selected by CHAT_PROVIDER, falling back to the summarization one
+export const getChatProvider = (name?: string): ChatProvider => {
+  const key = name || process.env.CHAT_PROVIDER || process.env.SUMMARIZATION_PROVIDER || 'gemini';
+
+  let provider = chatProviders.get(key);
+  if (!provider) {
+    provider = createChatProvider(key);
+    chatProviders.set(key, provider);
+  }
+  return provider;
+};
+
+// Backend selected by EMBEDDING_PROVIDER, falling back to the summarization
+// one. Stored vectors only match queries embedded by the same model.
+export const getEmbeddingProvider = (name?: string): EmbeddingProvider => {
+  const key = name || process.env.EMBEDDING_PROVIDER || process.env.SUMMARIZATION_PROVIDER || 'gemini';
+
+  let provider = embeddingProviders.get(key);
+  if (!provider) {
+    provider = createEmbeddingProvider(key);
+    embeddingProviders.set(key, provider);
+  }
+  return provider;
+};
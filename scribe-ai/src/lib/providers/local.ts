@@ -0,0 +1,403 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { extensionForMimeType } from '../storage';
+import {
+  actionItemsPrompt,
+  chatPrompt,
+  parseActionItems,
+  parseTags,
+  parseTranslations,
+  summaryPrompt,
+  tagsPrompt,
+  translationPrompt
+} from './prompts';
+import { ProviderError, toProviderError } from './errors';
+import type {
+  ActionItemContext,
+  ChatContext,
+  ChatProvider,
+  ChatTurn,
+  EmbeddingProvider,
+  ExtractedActionItem,
+  SummarizationProvider,
+  SummaryOptions,
+  TagContext,
+  TranscribedSegment,
+  TranscriptionContext,
+  TranscriptionProvider,
+  TranslationProvider
+} from './types';
+
+const execFileAsync = promisify(execFile);
+
+export interface WhisperConfig {
+  // whisper.cpp CLI binary (`whisper-cli`, or `main` in older builds)
+  command: string;
+  model: string;
+  ffmpeg: string;
+  language: string;
+  threads?: number;
+  timeoutMs: number;
+}
+
+// Shape of the file written by whisper.cpp's `--output-json`
+interface WhisperJson {
+  // Detected, or the one passed with -l
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+  }[];
+}
+
+// Offline transcription through whisper.cpp. Browser audio (WebM/Ogg) is first
+// converted to the 16kHz mono WAV whisper.cpp expects. There is no diarization,
+// so segments carry no speaker, and whisper.cpp reports one language per file.
+export class WhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper';
+
+  constructor(private readonly config: WhisperConfig) {}
+
+  // The config holds the path to the model file
+  get model() {
+    return path.basename(this.config.model);
+  }
+
+  async transcribe(audio: Blob, context?: TranscriptionContext): Promise<TranscribedSegment[]> {
+    if (audio.size === 0) {
+      throw new ProviderError('EMPTY_AUDIO', 'Audio blob is empty - no data to transcribe', this.name);
+    }
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'scribe-whisper-'));
+
+    try {
+      const input = path.join(dir, `input.${extensionForMimeType(audio.type)}`);
+      const wav = path.join(dir, 'input.wav');
+      const outputBase = path.join(dir, 'output');
+
+      await fs.promises.writeFile(input, Buffer.from(await audio.arrayBuffer()));
+
+      await execFileAsync(
+        this.config.ffmpeg,
+        ['-loglevel', 'error', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav],
+        { timeout: this.config.timeoutMs }
+      );
+
+      await execFileAsync(
+        this.config.command,
+        [
+          '-m', this.config.model,
+          '-f', wav,
+          '-l', context?.language || this.config.language,
+          ...(this.config.threads ? ['-t', this.config.threads.toString()] : []),
+          // whisper.cpp has no vocabulary option; an initial prompt naming the terms biases spelling
+          ...(context?.glossary?.length ? ['--prompt', context.glossary.map((entry) => entry.term).join(', ')] : []),
+          '--output-json',
+          '--output-file', outputBase,
+          '--no-prints'
+        ],
+        { timeout: this.config.timeoutMs, maxBuffer: 16 * 1024 * 1024 }
+      );
+
+      const output = JSON.parse(
+        await fs.promises.readFile(`${outputBase}.json`, 'utf8')
+      ) as WhisperJson;
+
+      return (output.transcription ?? [])
+        .map((entry) => ({
+          startMs: entry.offsets.from,
+          endMs: entry.offsets.to,
+          speaker: null,
+          text: entry.text.trim(),
+          confidence: null,
+          language: output.result?.language || null
+        }))
+        .filter((segment) => segment.text);
+    } catch (error) {
+      console.error('Whisper transcription error:', error);
+      const { code, killed } = error as { code?: string; killed?: boolean };
+
+      if (code === 'ENOENT') {
+        throw new ProviderError('PROVIDER_UNAVAILABLE', 'whisper.cpp or ffmpeg is not installed or not on PATH', this.name, { cause: error });
+      }
+      if (killed) {
+        throw new ProviderError('TIMEOUT', `Transcription timed out after ${this.config.timeoutMs}ms`, this.name, { cause: error });
+      }
+      if (error instanceof SyntaxError) {
+        throw new ProviderError('INVALID_RESPONSE', 'whisper.cpp wrote malformed JSON output', this.name, { cause: error });
+      }
+
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Transcription failed: ${classified.message}`, this.name, { cause: error });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export interface OllamaConfig {
+  baseUrl: string;
+  model: string;
+}
+
+// Summaries from an Ollama-compatible /api/generate endpoint
+export class OllamaSummarizationProvider implements SummarizationProvider {
+  readonly name = 'ollama';
+
+  constructor(private readonly config: OllamaConfig) {}
+
+  get model() {
+    return this.config.model;
+  }
+
+  async summarize(transcript: string, options?: SummaryOptions): Promise<string> {
+    if (!transcript || transcript.trim().length === 0) {
+      throw new ProviderError('NO_SPEECH', 'Transcript is empty - nothing to summarize', this.name);
+    }
+
+    try {
+      const response = await fetch(new URL('/api/generate', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          prompt: summaryPrompt(transcript, options),
+          // Ollama constrains output to a JSON schema given as the format
+          ...(options?.template?.schema && { format: options.template.schema }),
+          stream: false
+        })
+      });
+
+      if (!response.ok) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        // 404 means the model isn't pulled; 5xx is usually a busy or restarting server
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const data = await response.json() as { response?: string };
+      if (!data.response) {
+        throw new ProviderError('INVALID_RESPONSE', 'Ollama returned an empty response', this.name);
+      }
+
+      return data.response.trim();
+    } catch (error) {
+      console.error('Ollama summary error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Summary generation failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+
+  async extractActionItems(lines: string[], context: ActionItemContext): Promise<ExtractedActionItem[]> {
+    if (lines.length === 0) return [];
+
+    try {
+      const response = await fetch(new URL('/api/generate', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          prompt: actionItemsPrompt(lines, context),
+          format: 'json',
+          stream: false
+        })
+      });
+
+      if (!response.ok) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const data = await response.json() as { response?: string };
+      return parseActionItems(data.response ?? '', lines.length, this.name);
+    } catch (error) {
+      console.error('Ollama action item error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Action item extraction failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+
+  async suggestTags(summary: string, context: TagContext): Promise<string[]> {
+    if (!summary.trim()) return [];
+
+    try {
+      const response = await fetch(new URL('/api/generate', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          prompt: tagsPrompt(summary, context),
+          format: 'json',
+          stream: false
+        })
+      });
+
+      if (!response.ok) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const data = await response.json() as { response?: string };
+      return parseTags(data.response ?? '', this.name);
+    } catch (error) {
+      console.error('Ollama tag suggestion error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Tag suggestion failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+}
+
+// Translations from the same Ollama endpoint, constrained to JSON output
+export class OllamaTranslationProvider implements TranslationProvider {
+  readonly name = 'ollama';
+
+  constructor(private readonly config: OllamaConfig) {}
+
+  get model() {
+    return this.config.model;
+  }
+
+  async translate(texts: string[], language: string): Promise<string[]> {
+    if (texts.length === 0) return [];
+
+    try {
+      const response = await fetch(new URL('/api/generate', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          prompt: translationPrompt(texts, language),
+          format: 'json',
+          stream: false
+        })
+      });
+
+      if (!response.ok) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const data = await response.json() as { response?: string };
+      return parseTranslations(data.response ?? '', texts.length, this.name);
+    } catch (error) {
+      console.error('Ollama translation error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Translation failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+}
+
+// Chat through Ollama's /api/chat, which streams one JSON object per line
+export class OllamaChatProvider implements ChatProvider {
+  readonly name = 'ollama';
+
+  constructor(private readonly config: OllamaConfig) {}
+
+  get model() {
+    return this.config.model;
+  }
+
+  async *chat(turns: ChatTurn[], context: ChatContext): AsyncIterable<string> {
+    try {
+      const response = await fetch(new URL('/api/chat', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [{ role: 'system', content: chatPrompt(context) }, ...turns],
+          stream: true
+        })
+      });
+
+      if (!response.ok || !response.body) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (let read = await reader.read(); !read.done; read = await reader.read()) {
+        buffered += decoder.decode(read.value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const data = JSON.parse(line) as { message?: { content?: string }; error?: string };
+          if (data.error) throw new ProviderError('UNKNOWN', `Ollama error: ${data.error}`, this.name);
+          if (data.message?.content) yield data.message.content;
+        }
+      }
+    } catch (error) {
+      console.error('Ollama chat error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Chat failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+}
+
+// Embeddings from Ollama's /api/embed, e.g. with nomic-embed-text, so search
+// indexing can stay on the machine too
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+
+  constructor(private readonly config: OllamaConfig) {}
+
+  get model() {
+    return this.config.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    try {
+      const response = await fetch(new URL('/api/embed', this.config.baseUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.config.model, input: texts })
+      });
+
+      if (!response.ok) {
+        const message = `Ollama returned ${response.status}: ${await response.text()}`;
+        throw new ProviderError(
+          response.status === 404 ? 'PROVIDER_UNAVAILABLE' : response.status >= 500 ? 'NETWORK' : 'UNKNOWN',
+          message,
+          this.name
+        );
+      }
+
+      const data = await response.json() as { embeddings?: number[][] };
+      if (data.embeddings?.length !== texts.length) {
+        throw new ProviderError('INVALID_RESPONSE', 'Ollama returned the wrong number of embeddings', this.name);
+      }
+      return data.embeddings;
+    } catch (error) {
+      console.error('Ollama embedding error:', error);
+      const classified = toProviderError(error, this.name);
+      throw new ProviderError(classified.code, `Embedding failed: ${classified.message}`, this.name, { cause: error });
+    }
+  }
+}
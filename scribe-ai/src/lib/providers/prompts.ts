@@ -0,0 +1,222 @@
+// Prompts shared by the LLM-backed providers
+
+import { languageName } from '../language';
+import { ProviderError } from './errors';
+import type {
+  ActionItemContext,
+  ChatContext,
+  ExtractedActionItem,
+  GlossaryEntry,
+  SummaryOptions,
+  SummaryTemplateSpec,
+  TagContext
+} from './types';
+
+// Vocabulary section appended to transcription instructions
+export const glossaryPrompt = (glossary: GlossaryEntry[]) => {
+  if (glossary.length === 0) return '';
+
+  const lines = glossary.map((entry) => {
+    const hints = [
+      entry.phonetic && `pronounced "${entry.phonetic}"`,
+      entry.variants.length > 0 && `not ${entry.variants.map((variant) => `"${variant}"`).join(', ')}`
+    ].filter(Boolean);
+    return `- ${entry.term}${hints.length > 0 ? ` (${hints.join('; ')})` : ''}`;
+  });
+
+  return `\n\nThese names and terms may come up; spell them exactly as written here:\n${lines.join('\n')}`;
+};
+
+// Texts go in and come back as a JSON array so each one maps onto its segment
+export const translationPrompt = (texts: string[], language: string) => `Translate each text in the following JSON array into ${languageName(language)}.
+
+Instructions:
+- Return {"translations": [...]} with exactly ${texts.length} strings, the translation of each text at the same position
+- Never merge, split, drop or reorder texts, even when a sentence continues in the next one
+- Keep speaker labels, names, Markdown formatting and line breaks as they are
+- Leave text that is already in ${languageName(language)} unchanged
+
+Texts:
+${JSON.stringify(texts)}`;
+
+// A reply with a different number of texts can't be lined up with the segments
+export const parseTranslations = (raw: string, expected: number, provider: string): string[] => {
+  let parsed: { translations?: unknown };
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned malformed translation JSON`, provider, { cause: error });
+  }
+
+  const { translations } = parsed;
+  if (!Array.isArray(translations) || !translations.every((text) => typeof text === 'string')) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned no list of translations`, provider);
+  }
+  if (translations.length !== expected) {
+    throw new ProviderError(
+      'INVALID_RESPONSE',
+      `${provider} returned ${translations.length} translations for ${expected} texts`,
+      provider
+    );
+  }
+  return translations;
+};
+
+// What every summary looked like before templates, still the default
+export const GENERAL_TEMPLATE: SummaryTemplateSpec = {
+  name: 'General meeting',
+  prompt: 'Analyze and summarize the following transcript.',
+  sections: [
+    { title: 'Overview', description: '2-3 sentence overview of what was discussed' },
+    { title: 'Key Points', description: 'Bulleted main points, as many as needed' },
+    {
+      title: 'Action Items',
+      description: 'Bulleted tasks, decisions, or follow-ups mentioned. If none, write "No specific action items mentioned"'
+    },
+    {
+      title: 'Important Details',
+      description: 'Bulleted significant numbers, dates, names, or specific information. If none, write "No critical details to highlight"'
+    }
+  ]
+};
+
+export const summaryPrompt = (transcript: string, options?: SummaryOptions) => {
+  const template = options?.template ?? GENERAL_TEMPLATE;
+  const language = options?.language ? languageName(options.language) : null;
+
+  // Structured templates get JSON back; the sections only say what to cover
+  if (template.schema) {
+    return `${template.prompt}${language
+      ? `\nWrite all text values in ${language}, whatever language the transcript is in.`
+      : ''}
+
+Transcript:
+${transcript}
+
+Reply with only a JSON object matching this JSON schema:
+${JSON.stringify(template.schema, null, 2)}${template.sections.length > 0
+      ? `\n\nCover:\n${template.sections.map((section) => `- ${section.title}: ${section.description}`).join('\n')}`
+      : ''}`;
+  }
+
+  return `${template.prompt}${language
+    ? `\nWrite the summary, including the section headings, in ${language}, whatever language the transcript is in.`
+    : ''}
+
+Transcript:
+${transcript}
+
+Please provide a structured summary with:
+
+${template.sections.map((section) => `## ${section.title}\n[${section.description}]`).join('\n\n')}
+
+Keep it concise but comprehensive.`;
+};
+
+// Reply to a template with a schema; only the top level is checked
+export const parseStructuredSummary = (raw: string, provider: string): Record<string, unknown> => {
+  let parsed: unknown;
+  try {
+    // Models without a JSON mode tend to wrap it in a code fence
+    parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (error) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned malformed summary JSON`, provider, { cause: error });
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned summary JSON that isn't an object`, provider);
+  }
+  return parsed as Record<string, unknown>;
+};
+
+// Lines are numbered so each item can point back at where it was agreed
+export const actionItemsPrompt = (lines: string[], context: ActionItemContext) => `List the action items agreed in the following meeting transcript.
+
+Instructions:
+- Return {"actionItems": [...]} with one object per task, follow-up or commitment someone made
+- "text": the task as a short imperative sentence${context.language ? ` in ${languageName(context.language)}` : ''}
+- "owner": the speaker who took it on, exactly as labelled in the transcript (e.g. "Speaker 2"), the name of someone else it was given to, or null
+- "dueDate": the deadline as YYYY-MM-DD if one was mentioned, otherwise null; the meeting took place on ${context.date}, so resolve "Friday" or "next week" from that day
+- "line": the number of the line where it was agreed
+- Return {"actionItems": []} if nothing was agreed; never invent tasks
+
+Transcript:
+${lines.map((line, i) => `[${i}] ${line}`).join('\n')}`;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+// Malformed fields are dropped rather than failing the whole reply
+export const parseActionItems = (raw: string, lineCount: number, provider: string): ExtractedActionItem[] => {
+  let parsed: { actionItems?: unknown };
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned malformed action item JSON`, provider, { cause: error });
+  }
+
+  if (!Array.isArray(parsed.actionItems)) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned no list of action items`, provider);
+  }
+
+  return parsed.actionItems
+    .filter((item): item is Record<string, unknown> =>
+      typeof item === 'object' && item !== null && typeof item.text === 'string' && !!item.text.trim()
+    )
+    .map((item) => ({
+      text: (item.text as string).trim(),
+      owner: typeof item.owner === 'string' && item.owner.trim() ? item.owner.trim() : null,
+      dueDate: isDate(item.dueDate) ? item.dueDate : null,
+      line: Number.isInteger(item.line) && (item.line as number) >= 0 && (item.line as number) < lineCount
+        ? item.line as number
+        : null
+    }));
+};
+
+// Suggestions beyond this are dropped
+const MAX_SUGGESTED_TAGS = 5;
+
+// Tags come from the summary, which is far shorter than the transcript
+export const tagsPrompt = (summary: string, context: TagContext) => `Suggest up to ${MAX_SUGGESTED_TAGS} tags for filing the meeting summarized below.
+
+Instructions:
+- Return {"tags": [...]} with each tag as a short lowercase label of 1-3 words, e.g. "hiring" or "q3 planning"
+- Name topics, projects, teams or meeting types; never people, dates or filler such as "meeting"
+${context.existing.length > 0 ? `- Prefer these existing tags, spelled exactly as given, wherever they fit: ${context.existing.map((tag) => JSON.stringify(tag)).join(', ')}
+` : ''}- Write new tags${context.language ? ` in ${languageName(context.language)}` : ' in the language of the summary'}
+
+Summary:
+${summary}`;
+
+// Trimmed, lowercased and deduplicated; anything that isn't a short string is dropped
+export const parseTags = (raw: string, provider: string): string[] => {
+  let parsed: { tags?: unknown };
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned malformed tag JSON`, provider, { cause: error });
+  }
+
+  if (!Array.isArray(parsed.tags)) {
+    throw new ProviderError('INVALID_RESPONSE', `${provider} returned no list of tags`, provider);
+  }
+
+  const tags = parsed.tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag && tag.length <= 40);
+  return [...new Set(tags)].slice(0, MAX_SUGGESTED_TAGS);
+};
+
+// Answers cite transcript lines by number, e.g. [12], so they can link to the audio
+export const chatPrompt = (context: ChatContext) => `You answer questions about ${context.title} using only the transcript below.
+
+Instructions:
+- Base every answer on the transcript; if it doesn't say, answer that it wasn't discussed rather than guessing
+- Cite the lines an answer rests on by their number in square brackets right after the claim, e.g. "Pricing stays at $20 [12][14]"
+- Refer to people and meetings as the transcript names them
+- Be brief; use Markdown lists for several points
+- Answer in the language of the question
+
+Transcript:
+${context.lines.map((line, i) => `[${i}] ${line}`).join('\n')}`;
@@ -0,0 +1,107 @@
+import type { TranscribedSegment, TranscriptionContext } from '../transcript';
+
+export type { GlossaryEntry, TranscribedSegment, TranscriptionContext } from '../transcript';
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  // Model in use, recorded as the author of transcripts it produces
+  readonly model: string | null;
+  // Segment times are relative to the start of `audio`
+  transcribe(audio: Blob, context?: TranscriptionContext): Promise<TranscribedSegment[]>;
+}
+
+// One heading of a summary, with what goes under it; stored as template JSON
+export type SummarySection = {
+  title: string;
+  description: string;
+};
+
+// What to write: built-in or user-defined (see lib/summary-templates)
+export interface SummaryTemplateSpec {
+  name: string;
+  // Instructions placed before the transcript
+  prompt: string;
+  sections: SummarySection[];
+  // JSON schema of the reply; the summary is returned as JSON when set
+  schema?: Record<string, unknown> | null;
+}
+
+export interface SummaryOptions {
+  // Language to write the summary in, whatever the transcript's language
+  language?: string;
+  // The general meeting template when unset
+  template?: SummaryTemplateSpec;
+}
+
+export interface ActionItemContext {
+  // Day of the meeting (YYYY-MM-DD), for resolving "by Friday"
+  date: string;
+  // Language to write the items in
+  language?: string;
+}
+
+export interface ExtractedActionItem {
+  text: string;
+  // Speaker label or name of whoever took it on
+  owner: string | null;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  // Index into the lines it was extracted from
+  line: number | null;
+}
+
+export interface TagContext {
+  // The user's tags, reused rather than near-duplicated
+  existing: string[];
+  // Language to write new tags in
+  language?: string;
+}
+
+export interface SummarizationProvider {
+  readonly name: string;
+  readonly model: string | null;
+  summarize(transcript: string, options?: SummaryOptions): Promise<string>;
+  // `lines` are transcript lines prefixed with their speaker
+  extractActionItems(lines: string[], context: ActionItemContext): Promise<ExtractedActionItem[]>;
+  // A few short labels for what the meeting was about
+  suggestTags(summary: string, context: TagContext): Promise<string[]>;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  readonly model: string | null;
+  // One translation per text, in the same order; texts are never merged or split
+  translate(texts: string[], language: string): Promise<string[]>;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatContext {
+  // What is being asked about, e.g. 'the meeting "Weekly sync"'
+  title: string;
+  // Numbered transcript lines the answer is grounded in and cites
+  lines: string[];
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string | null;
+  // Streams the answer to the last user turn
+  chat(turns: ChatTurn[], context: ChatContext): AsyncIterable<string>;
+}
+
+// Length of every embedding; the TranscriptChunk.embedding column is this wide
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Retrieval models embed stored passages and search queries differently
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string | null;
+  // One EMBEDDING_DIMENSIONS-long vector per text, in order
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+}
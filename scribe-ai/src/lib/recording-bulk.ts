@@ -0,0 +1,77 @@
+import prisma from './prisma';
+
+// Recordings one bulk request can change
+const MAX_BULK_RECORDINGS = 100;
+
+// Changes applied to every recording listed, as given to POST /api/recordings/bulk
+export interface BulkUpdate {
+  recordingIds: string[];
+  // Moves them to this folder, or out of any folder when null
+  folderId?: string | null;
+  addTagIds: string[];
+  removeTagIds: string[];
+}
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((id) => typeof id === 'string');
+
+export const parseBulkUpdate = (
+  body: Record<string, unknown>
+): { data: BulkUpdate } | { error: string } => {
+  if (!isIdList(body.recordingIds) || body.recordingIds.length === 0 || body.recordingIds.length > MAX_BULK_RECORDINGS) {
+    return { error: `recordingIds must list 1-${MAX_BULK_RECORDINGS} recordings` };
+  }
+
+  if (body.folderId !== undefined && body.folderId !== null && typeof body.folderId !== 'string') {
+    return { error: 'folderId must be a folder id or null' };
+  }
+
+  for (const key of ['addTagIds', 'removeTagIds']) {
+    if (body[key] !== undefined && !isIdList(body[key])) {
+      return { error: `${key} must be a list of tag ids` };
+    }
+  }
+
+  const data: BulkUpdate = {
+    recordingIds: [...new Set(body.recordingIds)],
+    folderId: body.folderId as string | null | undefined,
+    addTagIds: [...new Set((body.addTagIds ?? []) as string[])],
+    removeTagIds: [...new Set((body.removeTagIds ?? []) as string[])]
+  };
+
+  if (data.folderId === undefined && data.addTagIds.length === 0 && data.removeTagIds.length === 0) {
+    return { error: 'Nothing to change: give folderId, addTagIds or removeTagIds' };
+  }
+
+  return { data };
+};
+
+// Whether the recordings, folder and tags named in the update are all in the workspace
+export async function inWorkspace(workspaceId: string, update: BulkUpdate) {
+  const tagIds = [...new Set([...update.addTagIds, ...update.removeTagIds])];
+
+  const [recordings, folders, tags] = await Promise.all([
+    prisma.recording.count({ where: { id: { in: update.recordingIds }, workspaceId } }),
+    update.folderId ? prisma.folder.count({ where: { id: update.folderId, workspaceId } }) : 1,
+    prisma.tag.count({ where: { id: { in: tagIds }, workspaceId } })
+  ]);
+
+  return recordings === update.recordingIds.length && folders === 1 && tags === tagIds.length;
+}
+
+export async function applyBulkUpdate(update: BulkUpdate) {
+  const { recordingIds, folderId, addTagIds, removeTagIds } = update;
+
+  await prisma.$transaction([
+    ...(folderId !== undefined
+      ? [prisma.recording.updateMany({ where: { id: { in: recordingIds } }, data: { folderId } })]
+      : []),
+    prisma.recordingTag.deleteMany({
+      where: { recordingId: { in: recordingIds }, tagId: { in: removeTagIds } }
+    }),
+    prisma.recordingTag.createMany({
+      data: recordingIds.flatMap((recordingId) => addTagIds.map((tagId) => ({ recordingId, tagId }))),
+      skipDuplicates: true
+    })
+  ]);
+}
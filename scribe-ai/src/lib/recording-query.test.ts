@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findRecordingIds, parseRecordingQuery, type RecordingQuery } from './recording-query';
+import { Prisma } from '../generated/prisma/client';
+
+const { queryRaw } = vi.hoisted(() => ({ queryRaw: vi.fn() }));
+
+vi.mock('./prisma', () => ({ default: { $queryRaw: queryRaw } }));
+
+const parse = (query: string) => parseRecordingQuery(new URLSearchParams(query));
+
+const cursorOf = (key: unknown, id: unknown) => Buffer.from(JSON.stringify([key, id])).toString('base64url');
+
+describe('parseRecordingQuery', () => {
+  it('defaults to the newest ten recordings', () => {
+    expect(parse('')).toEqual({
+      data: {
+        q: null,
+        status: null,
+        from: null,
+        to: null,
+        minDuration: null,
+        maxDuration: null,
+        tags: [],
+        folder: null,
+        sort: 'newest',
+        limit: 10,
+        cursor: null
+      }
+    });
+  });
+
+  it('sorts searches by relevance unless asked otherwise', () => {
+    expect(parse('q=%20budget%20')).toMatchObject({ data: { q: 'budget', sort: 'relevance' } });
+    expect(parse('q=budget&sort=oldest')).toMatchObject({ data: { sort: 'oldest' } });
+  });
+
+  it('needs a search to sort by relevance', () => {
+    expect(parse('sort=relevance')).toEqual({ error: 'sort=relevance needs a search query (q)' });
+  });
+
+  it('rejects unknown sorts and statuses', () => {
+    expect(parse('sort=random')).toHaveProperty('error');
+    expect(parse('status=LOST')).toHaveProperty('error');
+    expect(parse('status=COMPLETED')).toMatchObject({ data: { status: 'COMPLETED' } });
+  });
+
+  it('rejects overly long searches', () => {
+    expect(parse(`q=${'a'.repeat(501)}`)).toEqual({ error: 'q must be up to 500 characters' });
+  });
+
+  it('includes the whole day of a date-only `to`', () => {
+    const result = parse('from=2026-10-01&to=2026-10-31');
+    expect(result).toMatchObject({
+      data: { from: new Date('2026-10-01T00:00:00Z'), to: new Date('2026-11-01T00:00:00Z') }
+    });
+  });
+
+  it('keeps the exact time of a full timestamp', () => {
+    expect(parse('to=2026-10-31T12:00:00Z')).toMatchObject({ data: { to: new Date('2026-10-31T12:00:00Z') } });
+  });
+
+  it('rejects dates it cannot read', () => {
+    expect(parse('from=yesterday')).toEqual({ error: 'from and to must be dates such as "2026-10-01"' });
+  });
+
+  it('takes durations in whole seconds', () => {
+    expect(parse('minDuration=60&maxDuration=0')).toMatchObject({ data: { minDuration: 60, maxDuration: 0 } });
+    expect(parse('minDuration=1.5')).toHaveProperty('error');
+    expect(parse('maxDuration=-1')).toHaveProperty('error');
+  });
+
+  it('de-duplicates tags and caps how many filter at once', () => {
+    expect(parse('tag=a&tag=b&tag=a&tag=')).toMatchObject({ data: { tags: ['a', 'b'] } });
+
+    const tooMany = Array.from({ length: 11 }, (_, i) => `tag=t${i}`).join('&');
+    expect(parse(tooMany)).toEqual({ error: 'Filter by up to 10 tags' });
+  });
+
+  it('keeps the limit between 1 and 100', () => {
+    expect(parse('limit=100')).toMatchObject({ data: { limit: 100 } });
+    expect(parse('limit=0')).toHaveProperty('error');
+    expect(parse('limit=101')).toHaveProperty('error');
+    expect(parse('limit=ten')).toHaveProperty('error');
+  });
+
+  it('passes the folder through', () => {
+    expect(parse('folder=none')).toMatchObject({ data: { folder: 'none' } });
+  });
+
+  it('reads the sort key and id from the cursor', () => {
+    const newest = cursorOf('2026-10-01T09:30:00.000Z', 'rec-1');
+    expect(parse(`cursor=${newest}`)).toMatchObject({
+      data: { cursor: { key: '2026-10-01T09:30:00.000Z', id: 'rec-1' } }
+    });
+    expect(parse(`sort=longest&cursor=${cursorOf(90, 'rec-2')}`)).toMatchObject({
+      data: { cursor: { key: 90, id: 'rec-2' } }
+    });
+    expect(parse(`sort=title&cursor=${cursorOf('standup', 'rec-3')}`)).toMatchObject({
+      data: { cursor: { key: 'standup', id: 'rec-3' } }
+    });
+  });
+
+  it('rejects cursors made for another sort or not made by the server', () => {
+    const error = { error: 'cursor must be the nextCursor of a previous page with the same sort' };
+    expect(parse(`sort=longest&cursor=${cursorOf('2026-10-01T09:30:00.000Z', 'rec-1')}`)).toEqual(error);
+    expect(parse(`cursor=${cursorOf('standup', 'rec-1')}`)).toEqual(error);
+    expect(parse(`cursor=${cursorOf(90, 7)}`)).toEqual(error);
+    expect(parse('cursor=rec-1')).toEqual(error);
+  });
+});
+
+// SQL of a $queryRaw call, whitespace collapsed, with its parameters
+const rendered = (call: unknown[]) => {
+  const [strings, ...values] = call as [readonly string[], ...unknown[]];
+  const query = Prisma.sql(strings, ...values);
+  return { sql: query.sql.replace(/\s+/g, ' ').trim(), values: query.values };
+};
+
+const queryOf = (params: string): RecordingQuery => {
+  const result = parse(params);
+  if ('error' in result) throw new Error(result.error);
+  return result.data;
+};
+
+describe('findRecordingIds', () => {
+  beforeEach(() => {
+    queryRaw.mockReset();
+  });
+
+  it('compares relevance as float8 on both sides of the cursor', async () => {
+    queryRaw
+      .mockResolvedValueOnce([
+        { id: 'rec-2', sortKey: 0.0607927106320858 },
+        { id: 'rec-3', sortKey: 0.0303963553160429 }
+      ])
+      .mockResolvedValueOnce([{ total: 7 }]);
+
+    const result = await findRecordingIds(
+      'workspace-1',
+      queryOf(`q=budget&limit=1&cursor=${cursorOf(0.0759909, 'rec-1')}`)
+    );
+
+    const rank = `ts_rank(r."search", websearch_to_tsquery('simple', ?))::float8`;
+    expect(rendered(queryRaw.mock.calls[0])).toEqual({
+      sql: `SELECT r."id", ${rank} AS "sortKey" FROM "Recording" r ` +
+        `WHERE r."workspaceId" = ? AND r."search" @@ websearch_to_tsquery('simple', ?) ` +
+        `AND (${rank}, r."id") < (?::float8, ?) ` +
+        `ORDER BY ${rank} DESC, r."id" DESC LIMIT ?`,
+      values: ['budget', 'workspace-1', 'budget', 'budget', 0.0759909, 'rec-1', 'budget', 2]
+    });
+    expect(result).toEqual({
+      ids: ['rec-2'],
+      total: 7,
+      nextCursor: cursorOf(0.0607927106320858, 'rec-2')
+    });
+  });
+
+  it('continues the date sorts from the cursor timestamp', async () => {
+    queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+
+    await findRecordingIds('workspace-1', queryOf(`cursor=${cursorOf('2026-10-01T09:30:00.000Z', 'rec-1')}`));
+
+    expect(rendered(queryRaw.mock.calls[0])).toEqual({
+      sql: 'SELECT r."id", r."createdAt" AS "sortKey" FROM "Recording" r WHERE r."workspaceId" = ? ' +
+        'AND (r."createdAt", r."id") < (?::timestamp, ?) ORDER BY r."createdAt" DESC, r."id" DESC LIMIT ?',
+      values: ['workspace-1', '2026-10-01T09:30:00.000Z', 'rec-1', 11]
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import prisma from './prisma';
+import { Prisma, RecordingStatus } from '../generated/prisma/client';
+
+export const RECORDING_SORTS = ['newest', 'oldest', 'longest', 'shortest', 'title', 'relevance'] as const;
+
+export type RecordingSort = (typeof RECORDING_SORTS)[number];
+
+const MAX_LIMIT = 100;
+const MAX_TAGS = 10;
+
+// `folder` value listing recordings that aren't in any folder
+export const UNFILED = 'none';
+
+// Filters for the recordings list, as given in GET /api/recordings
+export interface RecordingQuery {
+  // Full-text search over title, summary and transcript
+  q: string | null;
+  status: RecordingStatus | null;
+  // Created on or after `from` and before `to`
+  from: Date | null;
+  to: Date | null;
+  // Seconds
+  minDuration: number | null;
+  maxDuration: number | null;
+  // Tag ids; recordings carrying all of them
+  tags: string[];
+  // Folder id, or UNFILED for recordings in no folder
+  folder: string | null;
+  sort: RecordingSort;
+  limit: number;
+  // Where the previous page ended
+  cursor: RecordingCursor | null;
+}
+
+// Sort key and id of the last recording on a page
+export interface RecordingCursor {
+  // ISO timestamp for the date sorts, the lowercased title, or a number
+  key: string | number;
+  id: string;
+}
+
+// Clients get base64url of [key, id]. Carrying the key itself lets the next page
+// continue even once that recording has been deleted or no longer matches.
+const encodeCursor = (cursor: RecordingCursor) =>
+  Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString('base64url');
+
+const decodeCursor = (value: string, sort: RecordingSort): RecordingCursor | null => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 2 || typeof decoded[1] !== 'string') return null;
+
+  const [key, id] = decoded;
+  const valid = sort === 'newest' || sort === 'oldest'
+    ? typeof key === 'string' && !Number.isNaN(Date.parse(key))
+    : sort === 'title'
+      ? typeof key === 'string'
+      : typeof key === 'number' && Number.isFinite(key);
+  return valid ? { key, id } : null;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string | null, endOfDay: boolean): Date | null | undefined => {
+  if (!value) return null;
+  if (Number.isNaN(Date.parse(value))) return undefined;
+
+  const date = new Date(value);
+  // A date-only `to` includes that whole day
+  if (endOfDay && DATE_ONLY.test(value)) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+};
+
+const parseSeconds = (value: string | null): number | null | undefined => {
+  if (!value) return null;
+  const seconds = Number(value);
+  return Number.isInteger(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+export const parseRecordingQuery = (
+  searchParams: URLSearchParams
+): { data: RecordingQuery } | { error: string } => {
+  const q = searchParams.get('q')?.trim() || null;
+  if (q && q.length > 500) {
+    return { error: 'q must be up to 500 characters' };
+  }
+
+  const status = searchParams.get('status') || null;
+  if (status && !Object.values(RecordingStatus).includes(status as RecordingStatus)) {
+    return { error: `status must be one of: ${Object.values(RecordingStatus).join(', ')}` };
+  }
+
+  const from = parseDate(searchParams.get('from'), false);
+  const to = parseDate(searchParams.get('to'), true);
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be dates such as "2026-10-01"' };
+  }
+
+  const minDuration = parseSeconds(searchParams.get('minDuration'));
+  const maxDuration = parseSeconds(searchParams.get('maxDuration'));
+  if (minDuration === undefined || maxDuration === undefined) {
+    return { error: 'minDuration and maxDuration must be whole seconds' };
+  }
+
+  const tags = [...new Set(searchParams.getAll('tag').filter(Boolean))];
+  if (tags.length > MAX_TAGS) {
+    return { error: `Filter by up to ${MAX_TAGS} tags` };
+  }
+
+  // Best matches first when searching, newest first otherwise
+  const sort = searchParams.get('sort') || (q ? 'relevance' : 'newest');
+  if (!RECORDING_SORTS.includes(sort as RecordingSort)) {
+    return { error: `sort must be one of: ${RECORDING_SORTS.join(', ')}` };
+  }
+  if (sort === 'relevance' && !q) {
+    return { error: 'sort=relevance needs a search query (q)' };
+  }
+
+  const limit = parseInt(searchParams.get('limit') || '10');
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_LIMIT}` };
+  }
+
+  // A cursor only continues the sort it was made for
+  const rawCursor = searchParams.get('cursor');
+  const cursor = rawCursor ? decodeCursor(rawCursor, sort as RecordingSort) : null;
+  if (rawCursor && !cursor) {
+    return { error: 'cursor must be the nextCursor of a previous page with the same sort' };
+  }
+
+  return {
+    data: {
+      q,
+      status: status as RecordingStatus | null,
+      from,
+      to,
+      minDuration,
+      maxDuration,
+      tags,
+      folder: searchParams.get('folder') || null,
+      sort: sort as RecordingSort,
+      limit,
+      cursor
+    }
+  };
+};
+
+// Sort key of a row in `alias`, and whether it runs descending
+const sortKey = (query: RecordingQuery, alias: string): { key: Prisma.Sql; descending: boolean } => {
+  const column = (name: string) => Prisma.raw(`${alias}."${name}"`);
+
+  switch (query.sort) {
+    case 'oldest':
+      return { key: Prisma.sql`${column('createdAt')}`, descending: false };
+    case 'longest':
+      return { key: Prisma.sql`COALESCE(${column('duration')}, 0)`, descending: true };
+    case 'shortest':
+      return { key: Prisma.sql`COALESCE(${column('duration')}, 0)`, descending: false };
+    case 'title':
+      return { key: Prisma.sql`lower(${column('title')})`, descending: false };
+    case 'relevance':
+      // ts_rank is a real; as a float8 it round-trips through the cursor exactly
+      return {
+        key: Prisma.sql`ts_rank(${column('search')}, websearch_to_tsquery('simple', ${query.q}))::float8`,
+        descending: true
+      };
+    default:
+      return { key: Prisma.sql`${column('createdAt')}`, descending: true };
+  }
+};
+
+const toTimestamp = (date: Date) => Prisma.sql`${date.toISOString()}::timestamp`;
+
+// The cursor's sort key, typed to compare with the column
+const cursorKey = (query: RecordingQuery) => {
+  switch (query.sort) {
+    case 'newest':
+    case 'oldest':
+      return toTimestamp(new Date(query.cursor.key));
+    case 'relevance':
+      return Prisma.sql`${query.cursor.key}::float8`;
+    default:
+      return Prisma.sql`${query.cursor.key}`;
+  }
+};
+
+// One page of the workspace's recordings matching the query, as ordered ids. Pages
+// continue after the cursor's (sort key, id), so rows added or removed meanwhile
+// don't shift them.
+export async function findRecordingIds(
+  workspaceId: string,
+  query: RecordingQuery
+): Promise<{ ids: string[]; total: number; nextCursor: string | null }> {
+  const conditions: Prisma.Sql[] = [Prisma.sql`r."workspaceId" = ${workspaceId}`];
+
+  if (query.q) conditions.push(Prisma.sql`r."search" @@ websearch_to_tsquery('simple', ${query.q})`);
+  if (query.status) conditions.push(Prisma.sql`r."status" = ${query.status}::"RecordingStatus"`);
+  if (query.from) conditions.push(Prisma.sql`r."createdAt" >= ${toTimestamp(query.from)}`);
+  if (query.to) conditions.push(Prisma.sql`r."createdAt" < ${toTimestamp(query.to)}`);
+  if (query.minDuration !== null) conditions.push(Prisma.sql`r."duration" >= ${query.minDuration}`);
+  if (query.maxDuration !== null) conditions.push(Prisma.sql`r."duration" <= ${query.maxDuration}`);
+  for (const tagId of query.tags) {
+    conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM "RecordingTag" t WHERE t."recordingId" = r."id" AND t."tagId" = ${tagId})`);
+  }
+  if (query.folder === UNFILED) conditions.push(Prisma.sql`r."folderId" IS NULL`);
+  else if (query.folder) conditions.push(Prisma.sql`r."folderId" = ${query.folder}`);
+
+  const where = Prisma.join(conditions, ' AND ');
+  const { key, descending } = sortKey(query, 'r');
+  const direction = Prisma.raw(descending ? 'DESC' : 'ASC');
+
+  const page = query.cursor
+    ? Prisma.sql`AND (${key}, r."id") ${Prisma.raw(descending ? '<' : '>')} (${cursorKey(query)}, ${query.cursor.id})`
+    : Prisma.empty;
+
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string; sortKey: Date | string | number }[]>`
+      SELECT r."id", ${key} AS "sortKey" FROM "Recording" r
+      WHERE ${where} ${page}
+      ORDER BY ${key} ${direction}, r."id" ${direction}
+      LIMIT ${query.limit + 1}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS "total" FROM "Recording" r WHERE ${where}
+    `
+  ]);
+
+  const last = rows[query.limit - 1];
+  return {
+    ids: rows.slice(0, query.limit).map((row) => row.id),
+    total,
+    nextCursor: rows.length > query.limit
+      ? encodeCursor({
+        key: last.sortKey instanceof Date ? last.sortKey.toISOString() : last.sortKey,
+        id: last.id
+      })
+      : null
+  };
+}
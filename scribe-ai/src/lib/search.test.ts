@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chunkLines, chunkSegments } from './search';
+
+vi.mock('./prisma', () => ({ default: {} }));
+
+const segment = (startMs: number, endMs: number, text: string, speaker: string | null = null) => ({
+  startMs,
+  endMs,
+  speaker,
+  text
+});
+
+describe('chunkSegments', () => {
+  it('joins short segments into one passage with speaker names', () => {
+    const names = new Map([['Speaker 1', 'Ada']]);
+    expect(chunkSegments([
+      segment(0, 2000, 'Hello.', 'Speaker 1'),
+      segment(2000, 4000, 'Hi there.', 'Speaker 2'),
+      segment(4000, 5000, 'Welcome.')
+    ], names)).toEqual([
+      { index: 0, startMs: 0, endMs: 5000, text: 'Ada: Hello.\nSpeaker 2: Hi there.\nWelcome.' }
+    ]);
+  });
+
+  it('starts a new passage after two minutes', () => {
+    const chunks = chunkSegments([
+      segment(0, 60_000, 'one'),
+      segment(60_000, 120_000, 'two'),
+      segment(120_000, 121_000, 'three')
+    ], new Map());
+
+    expect(chunks).toEqual([
+      { index: 0, startMs: 0, endMs: 120_000, text: 'one\ntwo' },
+      { index: 1, startMs: 120_000, endMs: 121_000, text: 'three' }
+    ]);
+  });
+
+  it('starts a new passage before it grows past 1200 characters', () => {
+    const long = 'x'.repeat(700);
+    const chunks = chunkSegments([segment(0, 1000, long), segment(1000, 2000, long)], new Map());
+
+    expect(chunks.map((chunk) => [chunk.index, chunk.startMs, chunk.text.length])).toEqual([
+      [0, 0, 700],
+      [1, 1000, 700]
+    ]);
+  });
+
+  it('returns nothing for no segments', () => {
+    expect(chunkSegments([], new Map())).toEqual([]);
+  });
+});
+
+describe('chunkLines', () => {
+  it('groups non-empty lines without times', () => {
+    expect(chunkLines('first\n\n  \nsecond')).toEqual([
+      { index: 0, startMs: null, endMs: null, text: 'first\nsecond' }
+    ]);
+  });
+});
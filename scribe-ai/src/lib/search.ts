@@ -0,0 +1,361 @@
+import { randomUUID } from 'crypto';
+import prisma from './prisma';
+import { enqueueJob } from './jobs/queue';
+import {
+  atStage,
+  EMBEDDING_DIMENSIONS,
+  getChatProvider,
+  getEmbeddingProvider,
+  ProviderError,
+  type EmbeddingProvider
+} from './providers';
+import { getSpeakerNames } from './speakers';
+import { formatTimestamp, type SpeakerNames } from './transcript';
+import { parseCitations } from './chat';
+import type { IndexJobPayload, ReportProgress } from './jobs/types';
+
+// A chunk ends at whichever limit it reaches first
+const CHUNK_MAX_CHARS = 1200;
+const CHUNK_MAX_MS = 2 * 60 * 1000;
+// Lets autosaved edits settle before the transcript is indexed again
+const INDEX_DELAY_MS = 60 * 1000;
+// Hits taken from each of the keyword and vector searches before merging
+const CANDIDATES = 50;
+// Reciprocal rank fusion: a hit scores 1 / (RRF_K + rank) in each list it's in
+const RRF_K = 60;
+// Vector hits further away than this are noise rather than related passages
+const MIN_SIMILARITY = 0.3;
+const SNIPPET_CHARS = 240;
+// Passages an answer across recordings is grounded in
+const ASK_CONTEXT_CHUNKS = 12;
+// Chunks saved without embeddings are embedded again after this long,
+// doubling with each failure up to a day
+const EMBED_RETRY_BASE_MS = 15 * 60 * 1000;
+const EMBED_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+export interface TranscriptChunkInput {
+  index: number;
+  startMs: number | null;
+  endMs: number | null;
+  text: string;
+}
+
+// Group consecutive segments into passages of a few sentences each
+export const chunkSegments = (
+  segments: { startMs: number; endMs: number; speaker: string | null; text: string }[],
+  names: SpeakerNames
+): TranscriptChunkInput[] => {
+  const chunks: TranscriptChunkInput[] = [];
+  let current: TranscriptChunkInput | null = null;
+
+  for (const segment of segments) {
+    const name = segment.speaker ? names.get(segment.speaker) ?? segment.speaker : null;
+    const line = name ? `${name}: ${segment.text}` : segment.text;
+
+    if (
+      current &&
+      current.text.length + line.length < CHUNK_MAX_CHARS &&
+      segment.endMs - current.startMs! <= CHUNK_MAX_MS
+    ) {
+      current.text += `\n${line}`;
+      current.endMs = segment.endMs;
+    } else {
+      current = { index: chunks.length, startMs: segment.startMs, endMs: segment.endMs, text: line };
+      chunks.push(current);
+    }
+  }
+
+  return chunks;
+};
+
+// Transcripts from before segments were stored have no times to go by
+export const chunkLines = (transcript: string): TranscriptChunkInput[] => {
+  const chunks: TranscriptChunkInput[] = [];
+  let text = '';
+
+  for (const line of transcript.split('\n').filter((line) => line.trim())) {
+    if (text && text.length + line.length >= CHUNK_MAX_CHARS) {
+      chunks.push({ index: chunks.length, startMs: null, endMs: null, text });
+      text = '';
+    }
+    text = text ? `${text}\n${line}` : line;
+  }
+  if (text) chunks.push({ index: chunks.length, startMs: null, endMs: null, text });
+
+  return chunks;
+};
+
+// pgvector's text format, cast with ::vector in queries
+const toVector = (values: number[]) => `[${values.join(',')}]`;
+
+const embed = async (provider: EmbeddingProvider, texts: string[], purpose: 'document' | 'query') => {
+  const vectors = await provider.embed(texts, purpose);
+  if (vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)) {
+    throw new ProviderError(
+      'INVALID_RESPONSE',
+      `Embeddings must have ${EMBEDDING_DIMENSIONS} dimensions; ${provider.model ?? provider.name} returns ${vectors[0]?.length}`,
+      provider.name,
+      { retriable: false }
+    );
+  }
+  return vectors;
+};
+
+// Re-index a recording once its transcript changed. Failing to queue doesn't
+// fail the change itself.
+export async function queueSearchIndex(recordingId: string) {
+  try {
+    const runAt = new Date(Date.now() + INDEX_DELAY_MS);
+    const job = await enqueueJob({ type: 'INDEX', recordingId, runAt });
+    // A pending embedding retry may be hours away; the edit shouldn't wait for it
+    if (job.runAt > runAt) {
+      await prisma.job.updateMany({ where: { id: job.id, status: 'PENDING' }, data: { runAt } });
+    }
+  } catch (error) {
+    console.error('Queue search index error:', error);
+  }
+}
+
+// Recordings transcribed before search existed, a batch per call
+export async function queueMissingSearchIndexes(batchSize = 50) {
+  const recordings = await prisma.recording.findMany({
+    where: {
+      status: 'COMPLETED',
+      transcript: { not: null },
+      jobs: { none: { type: 'INDEX' } }
+    },
+    select: { id: true },
+    take: batchSize
+  });
+
+  for (const recording of recordings) {
+    await enqueueJob({ type: 'INDEX', recordingId: recording.id });
+  }
+}
+
+// Split the current transcript into chunks and embed them, replacing the
+// recording's previous chunks. When embedding fails the chunks are still saved
+// for keyword search, and embedding is tried again later.
+export async function indexRecording(recordingId: string, report: ReportProgress, payload: IndexJobPayload = {}) {
+  const [recording, segments, names] = await Promise.all([
+    prisma.recording.findUnique({
+      where: { id: recordingId },
+      select: { transcript: true }
+    }),
+    prisma.transcriptSegment.findMany({
+      where: { recordingId },
+      orderBy: { index: 'asc' },
+      select: { startMs: true, endMs: true, speaker: true, text: true }
+    }),
+    getSpeakerNames(recordingId)
+  ]);
+
+  if (!recording) throw new ProviderError('UNKNOWN', 'Recording not found in database', null, { retriable: false });
+
+  const chunks = segments.length > 0
+    ? chunkSegments(segments, names)
+    : chunkLines(recording.transcript ?? '');
+
+  let embedded: { vectors: number[][]; provider: EmbeddingProvider } | null = null;
+  if (chunks.length > 0) {
+    try {
+      const provider = getEmbeddingProvider();
+      await report(10, `Embedding ${chunks.length} passages with ${provider.name}`);
+      embedded = { vectors: await embed(provider, chunks.map((chunk) => chunk.text), 'document'), provider };
+    } catch (error) {
+      console.error(`Embedding passages of ${recordingId} failed, indexing keywords only:`, atStage(error, 'index'));
+    }
+  }
+
+  await report(80, 'Saving search index');
+  await prisma.$transaction([
+    prisma.transcriptChunk.deleteMany({ where: { recordingId } }),
+    ...chunks.map((chunk, i) => prisma.$executeRaw`
+      INSERT INTO "TranscriptChunk" ("id", "recordingId", "index", "startMs", "endMs", "text", "embedding", "provider", "model")
+      VALUES (${randomUUID()}, ${recordingId}, ${chunk.index}, ${chunk.startMs}, ${chunk.endMs}, ${chunk.text},
+        ${embedded ? toVector(embedded.vectors[i]) : null}::vector, ${embedded?.provider.name ?? null}, ${embedded?.provider.model ?? null})
+    `)
+  ]);
+
+  if (chunks.length > 0 && !embedded) {
+    const retries = payload.embedRetries ?? 0;
+    await enqueueJob({
+      type: 'INDEX',
+      recordingId,
+      payload: { embedRetries: retries + 1 },
+      runAt: new Date(Date.now() + Math.min(EMBED_RETRY_MAX_MS, EMBED_RETRY_BASE_MS * 2 ** retries))
+    });
+    await report(100, 'Saved for keyword search; embedding will be retried');
+    return;
+  }
+
+  await report(100, 'Search index saved');
+}
+
+interface ChunkHit {
+  id: string;
+  recordingId: string;
+  title: string;
+  recordedAt: Date;
+  startMs: number | null;
+  endMs: number | null;
+  text: string;
+}
+
+type MatchKind = 'keyword' | 'semantic';
+
+interface RankedHit extends ChunkHit {
+  score: number;
+  matchedBy: MatchKind[];
+}
+
+const keywordHits = (workspaceId: string, query: string) => prisma.$queryRaw<ChunkHit[]>`
+  SELECT c."id", c."recordingId", r."title", r."createdAt" AS "recordedAt", c."startMs", c."endMs", c."text"
+  FROM "TranscriptChunk" c
+  JOIN "Recording" r ON r."id" = c."recordingId"
+  WHERE r."workspaceId" = ${workspaceId}
+    AND c."search" @@ websearch_to_tsquery('simple', ${query})
+  ORDER BY ts_rank(c."search", websearch_to_tsquery('simple', ${query})) DESC
+  LIMIT ${CANDIDATES}
+`;
+
+// Only chunks embedded by the current model are comparable with the query
+const semanticHits = async (workspaceId: string, query: string): Promise<ChunkHit[]> => {
+  const provider = getEmbeddingProvider();
+  const [vector] = await embed(provider, [query], 'query');
+
+  return prisma.$queryRaw<ChunkHit[]>`
+    SELECT c."id", c."recordingId", r."title", r."createdAt" AS "recordedAt", c."startMs", c."endMs", c."text"
+    FROM "TranscriptChunk" c
+    JOIN "Recording" r ON r."id" = c."recordingId"
+    WHERE r."workspaceId" = ${workspaceId}
+      AND c."provider" = ${provider.name}
+      AND c."model" IS NOT DISTINCT FROM ${provider.model}
+      AND 1 - (c."embedding" <=> ${toVector(vector)}::vector) >= ${MIN_SIMILARITY}
+    ORDER BY c."embedding" <=> ${toVector(vector)}::vector
+    LIMIT ${CANDIDATES}
+  `;
+};
+
+// Keyword and vector hits merged by reciprocal rank fusion. Search carries on
+// with keywords alone when the embedding provider is unavailable.
+async function hybridSearch(workspaceId: string, query: string, limit: number): Promise<RankedHit[]> {
+  const [keyword, semantic] = await Promise.all([
+    keywordHits(workspaceId, query),
+    semanticHits(workspaceId, query).catch((error) => {
+      console.error('Semantic search error:', error);
+      return [];
+    })
+  ]);
+
+  const ranked = new Map<string, RankedHit>();
+  const add = (hits: ChunkHit[], kind: MatchKind) => hits.forEach((hit, rank) => {
+    const entry = ranked.get(hit.id) ?? { ...hit, score: 0, matchedBy: [] };
+    entry.score += 1 / (RRF_K + rank + 1);
+    entry.matchedBy.push(kind);
+    ranked.set(hit.id, entry);
+  });
+  add(keyword, 'keyword');
+  add(semantic, 'semantic');
+
+  return [...ranked.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// An excerpt around the first query word found, with every query word in it
+// marked as [start, end) offsets
+export const highlightSnippet = (text: string, query: string) => {
+  const words = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [])];
+  const pattern = words.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})`, 'giu')
+    : null;
+
+  const flat = text.replace(/\s*\n\s*/g, ' ');
+  const first = pattern ? flat.search(pattern) : -1;
+  let start = Math.max(0, first - SNIPPET_CHARS / 3);
+  // Don't start mid-word
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start;
+  const end = Math.min(flat.length, start + SNIPPET_CHARS);
+
+  const snippet = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  const highlights: [number, number][] = pattern
+    ? [...snippet.matchAll(pattern)].map((match) => [match.index, match.index + match[0].length])
+    : [];
+
+  return { snippet, highlights };
+};
+
+export interface SearchResult {
+  chunkId: string;
+  recordingId: string;
+  title: string;
+  recordedAt: Date;
+  startMs: number | null;
+  endMs: number | null;
+  snippet: string;
+  highlights: [number, number][];
+  matchedBy: MatchKind[];
+  score: number;
+}
+
+export async function searchRecordings(workspaceId: string, query: string, limit = 20): Promise<SearchResult[]> {
+  const hits = await hybridSearch(workspaceId, query, limit);
+
+  return hits.map((hit) => ({
+    chunkId: hit.id,
+    recordingId: hit.recordingId,
+    title: hit.title,
+    recordedAt: hit.recordedAt,
+    startMs: hit.startMs,
+    endMs: hit.endMs,
+    ...highlightSnippet(hit.text, query),
+    matchedBy: hit.matchedBy,
+    score: hit.score
+  }));
+}
+
+// A passage an answer across recordings cites as [line]
+export interface RecordingCitation {
+  line: number;
+  recordingId: string;
+  title: string;
+  startMs: number | null;
+}
+
+// Answer a question from the passages that search finds for it
+export async function askAcrossRecordings(
+  workspaceId: string,
+  question: string
+): Promise<{ answer: string; citations: RecordingCitation[] }> {
+  const hits = await hybridSearch(workspaceId, question, ASK_CONTEXT_CHUNKS);
+  if (hits.length === 0) {
+    return { answer: 'Nothing in your meetings seems to cover that.', citations: [] };
+  }
+
+  const lines = hits.map((hit) => {
+    const when = [
+      hit.recordedAt.toISOString().slice(0, 10),
+      ...(hit.startMs !== null ? [formatTimestamp(hit.startMs)] : [])
+    ].join(', ');
+    return `Meeting "${hit.title}" (${when}):\n${hit.text}`;
+  });
+
+  const provider = getChatProvider();
+  let answer = '';
+  for await (const chunk of provider.chat(
+    [{ role: 'user', content: question }],
+    { title: "the user's recorded meetings", lines }
+  )) {
+    answer += chunk;
+  }
+
+  const citations = parseCitations(answer, lines.length).map((line) => ({
+    line,
+    recordingId: hits[line].recordingId,
+    title: hits[line].title,
+    startMs: hits[line].startMs
+  }));
+
+  return { answer, citations };
+}
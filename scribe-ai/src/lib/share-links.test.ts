@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createShareLink,
+  findShareLink,
+  includesScope,
+  isShareUnlocked,
+  parseShareLinkInput,
+  shareUnlockKey,
+  verifySharePassword
+} from './share-links';
+
+const { create, findUnique } = vi.hoisted(() => ({ create: vi.fn(), findUnique: vi.fn() }));
+
+vi.mock('./prisma', () => ({ default: { shareLink: { create, findUnique } } }));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('includesScope', () => {
+  it('grants a scope and every narrower one', () => {
+    expect(includesScope('AUDIO', 'SUMMARY')).toBe(true);
+    expect(includesScope('AUDIO', 'TRANSCRIPT')).toBe(true);
+    expect(includesScope('TRANSCRIPT', 'TRANSCRIPT')).toBe(true);
+  });
+
+  it('refuses wider scopes', () => {
+    expect(includesScope('SUMMARY', 'TRANSCRIPT')).toBe(false);
+    expect(includesScope('TRANSCRIPT', 'AUDIO')).toBe(false);
+  });
+});
+
+describe('parseShareLinkInput', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('defaults to a link without expiry or password', () => {
+    expect(parseShareLinkInput({ scope: 'SUMMARY' })).toEqual({
+      data: { scope: 'SUMMARY', expiresAt: null, password: null }
+    });
+    expect(parseShareLinkInput({ scope: 'AUDIO', expiresInDays: null, password: '' })).toEqual({
+      data: { scope: 'AUDIO', expiresAt: null, password: null }
+    });
+  });
+
+  it('sets the expiry that many days ahead', () => {
+    const result = parseShareLinkInput({ scope: 'TRANSCRIPT', expiresInDays: 7, password: 'secret1' });
+    expect(result).toEqual({
+      data: {
+        scope: 'TRANSCRIPT',
+        expiresAt: new Date(Date.now() + 7 * DAY),
+        password: 'secret1'
+      }
+    });
+  });
+
+  it('refuses unknown scopes', () => {
+    expect(parseShareLinkInput({})).toHaveProperty('error');
+    expect(parseShareLinkInput({ scope: 'EVERYTHING' })).toHaveProperty('error');
+  });
+
+  it('refuses expiries that are not whole days from 1 to 365', () => {
+    for (const expiresInDays of [0, -1, 1.5, 366, '7']) {
+      expect(parseShareLinkInput({ scope: 'SUMMARY', expiresInDays })).toHaveProperty('error');
+    }
+  });
+
+  it('refuses passwords that are too short, too long or not text', () => {
+    for (const password of ['short', 'x'.repeat(201), 123456]) {
+      expect(parseShareLinkInput({ scope: 'SUMMARY', password })).toHaveProperty('error');
+    }
+  });
+});
+
+describe('findShareLink', () => {
+  const link = { id: 'link-1', recordingId: 'recording-1', scope: 'SUMMARY', passwordHash: null };
+
+  it('finds links that have not expired', async () => {
+    findUnique.mockResolvedValueOnce({ ...link, expiresAt: null });
+    expect(await findShareLink('token')).toMatchObject(link);
+
+    findUnique.mockResolvedValueOnce({ ...link, expiresAt: new Date(Date.now() + DAY) });
+    expect(await findShareLink('token')).toMatchObject(link);
+  });
+
+  it('treats expired and revoked links as missing', async () => {
+    findUnique.mockResolvedValueOnce({ ...link, expiresAt: new Date(Date.now() - 1000) });
+    expect(await findShareLink('token')).toBeNull();
+
+    findUnique.mockResolvedValueOnce(null);
+    expect(await findShareLink('token')).toBeNull();
+  });
+});
+
+describe('share link passwords', () => {
+  let passwordHash: string;
+
+  beforeEach(async () => {
+    create.mockImplementation(async ({ data }) => data);
+    ({ passwordHash } = await createShareLink('recording-1', 'user-1', {
+      scope: 'TRANSCRIPT',
+      expiresAt: null,
+      password: 'correct horse'
+    }));
+  });
+
+  it('stores a hash rather than the password', () => {
+    expect(passwordHash).toMatch(/^\$argon2/);
+    expect(passwordHash).not.toContain('correct horse');
+  });
+
+  it('verifies only the right password', async () => {
+    expect(await verifySharePassword(passwordHash, 'correct horse')).toBe(true);
+    expect(await verifySharePassword(passwordHash, 'wrong horse')).toBe(false);
+  });
+
+  it('unlocks with the cookie derived from the hash', () => {
+    expect(isShareUnlocked(passwordHash, shareUnlockKey(passwordHash))).toBe(true);
+  });
+
+  it('stays locked without the cookie or with a stale one', () => {
+    expect(isShareUnlocked(passwordHash, undefined)).toBe(false);
+    expect(isShareUnlocked(passwordHash, 'guess')).toBe(false);
+    expect(isShareUnlocked(passwordHash, shareUnlockKey(`${passwordHash}-old`))).toBe(false);
+  });
+
+  it('needs no cookie when the link has no password', () => {
+    expect(isShareUnlocked(null, undefined)).toBe(true);
+  });
+});
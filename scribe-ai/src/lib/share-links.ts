@@ -0,0 +1,181 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { hash, verify } from '@node-rs/argon2';
+import prisma from './prisma';
+import { getSpeakerNames } from './speakers';
+import type { ShareScope } from '../generated/prisma/client';
+
+// Ordered: each scope shows everything the ones before it do
+export const SHARE_SCOPES: ShareScope[] = ['SUMMARY', 'TRANSCRIPT', 'AUDIO'];
+
+const MAX_EXPIRY_DAYS = 365;
+
+// Same parameters as account passwords
+const ARGON2_OPTIONS = {
+  memoryCost: 19456,
+  timeCost: 2,
+  outputLen: 32,
+  parallelism: 1
+};
+
+// Set, scoped to the link's API path, once its password has been entered
+export const SHARE_COOKIE = 'scribe-share';
+
+export const includesScope = (scope: ShareScope, needed: ShareScope) =>
+  SHARE_SCOPES.indexOf(scope) >= SHARE_SCOPES.indexOf(needed);
+
+export const SHARE_LINK_SELECT = {
+  id: true,
+  token: true,
+  scope: true,
+  passwordHash: true,
+  expiresAt: true,
+  viewCount: true,
+  createdAt: true,
+  createdBy: { select: { name: true, email: true } }
+} as const;
+
+type SelectedShareLink = {
+  id: string;
+  token: string;
+  scope: ShareScope;
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  viewCount: number;
+  createdAt: Date;
+  createdBy: { name: string | null; email: string } | null;
+};
+
+// What the detail page lists; the hash never leaves the server
+export const toShareLinkResponse = (link: SelectedShareLink) => ({
+  id: link.id,
+  token: link.token,
+  scope: link.scope,
+  hasPassword: link.passwordHash !== null,
+  expiresAt: link.expiresAt,
+  viewCount: link.viewCount,
+  createdAt: link.createdAt,
+  createdBy: link.createdBy
+});
+
+export interface ShareLinkInput {
+  scope: ShareScope;
+  expiresAt: Date | null;
+  password: string | null;
+}
+
+// `expiresInDays` is null or missing for links that don't expire
+export const parseShareLinkInput = (
+  body: Record<string, unknown>
+): { data: ShareLinkInput } | { error: string } => {
+  if (typeof body.scope !== 'string' || !(SHARE_SCOPES as string[]).includes(body.scope)) {
+    return { error: `scope must be one of: ${SHARE_SCOPES.join(', ')}` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (body.expiresInDays !== undefined && body.expiresInDays !== null) {
+    const days = body.expiresInDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return { error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}` };
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  let password: string | null = null;
+  if (body.password !== undefined && body.password !== null && body.password !== '') {
+    if (typeof body.password !== 'string' || body.password.length < 6 || body.password.length > 200) {
+      return { error: 'password must be 6-200 characters' };
+    }
+    password = body.password;
+  }
+
+  return { data: { scope: body.scope as ShareScope, expiresAt, password } };
+};
+
+export async function createShareLink(recordingId: string, createdById: string, input: ShareLinkInput) {
+  return prisma.shareLink.create({
+    data: {
+      recordingId,
+      createdById,
+      token: randomBytes(24).toString('base64url'),
+      scope: input.scope,
+      expiresAt: input.expiresAt,
+      passwordHash: input.password ? await hash(input.password, ARGON2_OPTIONS) : null
+    },
+    select: SHARE_LINK_SELECT
+  });
+}
+
+// The link behind a token, unless it was revoked or has expired
+export async function findShareLink(token: string) {
+  const link = await prisma.shareLink.findUnique({
+    where: { token },
+    select: { id: true, recordingId: true, scope: true, passwordHash: true, expiresAt: true }
+  });
+
+  if (!link || (link.expiresAt && link.expiresAt < new Date())) return null;
+  return link;
+}
+
+export const verifySharePassword = (passwordHash: string, password: string) =>
+  verify(passwordHash, password, ARGON2_OPTIONS);
+
+// Cookie value proving the password was entered. Derived from the hash, so
+// only the server can produce it and changing the password invalidates it.
+export const shareUnlockKey = (passwordHash: string) =>
+  createHash('sha256').update(passwordHash).digest('base64url');
+
+export const isShareUnlocked = (passwordHash: string | null, cookie: string | undefined) => {
+  if (!passwordHash) return true;
+  if (!cookie) return false;
+
+  const expected = Buffer.from(shareUnlockKey(passwordHash));
+  const given = Buffer.from(cookie);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// The read-only view of a recording a link shows, limited to its scope
+export async function getSharedRecording(recordingId: string, scope: ShareScope) {
+  const recording = await prisma.recording.findUniqueOrThrow({
+    where: { id: recordingId },
+    select: {
+      title: true,
+      duration: true,
+      summary: true,
+      transcript: true,
+      audioUrl: true,
+      createdAt: true
+    }
+  });
+
+  const shared = {
+    title: recording.title,
+    duration: recording.duration,
+    summary: recording.summary,
+    createdAt: recording.createdAt,
+    hasAudio: includesScope(scope, 'AUDIO') && recording.audioUrl !== null
+  };
+
+  if (!includesScope(scope, 'TRANSCRIPT')) {
+    return { ...shared, transcript: null, segments: [] };
+  }
+
+  const [segments, names] = await Promise.all([
+    prisma.transcriptSegment.findMany({
+      where: { recordingId },
+      orderBy: { index: 'asc' },
+      select: { startMs: true, speaker: true, text: true }
+    }),
+    getSpeakerNames(recordingId)
+  ]);
+
+  return {
+    ...shared,
+    transcript: recording.transcript,
+    // Speakers under the names given to them on the recording page
+    segments: segments.map((segment) => ({
+      startMs: segment.startMs,
+      speaker: segment.speaker ? names.get(segment.speaker) ?? segment.speaker : null,
+      text: segment.text
+    }))
+  };
+}
@@ -1,6 +1,7 @@
 import { Server as NetServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import { transcribeAudio, generateSummary } from './gemini';
+import { getSummarizationProvider, getTranscriptionProvider } from './providers';
+import { formatTranscript } from './transcript';
 import prisma from './prisma';
 
 let io: SocketIOServer | null = null;
@@ -29,7 +30,7 @@ export const initializeSocket = (httpServer?: NetServer) => {
           
           const audioBlob = new Blob([data.chunk], { type: 'audio/webm' });
           
-          const transcription = await transcribeAudio(audioBlob);
+          const transcription = formatTranscript(await getTranscriptionProvider().transcribe(audioBlob));
           
           socket.emit('transcription-update', {
             recordingId: data.recordingId,
@@ -84,7 +85,7 @@ export const initializeSocket = (httpServer?: NetServer) => {
             status: 'PROCESSING' 
           });
 
-          const summary = await generateSummary(recording.transcript);
+          const summary = await getSummarizationProvider().summarize(recording.transcript);
 
           const duration = Math.floor(
             (new Date().getTime() - new Date(recording.createdAt).getTime()) / 1000
@@ -0,0 +1,81 @@
+import prisma from './prisma';
+import { formatTranscript, type SpeakerNames } from './transcript';
+
+// Assigned in order of first appearance, cycling when there are more speakers
+export const SPEAKER_COLORS = [
+  '#2563eb',
+  '#db2777',
+  '#16a34a',
+  '#ea580c',
+  '#9333ea',
+  '#0891b2',
+  '#ca8a04',
+  '#dc2626'
+];
+
+// Create Speaker rows for labels seen for the first time
+export async function ensureSpeakers(recordingId: string, labels: (string | null)[]) {
+  const unique = [...new Set(labels.filter((label): label is string => !!label))];
+  if (unique.length === 0) return;
+
+  const existing = await prisma.speaker.findMany({
+    where: { recordingId },
+    select: { label: true }
+  });
+  const known = new Set(existing.map((speaker) => speaker.label));
+  const added = unique.filter((label) => !known.has(label));
+
+  if (added.length === 0) return;
+
+  await prisma.speaker.createMany({
+    data: added.map((label, i) => ({
+      recordingId,
+      label,
+      color: SPEAKER_COLORS[(existing.length + i) % SPEAKER_COLORS.length]
+    })),
+    skipDuplicates: true
+  });
+}
+
+export async function getSpeakerNames(recordingId: string): Promise<SpeakerNames> {
+  const speakers = await prisma.speaker.findMany({
+    where: { recordingId, displayName: { not: null } },
+    select: { label: true, displayName: true }
+  });
+
+  return new Map(speakers.map((speaker) => [speaker.label, speaker.displayName!]));
+}
+
+// Re-derive Recording.transcript from the stored segments with current names
+export async function renderTranscript(recordingId: string): Promise<string | null> {
+  const [segments, names] = await Promise.all([
+    prisma.transcriptSegment.findMany({
+      where: { recordingId },
+      orderBy: { index: 'asc' },
+      select: { speaker: true, text: true }
+    }),
+    getSpeakerNames(recordingId)
+  ]);
+
+  // Recordings from before segments were stored keep their plain transcript
+  if (segments.length === 0) return null;
+
+  return formatTranscript(segments, names);
+}
+
+// Speaking time per speaker label, from segment durations
+export async function getTalkTime(recordingId: string) {
+  const segments = await prisma.transcriptSegment.findMany({
+    where: { recordingId, speaker: { not: null } },
+    select: { speaker: true, startMs: true, endMs: true }
+  });
+
+  const stats = new Map<string, { talkTimeMs: number; segmentCount: number }>();
+  for (const segment of segments) {
+    const entry = stats.get(segment.speaker!) ?? { talkTimeMs: 0, segmentCount: 0 };
+    entry.talkTimeMs += Math.max(0, segment.endMs - segment.startMs);
+    entry.segmentCount++;
+    stats.set(segment.speaker!, entry);
+  }
+  return stats;
+}
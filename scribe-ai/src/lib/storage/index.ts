@@ -0,0 +1,64 @@
+import path from 'path';
+import { LocalAudioStorage } from './local';
+import { S3AudioStorage } from './s3';
+import { extensionForMimeType } from './mime';
+import type { AudioStorage } from './types';
+
+export type { AudioStorage, AudioUpload, AudioObjectInfo, ByteRange, StoredAudio } from './types';
+export { contentTypeForKey, extensionForMimeType } from './mime';
+
+let storage: AudioStorage | null = null;
+let localDriver: LocalAudioStorage | null = null;
+
+const getLocalStorage = () => {
+  if (!localDriver) {
+    localDriver = new LocalAudioStorage(
+      path.resolve(process.env.AUDIO_STORAGE_DIR || './storage/audio')
+    );
+  }
+  return localDriver;
+};
+
+// Driver selected by AUDIO_STORAGE_DRIVER ("local" by default, or "s3")
+export const getAudioStorage = (): AudioStorage => {
+  if (storage) return storage;
+
+  const driver = process.env.AUDIO_STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when AUDIO_STORAGE_DRIVER=s3');
+    }
+
+    storage = new S3AudioStorage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      // MinIO and most self-hosted S3 stand-ins need path-style addressing
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true' || !!process.env.S3_ENDPOINT
+    });
+  } else if (driver === 'local') {
+    storage = getLocalStorage();
+  } else {
+    throw new Error(`Unknown AUDIO_STORAGE_DRIVER: ${driver}`);
+  }
+
+  return storage;
+};
+
+// Resolve the driver that owns a stored audioUrl, so recordings written before a
+// driver switch stay readable
+export const getStorageForUrl = (url: string): AudioStorage => {
+  const configured = getAudioStorage();
+  if (configured.handles(url)) return configured;
+
+  const local = getLocalStorage();
+  if (local.handles(url)) return local;
+
+  throw new Error(`No storage driver available for ${url}`);
+};
+
+export const audioKeyFor = (recordingId: string, mimeType?: string) =>
+  `recordings/${recordingId}.${extensionForMimeType(mimeType)}`;
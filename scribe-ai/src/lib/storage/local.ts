@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { AudioObjectInfo, AudioStorage, AudioUpload, ByteRange, StoredAudio } from './types';
+import { contentTypeForKey } from './mime';
+
+const URL_PREFIX = 'local://';
+
+// Append-only file writer used by every driver to spool chunks to disk
+export class SpoolFile {
+  private stream: fs.WriteStream;
+  private written = 0;
+  private error: Error | null = null;
+
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = fs.createWriteStream(filePath, { flags: 'w' });
+    // A failed open or write destroys the stream; pending and later calls are
+    // rejected with the error instead of it going unhandled
+    this.stream.on('error', (err) => {
+      this.error ??= err;
+    });
+  }
+
+  get bytesWritten() {
+    return this.written;
+  }
+
+  append(chunk: Buffer): Promise<void> {
+    // WriteStream preserves call order, so concurrent socket handlers can't reorder chunks
+    if (this.error) return Promise.reject(this.error);
+    this.written += chunk.byteLength;
+    return new Promise((resolve, reject) => {
+      this.stream.write(chunk, (err) => (err ? reject(this.error ?? err) : resolve()));
+    });
+  }
+
+  close(): Promise<void> {
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.stream.end((err?: Error | null) => (err ? reject(this.error ?? err) : resolve()));
+    });
+  }
+
+  async discard(): Promise<void> {
+    await this.close().catch(() => undefined);
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+}
+
+class LocalAudioUpload implements AudioUpload {
+  private spool: SpoolFile;
+
+  constructor(
+    readonly key: string,
+    private readonly root: string,
+    private readonly contentType: string
+  ) {
+    this.spool = new SpoolFile(path.join(root, `${key}.part`));
+  }
+
+  get bytesWritten() {
+    return this.spool.bytesWritten;
+  }
+
+  append(chunk: Buffer) {
+    return this.spool.append(chunk);
+  }
+
+  async finalize(): Promise<StoredAudio> {
+    await this.spool.close();
+    const finalPath = path.join(this.root, this.key);
+    await fs.promises.rename(this.spool.filePath, finalPath);
+
+    return {
+      url: `${URL_PREFIX}${this.key}`,
+      key: this.key,
+      size: this.spool.bytesWritten,
+      contentType: this.contentType
+    };
+  }
+
+  abort() {
+    return this.spool.discard();
+  }
+}
+
+export class LocalAudioStorage implements AudioStorage {
+  readonly driver = 'local' as const;
+
+  constructor(private readonly root: string) {}
+
+  private resolve(url: string) {
+    const key = url.slice(URL_PREFIX.length);
+    const filePath = path.resolve(this.root, key);
+
+    // Never follow keys outside the storage root
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  createUpload(key: string, contentType: string): AudioUpload {
+    return new LocalAudioUpload(key, this.root, contentType);
+  }
+
+  handles(url: string) {
+    return url.startsWith(URL_PREFIX);
+  }
+
+  async stat(url: string): Promise<AudioObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(url));
+      return {
+        size: stats.size,
+        contentType: contentTypeForKey(url),
+        lastModified: stats.mtime
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(url: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(url), range && { start: range.start, end: range.end });
+  }
+
+  read(url: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(url));
+  }
+
+  async delete(url: string): Promise<void> {
+    await fs.promises.rm(this.resolve(url), { force: true });
+  }
+}
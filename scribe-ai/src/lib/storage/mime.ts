@@ -0,0 +1,36 @@
+import path from 'path';
+
+// Map a MediaRecorder MIME type (which may carry codec params) to a file extension
+export const extensionForMimeType = (mimeType: string | undefined): string => {
+  const base = (mimeType || '').split(';')[0].trim().toLowerCase();
+  switch (base) {
+    case 'audio/ogg':
+      return 'ogg';
+    case 'audio/mp4':
+    case 'video/mp4':
+      return 'mp4';
+    case 'audio/mpeg':
+      return 'mp3';
+    case 'audio/wav':
+      return 'wav';
+    default:
+      return 'webm';
+  }
+};
+
+export const contentTypeForKey = (key: string): string => {
+  const ext = path.extname(key).toLowerCase();
+  switch (ext) {
+    case '.ogg':
+      return 'audio/ogg';
+    case '.mp4':
+    case '.m4a':
+      return 'audio/mp4';
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.wav':
+      return 'audio/wav';
+    default:
+      return 'audio/webm';
+  }
+};
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { SpoolFile } from './local';
+import type { AudioObjectInfo, AudioStorage, AudioUpload, ByteRange, StoredAudio } from './types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+// S3 multipart parts must be >= 5MB, so chunks are spooled to a temp file and
+// uploaded as a single object once the recording is complete
+class S3AudioUpload implements AudioUpload {
+  private spool: SpoolFile;
+
+  constructor(
+    readonly key: string,
+    private readonly storage: S3AudioStorage,
+    private readonly contentType: string
+  ) {
+    const spoolName = key.replace(/[^a-zA-Z0-9._-]/g, '_');
+    this.spool = new SpoolFile(path.join(os.tmpdir(), 'scribe-audio', `${spoolName}.part`));
+  }
+
+  get bytesWritten() {
+    return this.spool.bytesWritten;
+  }
+
+  append(chunk: Buffer) {
+    return this.spool.append(chunk);
+  }
+
+  async finalize(): Promise<StoredAudio> {
+    await this.spool.close();
+
+    try {
+      await this.storage.client.send(new PutObjectCommand({
+        Bucket: this.storage.bucket,
+        Key: this.key,
+        Body: fs.createReadStream(this.spool.filePath),
+        ContentLength: this.spool.bytesWritten,
+        ContentType: this.contentType
+      }));
+    } finally {
+      await fs.promises.rm(this.spool.filePath, { force: true });
+    }
+
+    return {
+      url: `s3://${this.storage.bucket}/${this.key}`,
+      key: this.key,
+      size: this.spool.bytesWritten,
+      contentType: this.contentType
+    };
+  }
+
+  abort() {
+    return this.spool.discard();
+  }
+}
+
+export class S3AudioStorage implements AudioStorage {
+  readonly driver = 's3' as const;
+  readonly client: S3Client;
+  readonly bucket: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      ...(config.accessKeyId && config.secretAccessKey && {
+        credentials: {
+          accessKeyId: config.accessKeyId,
+          secretAccessKey: config.secretAccessKey
+        }
+      })
+    });
+  }
+
+  private parse(url: string) {
+    const match = url.match(/^s3:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid S3 audio URL: ${url}`);
+    }
+    return { Bucket: match[1], Key: match[2] };
+  }
+
+  createUpload(key: string, contentType: string): AudioUpload {
+    return new S3AudioUpload(key, this, contentType);
+  }
+
+  handles(url: string) {
+    return url.startsWith('s3://');
+  }
+
+  async stat(url: string): Promise<AudioObjectInfo | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand(this.parse(url)));
+      return {
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType || 'audio/webm',
+        lastModified: head.LastModified ?? new Date(0)
+      };
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (status === 404) return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(url: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      ...this.parse(url),
+      ...(range && { Range: `bytes=${range.start}-${range.end}` })
+    }));
+    return object.Body as Readable;
+  }
+
+  async read(url: string): Promise<Buffer> {
+    const object = await this.client.send(new GetObjectCommand(this.parse(url)));
+    const bytes = await object.Body!.transformToByteArray();
+    return Buffer.from(bytes);
+  }
+
+  async delete(url: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand(this.parse(url)));
+  }
+}
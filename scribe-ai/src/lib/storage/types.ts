@@ -0,0 +1,41 @@
+import type { Readable } from 'stream';
+
+// A finalized audio object as persisted by a storage driver
+export interface StoredAudio {
+  url: string;
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+// Inclusive byte range, as used by HTTP Range requests
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface AudioObjectInfo {
+  size: number;
+  contentType: string;
+  lastModified: Date;
+}
+
+// Incremental writer: chunks are appended in order as they arrive over the
+// socket and turned into a single object on finalize()
+export interface AudioUpload {
+  readonly key: string;
+  readonly bytesWritten: number;
+  append(chunk: Buffer): Promise<void>;
+  finalize(): Promise<StoredAudio>;
+  abort(): Promise<void>;
+}
+
+export interface AudioStorage {
+  readonly driver: 'local' | 's3';
+  createUpload(key: string, contentType: string): AudioUpload;
+  handles(url: string): boolean;
+  stat(url: string): Promise<AudioObjectInfo | null>;
+  createReadStream(url: string, range?: ByteRange): Promise<Readable>;
+  read(url: string): Promise<Buffer>;
+  delete(url: string): Promise<void>;
+}
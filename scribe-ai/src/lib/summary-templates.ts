@@ -0,0 +1,282 @@
+import prisma from './prisma';
+import { GENERAL_TEMPLATE, type SummarySection, type SummaryTemplateSpec } from './providers';
+
+export type { SummarySection };
+
+export interface SummaryTemplate extends SummaryTemplateSpec {
+  id: string;
+  description: string | null;
+  // Built-ins live in code and can't be changed or deleted
+  builtIn: boolean;
+  // Shared with the workspace rather than one user's own
+  shared?: boolean;
+}
+
+// Whose templates may be used: the workspace's and the user's own
+export interface TemplateScope {
+  userId: string | null;
+  workspaceId: string | null;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const BUILTIN_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    builtIn: true,
+    description: 'Overview, key points, action items and important details',
+    ...GENERAL_TEMPLATE
+  },
+  {
+    id: 'standup',
+    builtIn: true,
+    name: 'Stand-up',
+    description: 'Updates per person, blockers and follow-ups',
+    prompt: 'Summarize this stand-up meeting, grouping the updates by person.',
+    sections: [
+      { title: 'Updates', description: 'For each person: what they finished and what they are working on next' },
+      { title: 'Blockers', description: 'Bulleted blockers and who can help with them. If none, write "No blockers"' },
+      { title: 'Follow-ups', description: 'Bulleted conversations to have after the stand-up, with who is involved' }
+    ]
+  },
+  {
+    id: 'sales-call',
+    builtIn: true,
+    name: 'Sales call',
+    description: 'Customer needs, objections, budget and next steps',
+    prompt: "Summarize this sales call from the seller's point of view.",
+    sections: [
+      { title: 'Customer', description: 'Who the customer is, who attended and their roles' },
+      { title: 'Needs and Pain Points', description: 'Bulleted problems the customer wants solved, in their words where possible' },
+      { title: 'Objections', description: 'Bulleted concerns raised and how they were answered. If none, write "No objections raised"' },
+      { title: 'Budget and Timeline', description: 'Budget, decision process and dates mentioned. If none, write "Not discussed"' },
+      { title: 'Next Steps', description: 'Bulleted commitments from either side, with owners and dates' }
+    ]
+  },
+  {
+    id: 'interview',
+    builtIn: true,
+    name: 'Interview',
+    description: 'Candidate background, strengths and concerns for the hiring team',
+    prompt: 'Summarize this job interview for the hiring team. Report what the candidate said; do not make a hiring recommendation.',
+    sections: [
+      { title: 'Background', description: "2-3 sentences on the candidate's experience as they described it" },
+      { title: 'Strengths', description: 'Bulleted strengths shown in their answers, with examples' },
+      { title: 'Concerns', description: 'Bulleted gaps or unclear answers worth following up. If none, write "No concerns noted"' },
+      { title: 'Candidate Questions', description: 'Bulleted questions the candidate asked' },
+      { title: 'Next Steps', description: 'Bulleted next steps agreed in the interview' }
+    ]
+  },
+  {
+    id: 'lecture',
+    builtIn: true,
+    name: 'Lecture',
+    description: 'Study notes: key concepts, examples and review questions',
+    prompt: 'Write study notes for this lecture.',
+    sections: [
+      { title: 'Topic', description: '2-3 sentences on what the lecture covered' },
+      { title: 'Key Concepts', description: 'Bulleted concepts, each with a one-sentence explanation' },
+      { title: 'Examples', description: 'Bulleted examples, formulas or cases worked through' },
+      { title: 'Review Questions', description: '3-5 questions to check understanding of the material' }
+    ]
+  },
+  {
+    id: 'one-on-one',
+    builtIn: true,
+    name: '1:1',
+    description: 'Topics, feedback, goals and agreed actions',
+    prompt: 'Summarize this one-on-one meeting between a manager and a member of their team.',
+    sections: [
+      { title: 'Topics', description: 'Bulleted topics discussed' },
+      { title: 'Feedback', description: 'Bulleted feedback given in either direction. If none, write "No feedback discussed"' },
+      { title: 'Goals and Growth', description: 'Bulleted goals, career or development points mentioned' },
+      { title: 'Action Items', description: 'Bulleted actions with who owns each one' }
+    ]
+  }
+];
+
+const TEMPLATE_SELECT = {
+  id: true,
+  workspaceId: true,
+  name: true,
+  description: true,
+  prompt: true,
+  sections: true,
+  schema: true
+} as const;
+
+type TemplateRow = {
+  id: string;
+  workspaceId: string | null;
+  name: string;
+  description: string | null;
+  prompt: string;
+  sections: unknown;
+  schema: unknown;
+};
+
+const toTemplate = ({ workspaceId, ...row }: TemplateRow): SummaryTemplate => ({
+  ...row,
+  sections: row.sections as SummarySection[],
+  schema: (row.schema as Record<string, unknown> | null) ?? null,
+  builtIn: false,
+  shared: workspaceId !== null
+});
+
+const scopeFilter = (scope: TemplateScope) => [
+  ...(scope.workspaceId ? [{ workspaceId: scope.workspaceId }] : []),
+  ...(scope.userId ? [{ userId: scope.userId }] : [])
+];
+
+// Built-ins first, then the workspace's, then the user's own, each by name
+export async function listTemplates(scope: TemplateScope): Promise<SummaryTemplate[]> {
+  const rows = await prisma.summaryTemplate.findMany({
+    where: { OR: scopeFilter(scope) },
+    orderBy: { name: 'asc' },
+    select: TEMPLATE_SELECT
+  });
+  const templates = rows.map(toTemplate);
+  return [
+    ...BUILTIN_TEMPLATES,
+    ...templates.filter((template) => template.shared),
+    ...templates.filter((template) => !template.shared)
+  ];
+}
+
+export async function getTemplate(id: string, scope: TemplateScope): Promise<SummaryTemplate | null> {
+  const builtIn = BUILTIN_TEMPLATES.find((template) => template.id === id);
+  if (builtIn) return builtIn;
+
+  const owners = scopeFilter(scope);
+  if (owners.length === 0) return null;
+
+  const row = await prisma.summaryTemplate.findFirst({
+    where: { id, OR: owners },
+    select: TEMPLATE_SELECT
+  });
+  return row && toTemplate(row);
+}
+
+// Template to summarize with; one deleted since it was chosen, or no longer
+// within reach, falls back to the default
+export async function resolveTemplate(id: string | null | undefined, scope: TemplateScope): Promise<SummaryTemplate> {
+  return (id && await getTemplate(id, scope)) || BUILTIN_TEMPLATES[0];
+}
+
+export interface SummaryTemplateInput {
+  name: string;
+  description: string | null;
+  prompt: string;
+  sections: SummarySection[];
+  schema: Record<string, unknown> | null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validate a create/update body; `partial` allows leaving fields out
+export const parseTemplateInput = (
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<SummaryTemplateInput> } | { error: string } => {
+  const data: Partial<SummaryTemplateInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+      return { error: 'name must be 1-100 characters' };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== 'string' || body.description.length > 300)) {
+      return { error: 'description must be up to 300 characters' };
+    }
+    data.description = (body.description as string | null)?.trim() || null;
+  } else if (!partial) {
+    data.description = null;
+  }
+
+  if (body.prompt !== undefined || !partial) {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim() || body.prompt.length > 4000) {
+      return { error: 'prompt must be 1-4000 characters' };
+    }
+    data.prompt = body.prompt.trim();
+  }
+
+  if (body.sections !== undefined || !partial) {
+    if (
+      !Array.isArray(body.sections) ||
+      body.sections.length === 0 ||
+      body.sections.length > 12 ||
+      !body.sections.every((section) =>
+        isObject(section) &&
+        typeof section.title === 'string' && section.title.trim() && section.title.length <= 100 &&
+        (section.description === undefined || (typeof section.description === 'string' && section.description.length <= 500))
+      )
+    ) {
+      return { error: 'sections must be 1-12 entries with a title and an optional description' };
+    }
+    data.sections = body.sections.map((section: { title: string; description?: string }) => ({
+      title: section.title.trim(),
+      description: section.description?.trim() ?? ''
+    }));
+  }
+
+  if (body.schema !== undefined) {
+    // Each top-level property becomes a section of the rendered summary
+    if (
+      body.schema !== null &&
+      (!isObject(body.schema) || body.schema.type !== 'object' || !isObject(body.schema.properties))
+    ) {
+      return { error: 'schema must be a JSON schema with "type": "object" and "properties"' };
+    }
+    if (body.schema !== null && JSON.stringify(body.schema).length > 20000) {
+      return { error: 'schema must be under 20,000 characters' };
+    }
+    data.schema = body.schema as Record<string, unknown> | null;
+  } else if (!partial) {
+    data.schema = null;
+  }
+
+  return { data };
+};
+
+// "nextSteps" / "next_steps" -> "Next steps"
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const inline = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(inline).join(', ');
+  if (isObject(value)) {
+    return Object.entries(value).map(([key, item]) => `${humanize(key)}: ${inline(item)}`).join('; ');
+  }
+  return String(value);
+};
+
+const block = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map((item) => `- ${inline(item)}`).join('\n');
+  if (isObject(value)) {
+    return Object.entries(value).map(([key, item]) => `- **${humanize(key)}:** ${inline(item)}`).join('\n');
+  }
+  return inline(value);
+};
+
+// Markdown for a structured reply, so it reads like any other summary: one
+// section per top-level property, titled by the schema where it says how
+export const renderStructuredSummary = (
+  data: Record<string, unknown>,
+  schema?: Record<string, unknown> | null
+): string => {
+  const properties = (isObject(schema?.properties) ? schema.properties : {}) as Record<string, { title?: unknown }>;
+
+  return Object.entries(data)
+    .map(([key, value]) => {
+      const title = typeof properties[key]?.title === 'string' ? properties[key].title : humanize(key);
+      return `## ${title}\n${block(value) || '-'}`;
+    })
+    .join('\n\n');
+};
@@ -0,0 +1,161 @@
+import prisma from './prisma';
+import type { SummarizationProvider } from './providers';
+
+// New tags take the next color in turn
+export const TAG_COLORS = [
+  '#2563eb',
+  '#db2777',
+  '#16a34a',
+  '#ea580c',
+  '#9333ea',
+  '#0891b2',
+  '#ca8a04',
+  '#dc2626'
+];
+
+export const TAG_SELECT = {
+  id: true,
+  name: true,
+  color: true
+} as const;
+
+// Tags of a recording, as selected through RecordingTag
+export const RECORDING_TAGS_SELECT = {
+  orderBy: { tag: { name: 'asc' } },
+  select: { tag: { select: TAG_SELECT } }
+} as const;
+
+export interface TagInput {
+  name: string;
+  color: string;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+const isTagName = (value: unknown): value is string =>
+  typeof value === 'string' && !!value.trim() && value.trim().length <= MAX_NAME_LENGTH;
+
+// Validate a create/update body; `partial` allows leaving fields out
+export const parseTagInput = (
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<TagInput> } | { error: string } => {
+  const data: Partial<TagInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!isTagName(body.name)) {
+      return { error: `name must be 1-${MAX_NAME_LENGTH} characters` };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.color !== undefined) {
+    if (typeof body.color !== 'string' || !TAG_COLORS.includes(body.color)) {
+      return { error: `color must be one of: ${TAG_COLORS.join(', ')}` };
+    }
+    data.color = body.color;
+  }
+
+  return { data };
+};
+
+// A list of tag names, e.g. the tags to put on a recording
+export const parseTagNames = (value: unknown, field = 'tags'): { data: string[] } | { error: string } => {
+  if (!Array.isArray(value) || value.length > 50 || !value.every(isTagName)) {
+    return { error: `${field} must be a list of up to 50 names of 1-${MAX_NAME_LENGTH} characters` };
+  }
+  return { data: [...new Set(value.map((name) => name.trim()))] };
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// The workspace's tags with these names, matched regardless of case, creating
+// any that don't exist yet
+export async function findOrCreateTags(workspaceId: string, names: string[]) {
+  const existing = await prisma.tag.findMany({
+    where: { workspaceId },
+    select: TAG_SELECT
+  });
+
+  const found = names.map((name) => existing.find((tag) => sameName(tag.name, name)));
+  const missing = names
+    .filter((_, i) => !found[i])
+    .filter((name, i, all) => all.findIndex((other) => sameName(other, name)) === i);
+
+  const created = await Promise.all(missing.map((name, i) =>
+    prisma.tag.create({
+      data: { workspaceId, name, color: TAG_COLORS[(existing.length + i) % TAG_COLORS.length] },
+      select: TAG_SELECT
+    })
+  ));
+
+  return names.map((name, i) => found[i] ?? created.find((tag) => sameName(tag.name, name))!);
+}
+
+// Replace a recording's tags with the named ones. Suggestions that are now
+// applied are dropped.
+export async function setRecordingTags(recordingId: string, workspaceId: string, names: string[]) {
+  const [tags, recording] = await Promise.all([
+    findOrCreateTags(workspaceId, names),
+    prisma.recording.findUniqueOrThrow({
+      where: { id: recordingId },
+      select: { suggestedTags: true }
+    })
+  ]);
+  const tagIds = [...new Set(tags.map((tag) => tag.id))];
+
+  await prisma.$transaction([
+    prisma.recordingTag.deleteMany({ where: { recordingId, tagId: { notIn: tagIds } } }),
+    prisma.recordingTag.createMany({
+      data: tagIds.map((tagId) => ({ recordingId, tagId })),
+      skipDuplicates: true
+    }),
+    prisma.recording.update({
+      where: { id: recordingId },
+      data: {
+        suggestedTags: recording.suggestedTags.filter((name) => !tags.some((tag) => sameName(tag.name, name)))
+      }
+    })
+  ]);
+}
+
+// Suggest tags from the current summary, spelled like the workspace's existing
+// tags where they match. Tags already on the recording aren't suggested.
+export async function suggestTags(
+  recordingId: string,
+  provider: SummarizationProvider,
+  language?: string
+) {
+  const recording = await prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: {
+      summary: true,
+      workspaceId: true,
+      tags: { select: { tag: { select: { name: true } } } }
+    }
+  });
+  if (!recording?.summary?.trim()) return [];
+
+  const existing = await prisma.tag.findMany({
+    where: { workspaceId: recording.workspaceId },
+    orderBy: { name: 'asc' },
+    select: { name: true }
+  });
+
+  const suggested = await provider.suggestTags(recording.summary, {
+    existing: existing.map((tag) => tag.name),
+    language
+  });
+
+  const applied = recording.tags.map(({ tag }) => tag.name);
+  const suggestedTags = [...new Set(suggested
+    .map((name) => existing.find((tag) => sameName(tag.name, name))?.name ?? name)
+    .filter((name) => !applied.some((tag) => sameName(tag, name))))];
+
+  await prisma.recording.update({
+    where: { id: recordingId },
+    data: { suggestedTags }
+  });
+
+  return suggestedTags;
+}
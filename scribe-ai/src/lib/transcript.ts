@@ -0,0 +1,95 @@
+// A transcribed utterance. Times are milliseconds; relative to the audio clip
+// when returned by a provider, absolute within the recording once committed.
+export interface TranscribedSegment {
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+  confidence: number | null;
+  // ISO 639-1 code of the language spoken, when the provider reports it
+  language?: string | null;
+}
+
+// A word the user wants spelled their way: `term` is the preferred spelling,
+// `variants` are known mis-transcriptions of it
+export interface GlossaryEntry {
+  term: string;
+  variants: string[];
+  // How it sounds, e.g. "sky-bee" for "Scybe"
+  phonetic: string | null;
+}
+
+// What the provider should know about audio transcribed before this clip, so
+// speaker labels stay consistent across separately transcribed windows
+export interface TranscriptionContext {
+  speakers: string[];
+  previousText?: string;
+  // Spoken language hint (e.g. "en", "de"); detected when absent
+  language?: string;
+  glossary?: GlossaryEntry[];
+}
+
+// Speaker label ("Speaker 1") -> name the user gave it
+export type SpeakerNames = Map<string, string>;
+
+const speakerName = (label: string | null, names?: SpeakerNames) =>
+  label ? names?.get(label) ?? label : null;
+
+// Plain-text rendering kept in Recording.transcript for existing consumers
+export const formatTranscript = (
+  segments: Pick<TranscribedSegment, 'speaker' | 'text'>[],
+  names?: SpeakerNames
+): string => {
+  const lines: string[] = [];
+  let lastSpeaker: string | null = null;
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    if (segment.speaker && segment.speaker !== lastSpeaker) {
+      lines.push(`${speakerName(segment.speaker, names)}: ${text}`);
+    } else if (lines.length > 0 && segment.speaker) {
+      // Same speaker keeps talking: continue their line
+      lines[lines.length - 1] += ` ${text}`;
+    } else {
+      lines.push(text);
+    }
+    lastSpeaker = segment.speaker;
+  }
+
+  return lines.join('\n');
+};
+
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const srtTimestamp = (ms: number): string => {
+  const pad = (value: number, size = 2) => value.toString().padStart(size, '0');
+  const hours = Math.floor(ms / 3600000);
+  const mins = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)},${pad(ms % 1000, 3)}`;
+};
+
+export const formatSrt = (
+  segments: Pick<TranscribedSegment, 'startMs' | 'endMs' | 'speaker' | 'text'>[],
+  names?: SpeakerNames
+): string => {
+  return segments
+    .map((segment, i) => {
+      const speaker = speakerName(segment.speaker, names);
+      return [
+        (i + 1).toString(),
+        `${srtTimestamp(segment.startMs)} --> ${srtTimestamp(segment.endMs)}`,
+        speaker ? `${speaker}: ${segment.text}` : segment.text
+      ].join('\n');
+    })
+    .join('\n\n') + '\n';
+};
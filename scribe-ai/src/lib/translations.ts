@@ -0,0 +1,132 @@
+import prisma from './prisma';
+import { getTranslationProvider, ProviderError, type TranslationProvider } from './providers';
+import { getSpeakerNames } from './speakers';
+import { formatTranscript } from './transcript';
+import type { ReportProgress } from './jobs/types';
+
+// Segments sent per request, so long meetings stay within the model's output limit
+const BATCH_SIZE = 40;
+
+// Stored as the translation's JSON segments
+export type TranslatedSegment = {
+  index: number;
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+};
+
+export const TRANSLATION_SUMMARY_SELECT = {
+  id: true,
+  language: true,
+  provider: true,
+  model: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const translateInBatches = async (
+  provider: TranslationProvider,
+  texts: string[],
+  language: string,
+  report: ReportProgress
+) => {
+  const translated: string[] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    await report(10 + Math.round((75 * i) / texts.length), `Translating with ${provider.name}`);
+    translated.push(...await provider.translate(texts.slice(i, i + BATCH_SIZE), language));
+  }
+  return translated;
+};
+
+// Translate the current transcript and summary, replacing any earlier
+// translation into the same language. Runs as a TRANSLATE job.
+export async function translateRecording(
+  recordingId: string,
+  language: string,
+  report: ReportProgress,
+  providerName?: string
+) {
+  const recording = await prisma.recording.findUnique({
+    where: { id: recordingId },
+    select: { transcript: true, summary: true }
+  });
+
+  if (!recording?.transcript?.trim()) {
+    throw new ProviderError('NO_SPEECH', 'Transcript is empty - nothing to translate');
+  }
+
+  const provider = getTranslationProvider(providerName);
+  const source = await prisma.transcriptSegment.findMany({
+    where: { recordingId },
+    orderBy: { index: 'asc' },
+    select: { index: true, startMs: true, endMs: true, speaker: true, text: true }
+  });
+
+  let segments: TranslatedSegment[] = [];
+  let transcript: string;
+
+  if (source.length > 0) {
+    const texts = await translateInBatches(provider, source.map((segment) => segment.text), language, report);
+    segments = source.map((segment, i) => ({ ...segment, text: texts[i].trim() || segment.text }));
+    transcript = formatTranscript(segments, await getSpeakerNames(recordingId));
+  } else {
+    // Transcripts from before segments were stored are translated line by line
+    const lines = recording.transcript.split('\n');
+    transcript = (await translateInBatches(provider, lines, language, report)).join('\n');
+  }
+
+  await report(85, 'Translating summary');
+  const summary = recording.summary?.trim()
+    ? (await provider.translate([recording.summary], language))[0]
+    : null;
+
+  const data = {
+    segments,
+    transcript,
+    summary,
+    provider: provider.name,
+    model: provider.model
+  };
+
+  await report(95, 'Saving translation');
+  await prisma.translation.upsert({
+    where: { recordingId_language: { recordingId, language } },
+    create: { recordingId, language, ...data },
+    update: data
+  });
+
+  await report(100, 'Translation saved');
+}
+
+// Existing translations, flagged `stale` when the transcript or summary has
+// changed since they were made
+export async function listTranslations(recordingId: string) {
+  const [translations, transcriptVersion, summaryVersion] = await Promise.all([
+    prisma.translation.findMany({
+      where: { recordingId },
+      orderBy: { language: 'asc' },
+      select: TRANSLATION_SUMMARY_SELECT
+    }),
+    prisma.transcriptVersion.findFirst({
+      where: { recordingId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    }),
+    prisma.summaryVersion.findFirst({
+      where: { recordingId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    })
+  ]);
+
+  const lastChange = Math.max(
+    transcriptVersion?.createdAt.getTime() ?? 0,
+    summaryVersion?.createdAt.getTime() ?? 0
+  );
+
+  return translations.map((translation) => ({
+    ...translation,
+    stale: translation.updatedAt.getTime() < lastChange
+  }));
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseVersionSegments, restoreVersion } from './versions';
+
+const prisma = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  transcriptVersion: { findFirst: vi.fn(), create: vi.fn() },
+  transcriptSegment: { deleteMany: vi.fn(), createMany: vi.fn() },
+  recording: { update: vi.fn() }
+}));
+
+vi.mock('./prisma', () => ({ default: prisma }));
+vi.mock('./search', () => ({ queueSearchIndex: vi.fn() }));
+
+const segment = {
+  index: 0,
+  startMs: 0,
+  endMs: 1500,
+  speaker: 'Speaker 1',
+  text: 'Hello',
+  confidence: 0.9,
+  edited: false,
+  language: 'en'
+};
+
+describe('parseVersionSegments', () => {
+  it('reads stored segments back', () => {
+    expect(parseVersionSegments([segment])).toEqual([segment]);
+  });
+
+  it('accepts segments from before edits and languages were tracked', () => {
+    const older = { index: 0, startMs: 0, endMs: 1500, speaker: null, text: 'Hello', confidence: null };
+    expect(parseVersionSegments([older])).toEqual([older]);
+  });
+
+  it('returns null for plain-text versions', () => {
+    expect(parseVersionSegments(null)).toBeNull();
+  });
+
+  it('returns null when any segment has the wrong shape', () => {
+    expect(parseVersionSegments([segment, { ...segment, text: 3 }])).toBeNull();
+    expect(parseVersionSegments([segment, null])).toBeNull();
+    expect(parseVersionSegments({ segments: [segment] })).toBeNull();
+  });
+});
+
+describe('restoreVersion', () => {
+  it('drops the segments along with the text when restoring a plain-text version', async () => {
+    prisma.transcriptVersion.findFirst.mockResolvedValue({ id: 'version-1', text: 'Edited by hand', segments: null });
+    prisma.transcriptSegment.deleteMany.mockReturnValue('delete segments');
+    prisma.recording.update.mockReturnValue('update transcript');
+
+    expect(await restoreVersion('transcript', 'recording-1', 'version-1', 'user-1')).toBe('Edited by hand');
+
+    expect(prisma.transcriptSegment.deleteMany).toHaveBeenCalledWith({ where: { recordingId: 'recording-1' } });
+    expect(prisma.recording.update).toHaveBeenCalledWith({
+      where: { id: 'recording-1' },
+      data: { transcript: 'Edited by hand' }
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith(['delete segments', 'update transcript']);
+    expect(prisma.transcriptVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ text: 'Edited by hand', segments: undefined, reason: 'restore' })
+    });
+  });
+});
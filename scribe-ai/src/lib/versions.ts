@@ -0,0 +1,241 @@
+import prisma from './prisma';
+import { ensureSpeakers, getSpeakerNames } from './speakers';
+import { formatTranscript } from './transcript';
+import { dominantLanguage } from './language';
+import { queueSearchIndex } from './search';
+import { Prisma } from '../generated/prisma/client';
+
+export type VersionKind = 'transcript' | 'summary';
+
+export const isVersionKind = (value: string): value is VersionKind =>
+  value === 'transcript' || value === 'summary';
+
+// Why a version was written; shown in the recording's history
+export type VersionReason =
+  | 'original'
+  | 'live'
+  | 'transcribe'
+  | 'summarize'
+  | 'reprocess'
+  | 'edit'
+  | 'restore';
+
+// Who produced a version's text
+export type VersionAuthor =
+  | { userId: string }
+  | { provider: string; model: string | null };
+
+// TranscriptSegment fields kept with a transcript version. A type rather than
+// an interface, since only type literals are assignable to Prisma's JSON input.
+export type VersionSegment = {
+  index: number;
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+  confidence: number | null;
+  // Missing in versions from before segments could be edited
+  edited?: boolean;
+  // Missing in versions from before languages were tracked
+  language?: string | null;
+};
+
+export const VERSION_SEGMENT_SELECT = {
+  index: true,
+  startMs: true,
+  endMs: true,
+  speaker: true,
+  text: true,
+  confidence: true,
+  edited: true,
+  language: true
+} as const;
+
+const isVersionSegment = (value: unknown): value is VersionSegment => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const segment = value as Record<string, unknown>;
+
+  return (
+    Number.isInteger(segment.index) &&
+    typeof segment.startMs === 'number' &&
+    typeof segment.endMs === 'number' &&
+    (segment.speaker === null || typeof segment.speaker === 'string') &&
+    typeof segment.text === 'string' &&
+    (segment.confidence === null || typeof segment.confidence === 'number') &&
+    (segment.edited === undefined || typeof segment.edited === 'boolean') &&
+    (segment.language === undefined || segment.language === null || typeof segment.language === 'string')
+  );
+};
+
+// Segments stored with a transcript version; null when there are none or they
+// don't have the expected shape, and the version's text is all there is
+export const parseVersionSegments = (value: Prisma.JsonValue): VersionSegment[] | null =>
+  Array.isArray(value) && value.every(isVersionSegment) ? value : null;
+
+const authorFields = (author: VersionAuthor) =>
+  'userId' in author
+    ? { authorId: author.userId }
+    : { provider: author.provider, model: author.model };
+
+// Record the transcript just written. Without `segments` the current
+// TranscriptSegment rows are stored alongside the text.
+export async function saveTranscriptVersion(
+  recordingId: string,
+  text: string,
+  reason: VersionReason,
+  author: VersionAuthor,
+  segments?: VersionSegment[] | null
+) {
+  const stored = segments === undefined
+    ? await prisma.transcriptSegment.findMany({
+        where: { recordingId },
+        orderBy: { index: 'asc' },
+        select: VERSION_SEGMENT_SELECT
+      })
+    : segments;
+
+  const version = await prisma.transcriptVersion.create({
+    data: {
+      recordingId,
+      text,
+      segments: stored && stored.length > 0 ? stored : undefined,
+      reason,
+      ...authorFields(author)
+    }
+  });
+  await queueSearchIndex(recordingId);
+  return version;
+}
+
+// Autosaved corrections within this window share one version
+const EDIT_SESSION_MS = 10 * 60 * 1000;
+
+// Record the transcript after a segment correction. Consecutive edits by the
+// same user update their latest version instead of adding one per autosave.
+export async function saveTranscriptEdit(recordingId: string, text: string, userId: string) {
+  const latest = await prisma.transcriptVersion.findFirst({
+    where: { recordingId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, reason: true, authorId: true, createdAt: true }
+  });
+
+  if (
+    !latest ||
+    latest.reason !== 'edit' ||
+    latest.authorId !== userId ||
+    Date.now() - latest.createdAt.getTime() > EDIT_SESSION_MS
+  ) {
+    return saveTranscriptVersion(recordingId, text, 'edit', { userId });
+  }
+
+  const segments = await prisma.transcriptSegment.findMany({
+    where: { recordingId },
+    orderBy: { index: 'asc' },
+    select: VERSION_SEGMENT_SELECT
+  });
+
+  const version = await prisma.transcriptVersion.update({
+    where: { id: latest.id },
+    data: { text, segments }
+  });
+  await queueSearchIndex(recordingId);
+  return version;
+}
+
+// Record the summary just written
+export async function saveSummaryVersion(
+  recordingId: string,
+  text: string,
+  reason: VersionReason,
+  author: VersionAuthor
+) {
+  return prisma.summaryVersion.create({
+    data: { recordingId, text, reason, ...authorFields(author) }
+  });
+}
+
+const VERSION_SELECT = {
+  id: true,
+  text: true,
+  reason: true,
+  provider: true,
+  model: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, email: true } }
+} as const;
+
+// Newest first
+export async function listVersions(kind: VersionKind, recordingId: string) {
+  const where = { recordingId };
+  const orderBy = { createdAt: 'desc' } as const;
+
+  return kind === 'transcript'
+    ? prisma.transcriptVersion.findMany({ where, orderBy, select: VERSION_SELECT })
+    : prisma.summaryVersion.findMany({ where, orderBy, select: VERSION_SELECT });
+}
+
+export async function getVersion(kind: VersionKind, recordingId: string, versionId: string) {
+  const where = { id: versionId, recordingId };
+
+  if (kind === 'transcript') {
+    return prisma.transcriptVersion.findFirst({ where, select: { ...VERSION_SELECT, segments: true } });
+  }
+  const version = await prisma.summaryVersion.findFirst({ where, select: VERSION_SELECT });
+  return version && { ...version, segments: null };
+}
+
+// Make an earlier version current again. The restore is itself a new version,
+// so it can be undone from the history too.
+export async function restoreVersion(
+  kind: VersionKind,
+  recordingId: string,
+  versionId: string,
+  userId: string
+): Promise<string | null> {
+  const version = await getVersion(kind, recordingId, versionId);
+  if (!version) return null;
+
+  if (kind === 'summary') {
+    await prisma.recording.update({
+      where: { id: recordingId },
+      data: { summary: version.text, summaryData: Prisma.DbNull }
+    });
+    await saveSummaryVersion(recordingId, version.text, 'restore', { userId });
+    return version.text;
+  }
+
+  const segments = parseVersionSegments(version.segments);
+
+  // Plain-text versions (manual edits) have no segments to restore; drop the
+  // current ones so they don't contradict the restored text
+  if (!segments?.length) {
+    await prisma.$transaction([
+      prisma.transcriptSegment.deleteMany({ where: { recordingId } }),
+      prisma.recording.update({
+        where: { id: recordingId },
+        data: { transcript: version.text }
+      })
+    ]);
+    await saveTranscriptVersion(recordingId, version.text, 'restore', { userId }, null);
+    return version.text;
+  }
+
+  // Speakers may have been renamed since: render with the current names
+  await ensureSpeakers(recordingId, segments.map((segment) => segment.speaker));
+  const transcript = formatTranscript(segments, await getSpeakerNames(recordingId));
+  // Older versions have no languages; keep the current detection then
+  const detectedLanguage = dominantLanguage(segments);
+
+  await prisma.$transaction([
+    prisma.transcriptSegment.deleteMany({ where: { recordingId } }),
+    prisma.transcriptSegment.createMany({
+      data: segments.map((segment) => ({ recordingId, ...segment }))
+    }),
+    prisma.recording.update({
+      where: { id: recordingId },
+      data: { transcript, ...(detectedLanguage && { detectedLanguage }) }
+    })
+  ]);
+  await saveTranscriptVersion(recordingId, transcript, 'restore', { userId }, segments);
+  return transcript;
+}
@@ -0,0 +1,255 @@
+import { randomBytes } from 'crypto';
+import prisma from './prisma';
+import { getStorageForUrl } from './storage';
+import type { WorkspaceRole } from '../generated/prisma/client';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN', 'EDITOR', 'VIEWER'];
+
+// Created for users who aren't in any workspace yet
+const PERSONAL_WORKSPACE_NAME = 'Personal';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === 'string' && (WORKSPACE_ROLES as string[]).includes(value);
+
+export const MEMBER_SELECT = {
+  id: true,
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } }
+} as const;
+
+export const INVITATION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  token: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { name: true, email: true } }
+} as const;
+
+// What invitees see of their invitations: no token, which only the link carries
+const PENDING_INVITATION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { name: true, email: true } },
+  workspace: { select: { id: true, name: true } }
+} as const;
+
+export const parseWorkspaceInput = (
+  body: Record<string, unknown>
+): { data: { name: string } } | { error: string } => {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+    return { error: 'name must be 1-100 characters' };
+  }
+  return { data: { name: body.name.trim() } };
+};
+
+export const parseInvitationInput = (
+  body: Record<string, unknown>
+): { data: { email: string; role: WorkspaceRole } } | { error: string } => {
+  if (typeof body.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+    return { error: 'email must be an email address' };
+  }
+  if (!isWorkspaceRole(body.role)) {
+    return { error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` };
+  }
+  return { data: { email: body.email.trim().toLowerCase(), role: body.role } };
+};
+
+export async function createWorkspace(userId: string, name: string) {
+  return prisma.workspace.create({
+    data: { name, memberships: { create: { userId, role: 'OWNER' } } },
+    select: { id: true, name: true }
+  });
+}
+
+// The workspace the user last switched to. Falls back to their oldest
+// membership, and creates a personal workspace for users with none.
+export async function getActiveWorkspace(userId: string): Promise<{ id: string; role: WorkspaceRole }> {
+  const [preferences, memberships] = await Promise.all([
+    prisma.userPreferences.findUnique({
+      where: { userId },
+      select: { activeWorkspaceId: true }
+    }),
+    prisma.membership.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { workspaceId: true, role: true }
+    })
+  ]);
+
+  const active = memberships.find((membership) => membership.workspaceId === preferences?.activeWorkspaceId)
+    ?? memberships[0];
+  if (active) return { id: active.workspaceId, role: active.role };
+
+  const workspace = await createWorkspace(userId, PERSONAL_WORKSPACE_NAME);
+  return { id: workspace.id, role: 'OWNER' };
+}
+
+export async function setActiveWorkspace(userId: string, workspaceId: string) {
+  await prisma.userPreferences.upsert({
+    where: { userId },
+    create: { userId, activeWorkspaceId: workspaceId },
+    update: { activeWorkspaceId: workspaceId }
+  });
+}
+
+// The user's workspaces by name, with their role and which one is active
+export async function listWorkspaces(userId: string) {
+  const active = await getActiveWorkspace(userId);
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    orderBy: { workspace: { name: 'asc' } },
+    select: {
+      role: true,
+      workspace: {
+        select: { id: true, name: true, _count: { select: { memberships: true } } }
+      }
+    }
+  });
+
+  return memberships.map(({ role, workspace }) => ({
+    id: workspace.id,
+    name: workspace.name,
+    role,
+    memberCount: workspace._count.memberships,
+    active: workspace.id === active.id
+  }));
+}
+
+// Whether the workspace would be left without an owner once `membershipId`
+// stops being one
+export async function isLastOwner(workspaceId: string, membershipId: string) {
+  const owners = await prisma.membership.findMany({
+    where: { workspaceId, role: 'OWNER' },
+    select: { id: true }
+  });
+  return owners.length === 1 && owners[0].id === membershipId;
+}
+
+// Invite an address, replacing any earlier invitation to it with a fresh token
+export async function createInvitation(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole,
+  invitedById: string
+) {
+  const data = {
+    role,
+    invitedById,
+    token: randomBytes(32).toString('base64url'),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+  };
+
+  return prisma.workspaceInvitation.upsert({
+    where: { workspaceId_email: { workspaceId, email } },
+    create: { workspaceId, email, ...data },
+    update: data,
+    select: INVITATION_SELECT
+  });
+}
+
+// Unexpired invitations to the user's address, so they know to look for the
+// link. Sign-up doesn't verify addresses, so unverified accounts see none.
+export async function pendingInvitations(user: { email: string; emailVerified: boolean }) {
+  if (!user.emailVerified) return [];
+
+  return prisma.workspaceInvitation.findMany({
+    where: { email: user.email.toLowerCase(), expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+    select: PENDING_INVITATION_SELECT
+  });
+}
+
+// Join the invitation's workspace and switch to it. Only the address invited
+// can accept, once verified; members who accept keep the role they have.
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string; emailVerified: boolean }
+): Promise<{ data: { workspaceId: string } } | { error: string; status: 403 | 404 }> {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { token },
+    select: { id: true, workspaceId: true, email: true, role: true, expiresAt: true }
+  });
+
+  if (!invitation || invitation.expiresAt < new Date()) {
+    return { error: 'This invitation is invalid or has expired', status: 404 };
+  }
+  if (invitation.email !== user.email.toLowerCase()) {
+    return { error: `This invitation was sent to ${invitation.email}`, status: 403 };
+  }
+  if (!user.emailVerified) {
+    return { error: 'Verify your email address before accepting invitations', status: 403 };
+  }
+
+  await prisma.$transaction([
+    prisma.membership.upsert({
+      where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId: user.id } },
+      create: { workspaceId: invitation.workspaceId, userId: user.id, role: invitation.role },
+      update: {}
+    }),
+    prisma.workspaceInvitation.delete({ where: { id: invitation.id } })
+  ]);
+  await setActiveWorkspace(user.id, invitation.workspaceId);
+
+  return { data: { workspaceId: invitation.workspaceId } };
+}
+
+// Shared workspaces this user is the only owner of. They have to hand over
+// ownership before deleting their account, or nobody could manage them.
+export async function soleOwnedSharedWorkspaces(userId: string) {
+  const owned = await prisma.membership.findMany({
+    where: { userId, role: 'OWNER' },
+    select: {
+      workspace: {
+        select: {
+          id: true,
+          name: true,
+          memberships: { where: { role: 'OWNER', userId: { not: userId } }, select: { id: true }, take: 1 },
+          _count: { select: { memberships: true } }
+        }
+      }
+    }
+  });
+
+  return owned
+    .map(({ workspace }) => workspace)
+    .filter((workspace) => workspace._count.memberships > 1 && workspace.memberships.length === 0)
+    .map(({ id, name }) => ({ id, name }));
+}
+
+// Delete the workspaces only this user belongs to, which nobody could reach
+// once their account is gone, along with their recordings' stored audio
+export async function deleteSoleWorkspaces(userId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    select: { workspaceId: true, workspace: { select: { _count: { select: { memberships: true } } } } }
+  });
+  const workspaceIds = memberships
+    .filter(({ workspace }) => workspace._count.memberships === 1)
+    .map(({ workspaceId }) => workspaceId);
+
+  const recordings = await prisma.recording.findMany({
+    where: { workspaceId: { in: workspaceIds }, audioUrl: { not: null } },
+    select: { audioUrl: true }
+  });
+
+  await prisma.workspace.deleteMany({
+    where: { id: { in: workspaceIds } }
+  });
+
+  // Leftover files shouldn't stop the account from being deleted
+  for (const { audioUrl } of recordings) {
+    try {
+      await getStorageForUrl(audioUrl!).delete(audioUrl!);
+    } catch (storageError) {
+      console.error('Delete workspace audio error:', storageError);
+    }
+  }
+}
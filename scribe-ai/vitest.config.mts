@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // Tests never reach a model: every provider is the deterministic fake one
+    env: {
+      TRANSCRIPTION_PROVIDER: 'fake',
+      SUMMARIZATION_PROVIDER: 'fake',
+      TRANSLATION_PROVIDER: 'fake',
+      CHAT_PROVIDER: 'fake',
+      EMBEDDING_PROVIDER: 'fake'
+    }
+  }
+});
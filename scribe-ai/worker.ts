@@ -0,0 +1,25 @@
+// Standalone job worker: `npm run worker`. Run the web server with
+// RUN_JOB_WORKER=false to leave all post-processing to these processes.
+import 'dotenv/config';
+import { JobWorker } from './src/lib/jobs';
+
+const worker = new JobWorker({
+  onEvent: (event) => {
+    console.log(
+      `[jobs] ${event.type} ${event.jobId} ${event.status} ${event.progress}%${event.stage ? ` - ${event.stage}` : ''}`
+    );
+  }
+});
+
+worker.start();
+
+const shutdown = () => {
+  console.log('[jobs] Shutting down worker...');
+  worker.stop().then(() => process.exit(0));
+
+  // Don't hang on a long-running provider call
+  setTimeout(() => process.exit(1), 30000).unref();
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);